@@ -0,0 +1,11 @@
+-- One queued or running enhancement job per article.
+-- Prisma cannot express partial unique indexes, so this file is applied after `prisma db push`:
+--   npm run db:jobs
+--
+-- Queueing looks for an active job before inserting one, so two requests for
+-- the same original could otherwise both insert. With the index, the second
+-- insert fails (or is skipped) and the request returns the existing job.
+
+CREATE UNIQUE INDEX IF NOT EXISTS "EnhancementJob_articleId_active_key"
+  ON "EnhancementJob" ("articleId")
+  WHERE "status" IN ('queued', 'running');
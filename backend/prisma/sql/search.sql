@@ -0,0 +1,29 @@
+-- Full-text search support for the Article table.
+-- Prisma cannot express triggers, so this file is applied after `prisma db push`:
+--   npm run db:search
+--
+-- The search document is weighted so that matches in the title rank above
+-- tags, tags above the excerpt, and the excerpt above the body:
+--   A = title, B = tags, C = excerpt, D = content (plain text when available)
+
+CREATE OR REPLACE FUNCTION article_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(NEW."tags", ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW."excerpt", '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(NEW."contentText", NEW."content", '')), 'D');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS article_search_vector_trigger ON "Article";
+
+CREATE TRIGGER article_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF "title", "tags", "excerpt", "content", "contentText"
+  ON "Article"
+  FOR EACH ROW
+  EXECUTE FUNCTION article_search_vector_update();
+
+-- Backfill rows that existed before the trigger was installed
+UPDATE "Article" SET "title" = "title" WHERE "searchVector" IS NULL;
@@ -0,0 +1,45 @@
+import express, { type Express, type Request, type Response } from "express";
+import cors from "cors";
+import dotenv from "dotenv";
+import { articleRouter } from "./routes/article.routes.js";
+import { enhancementJobRouter } from "./routes/enhancement-job.routes.js";
+import { errorHandler } from "./middleware/error.middleware.js";
+import {
+  MAX_COMPETITOR_SOURCE_LENGTH,
+  MAX_COMPETITOR_SOURCES,
+} from "./schemas/article.schema.js";
+
+dotenv.config();
+
+/**
+ * Largest JSON body accepted. Enhanced versions are the biggest requests:
+ * up to `MAX_COMPETITOR_SOURCES` excerpts of `MAX_COMPETITOR_SOURCE_LENGTH`
+ * characters (at most 3 bytes each), plus 1 MiB for the article and its
+ * details. Larger bodies get a 413 before any validation runs.
+ */
+export const JSON_BODY_LIMIT =
+  MAX_COMPETITOR_SOURCES * MAX_COMPETITOR_SOURCE_LENGTH * 3 + 1024 * 1024;
+
+export const app: Express = express();
+
+const corsOrigins = process.env.CORS_ORIGINS?.split(",") || [
+  "http://localhost:5173",
+];
+app.use(
+  cors({
+    origin: corsOrigins,
+    methods: ["GET", "POST", "PUT", "DELETE"],
+    allowedHeaders: ["Content-Type", "Authorization"],
+  })
+);
+
+app.use(express.json({ limit: JSON_BODY_LIMIT }));
+
+app.get("/health", (_req: Request, res: Response) => {
+  res.json({ status: "ok", timestamp: new Date().toISOString() });
+});
+
+app.use("/api/articles", articleRouter);
+app.use("/api/jobs", enhancementJobRouter);
+
+app.use(errorHandler);
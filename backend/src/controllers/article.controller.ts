@@ -1,16 +1,55 @@
 import type { Request, Response } from "express";
 import { articleService } from "../services/article.service.js";
+import { revisionService } from "../services/revision.service.js";
+import { enhancementJobService } from "../services/enhancement-job.service.js";
+import { reviewService } from "../services/review.service.js";
+import { diffService } from "../services/diff.service.js";
+import { scoringService } from "../services/scoring.service.js";
+import {
+  enhancementDecisionService,
+} from "../services/enhancement-decision.service.js";
+import { saveDecisionsSchema } from "../schemas/enhancement-decision.schema.js";
+import { enhanceArticleSchema } from "../schemas/enhancement-job.schema.js";
 import {
   createArticleSchema,
+  createArticleQuerySchema,
   updateArticleSchema,
   listArticlesQuerySchema,
+  articleFacetsQuerySchema,
+  revisionParamSchema,
+  updateStatusSchema,
+  type ArticleFilters,
 } from "../schemas/article.schema.js";
 import { AppError, asyncHandler } from "../middleware/error.middleware.js";
+import { hasRole } from "../middleware/auth.middleware.js";
+
+/** Whether the request may see drafts and other unpublished articles */
+function canSeeUnpublished(req: Request, res: Response) {
+  return hasRole(req, res, "editor");
+}
+
+/**
+ * Only editors may list unpublished articles.
+ * @throws AppError 403 if the status filter includes unpublished articles
+ */
+async function assertCanList(
+  req: Request,
+  res: Response,
+  status: ArticleFilters["status"]
+) {
+  const unpublished = status.some((s) => s !== "published");
+
+  if (unpublished && !(await canSeeUnpublished(req, res))) {
+    throw new AppError(403, "Listing unpublished articles requires an editor");
+  }
+}
 
 /**
  * GET /api/articles
- * Lists all articles with pagination and optional filtering.
- * Query params: page, limit, isEnhanced, search
+ * Lists all articles with pagination, optional filtering and full-text search.
+ * Query params: page, limit, cursor, sort, order, search, isEnhanced, tags,
+ * tagMode, excludeTags, author, publishedFrom, publishedTo, originalArticleId,
+ * enhancementKey, hasEnhancements, minVersions, status (default: published)
  */
 export const getArticles = asyncHandler(async (req: Request, res: Response) => {
   const queryResult = listArticlesQuerySchema.safeParse(req.query);
@@ -19,6 +58,7 @@ export const getArticles = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError(400, queryResult.error.errors[0].message);
   }
 
+  await assertCanList(req, res, queryResult.data.status);
   const result = await articleService.findAll(queryResult.data);
 
   res.json({
@@ -28,14 +68,40 @@ export const getArticles = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
+/**
+ * GET /api/articles/facets
+ * Counts matching articles by enhancement status, tag, author and publish
+ * month. Accepts the same search and filter params as GET /api/articles,
+ * plus limit (maximum tag/author buckets).
+ */
+export const getArticleFacets = asyncHandler(
+  async (req: Request, res: Response) => {
+    const queryResult = articleFacetsQuerySchema.safeParse(req.query);
+
+    if (!queryResult.success) {
+      throw new AppError(400, queryResult.error.errors[0].message);
+    }
+
+    await assertCanList(req, res, queryResult.data.status);
+    const facets = await articleService.getFacets(queryResult.data);
+
+    res.json({
+      success: true,
+      data: facets,
+    });
+  }
+);
+
 /**
  * GET /api/articles/:id
- * Retrieves a single article by ID.
+ * Retrieves a single article by ID. Unpublished articles need an editor key.
  */
 export const getArticle = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
 
-  const article = await articleService.findById(id);
+  const article = await articleService.findById(id, {
+    includeUnpublished: await canSeeUnpublished(req, res),
+  });
 
   res.json({
     success: true,
@@ -47,12 +113,15 @@ export const getArticle = asyncHandler(async (req: Request, res: Response) => {
  * GET /api/articles/:id/enhanced
  * Retrieves an article with all its enhanced versions.
  * Used for comparison view between original and enhanced.
+ * Unpublished versions are only included for editor keys.
  */
 export const getArticleWithEnhanced = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = req.params;
 
-    const article = await articleService.getWithEnhanced(id);
+    const article = await articleService.getWithEnhanced(id, {
+      includeUnpublished: await canSeeUnpublished(req, res),
+    });
 
     res.json({
       success: true,
@@ -61,14 +130,102 @@ export const getArticleWithEnhanced = asyncHandler(
   }
 );
 
+/**
+ * GET /api/articles/:id/diff/:otherId
+ * Diffs an article's title and content against another version of the same
+ * original, paragraph by paragraph and word by word.
+ * Unpublished versions need an editor key.
+ */
+export const getArticleDiff = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id, otherId } = req.params;
+
+    const diff = await diffService.compare(id, otherId, {
+      includeUnpublished: await canSeeUnpublished(req, res),
+    });
+
+    res.json({
+      success: true,
+      data: diff,
+    });
+  }
+);
+
+/**
+ * GET /api/articles/:id/scorecard
+ * Content quality and SEO scores of an enhanced version and its original.
+ * Unpublished versions need an editor key.
+ */
+export const getArticleScorecard = asyncHandler(
+  async (req: Request, res: Response) => {
+    const scorecard = await scoringService.scorecard(req.params.id, {
+      includeUnpublished: await canSeeUnpublished(req, res),
+    });
+
+    res.json({
+      success: true,
+      data: scorecard,
+    });
+  }
+);
+
+/**
+ * GET /api/articles/:id/revisions
+ * Lists an article's content revisions, newest first.
+ * Unpublished versions need an editor key.
+ */
+export const getArticleRevisions = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const revisions = await revisionService.findAll(id, {
+      includeUnpublished: await canSeeUnpublished(req, res),
+    });
+
+    res.json({
+      success: true,
+      data: revisions,
+    });
+  }
+);
+
+/**
+ * GET /api/articles/:id/revisions/:revision
+ * Retrieves a single past revision of an article, including its content.
+ * Unpublished versions need an editor key.
+ */
+export const getArticleRevision = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const paramResult = revisionParamSchema.safeParse(req.params.revision);
+
+    if (!paramResult.success) {
+      throw new AppError(400, paramResult.error.errors[0].message);
+    }
+
+    const revision = await revisionService.findOne(id, paramResult.data, {
+      includeUnpublished: await canSeeUnpublished(req, res),
+    });
+
+    res.json({
+      success: true,
+      data: revision,
+    });
+  }
+);
+
 /**
  * POST /api/articles
  * Creates a new article.
  * Request body is validated against createArticleSchema.
+ * An enhanced version whose enhancementKey already exists is returned with
+ * 200 instead of being created again, unless ?force=true.
  */
 export const createArticle = asyncHandler(
   async (req: Request, res: Response) => {
     const bodyResult = createArticleSchema.safeParse(req.body);
+    const queryResult = createArticleQuerySchema.safeParse(req.query);
 
     if (!bodyResult.success) {
       throw new AppError(
@@ -77,16 +234,128 @@ export const createArticle = asyncHandler(
       );
     }
 
-    const article = await articleService.create(bodyResult.data);
+    if (!queryResult.success) {
+      throw new AppError(400, queryResult.error.errors[0].message);
+    }
+
+    const { article, created } = await articleService.create(
+      bodyResult.data,
+      queryResult.data
+    );
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      message: created
+        ? "Article created successfully"
+        : "An enhanced version with these inputs already exists",
+      data: article,
+    });
+  }
+);
+
+/**
+ * POST /api/articles/:id/enhance
+ * Queues an enhancement job for an original article, or returns the job
+ * already queued for it. Follow it with GET /api/jobs/:id/events.
+ * Body: { force? }
+ */
+export const enhanceArticle = asyncHandler(
+  async (req: Request, res: Response) => {
+    const bodyResult = enhanceArticleSchema.safeParse(req.body ?? {});
+
+    if (!bodyResult.success) {
+      throw new AppError(400, bodyResult.error.errors[0].message);
+    }
+
+    const { job, created } = await enhancementJobService.enqueueForArticle(
+      req.params.id,
+      bodyResult.data.force
+    );
+
+    res.status(202).json({
+      success: true,
+      message: created
+        ? "Enhancement queued"
+        : "An enhancement is already queued for this article",
+      data: job,
+    });
+  }
+);
+
+/**
+ * POST /api/articles/:id/status
+ * Moves an enhanced article through the review workflow. Editors submit
+ * drafts; reviewers approve, reject (with notes) and publish.
+ * Body: { status, notes? }
+ */
+export const updateArticleStatus = asyncHandler(
+  async (req: Request, res: Response) => {
+    const bodyResult = updateStatusSchema.safeParse(req.body);
+
+    if (!bodyResult.success) {
+      throw new AppError(400, bodyResult.error.errors[0].message);
+    }
+
+    const article = await reviewService.transition(
+      req.params.id,
+      bodyResult.data,
+      res.locals.apiKey
+    );
+
+    res.json({
+      success: true,
+      message: `Article is now ${article.status}`,
+      data: article,
+    });
+  }
+);
+
+/**
+ * PUT /api/articles/:id/decisions
+ * Accepts or rejects individual changes of an enhanced article in review.
+ * Body: { decisions: [{ index, decision: "accepted" | "rejected" | null,
+ * note? }] }, where index points into enhancementDetails
+ */
+export const saveDecisions = asyncHandler(
+  async (req: Request, res: Response) => {
+    const bodyResult = saveDecisionsSchema.safeParse(req.body);
+
+    if (!bodyResult.success) {
+      throw new AppError(400, bodyResult.error.errors[0].message);
+    }
+
+    const article = await enhancementDecisionService.save(
+      req.params.id,
+      bodyResult.data,
+      res.locals.apiKey
+    );
 
-    res.status(201).json({
+    res.json({
       success: true,
-      message: "Article created successfully",
+      message: "Decisions saved",
       data: article,
     });
   }
 );
 
+/**
+ * POST /api/articles/:id/merge
+ * Rebuilds the final article (finalContent) from the original plus only the
+ * accepted changes. Responds with the article and the indexes of accepted
+ * changes that were applied or couldn't be placed.
+ */
+export const mergeAcceptedChanges = asyncHandler(
+  async (req: Request, res: Response) => {
+    const result = await enhancementDecisionService.merge(req.params.id);
+
+    res.json({
+      success: true,
+      message: `Merged ${result.applied.length} accepted change(s)`,
+      data: result,
+    });
+  }
+);
+
 /**
  * PUT /api/articles/:id
  * Updates an existing article.
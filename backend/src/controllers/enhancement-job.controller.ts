@@ -0,0 +1,256 @@
+import type { Request, Response } from "express";
+import type { ZodError } from "zod";
+import { enhancementJobService } from "../services/enhancement-job.service.js";
+import { apiKeyService } from "../services/api-key.service.js";
+import {
+  enqueueJobsSchema,
+  listJobsQuerySchema,
+  claimJobSchema,
+  heartbeatJobSchema,
+  reportProgressSchema,
+  completeJobSchema,
+  failJobSchema,
+} from "../schemas/enhancement-job.schema.js";
+import { AppError, asyncHandler } from "../middleware/error.middleware.js";
+
+function validationError(error: ZodError) {
+  return new AppError(400, error.errors.map((e) => e.message).join(", "));
+}
+
+/**
+ * GET /api/jobs
+ * Lists enhancement jobs, newest first.
+ * Query params: page, limit, status, articleId
+ */
+export const getJobs = asyncHandler(async (req: Request, res: Response) => {
+  const queryResult = listJobsQuerySchema.safeParse(req.query);
+
+  if (!queryResult.success) {
+    throw validationError(queryResult.error);
+  }
+
+  const result = await enhancementJobService.findAll(queryResult.data);
+
+  res.json({
+    success: true,
+    data: result.jobs,
+    pagination: result.pagination,
+  });
+});
+
+/**
+ * GET /api/jobs/:id
+ * Retrieves a single job, including its attempts and last error.
+ */
+export const getJob = asyncHandler(async (req: Request, res: Response) => {
+  const job = await enhancementJobService.findById(req.params.id);
+
+  res.json({
+    success: true,
+    data: job,
+  });
+});
+
+/** Keeps proxies from closing an idle event stream */
+const SSE_PING_INTERVAL_MS = 15_000;
+
+/**
+ * GET /api/jobs/:id/events
+ * Streams a job as Server-Sent Events: a `progress` event with the job
+ * whenever it changes, then a `done` event once it succeeds or fails.
+ * An `error` event is sent if the job disappears while streaming.
+ */
+export const streamJobEvents = asyncHandler(
+  async (req: Request, res: Response) => {
+    // Fail with a normal 404 before the stream starts
+    await enhancementJobService.findById(req.params.id);
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const closed = new AbortController();
+    req.on("close", () => closed.abort());
+
+    const ping = setInterval(
+      () => res.write(": ping\n\n"),
+      SSE_PING_INTERVAL_MS
+    );
+    const send = (event: string, data: unknown) =>
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    try {
+      for await (const job of enhancementJobService.watch(
+        req.params.id,
+        closed.signal
+      )) {
+        const finished = job.status === "succeeded" || job.status === "failed";
+        send(finished ? "done" : "progress", job);
+      }
+    } catch (error) {
+      send("error", {
+        error: error instanceof AppError ? error.message : "Stream failed",
+      });
+    } finally {
+      clearInterval(ping);
+      res.end();
+    }
+  }
+);
+
+/**
+ * POST /api/jobs
+ * Queues enhancement jobs.
+ * Body: { articleIds } or { all: true }, plus optional maxAttempts and force.
+ * Queueing every original is a bulk operation and needs an admin key.
+ */
+export const enqueueJobs = asyncHandler(async (req: Request, res: Response) => {
+  const bodyResult = enqueueJobsSchema.safeParse(req.body);
+
+  if (!bodyResult.success) {
+    throw validationError(bodyResult.error);
+  }
+
+  if (
+    bodyResult.data.all &&
+    !apiKeyService.hasRole(res.locals.apiKey.role, "admin")
+  ) {
+    throw new AppError(403, "Queueing every original requires the admin role");
+  }
+
+  const { jobs, skipped } = await enhancementJobService.enqueue(
+    bodyResult.data
+  );
+
+  res.status(201).json({
+    success: true,
+    message: `Queued ${jobs.length} job(s), skipped ${skipped} already queued`,
+    data: jobs,
+  });
+});
+
+/**
+ * POST /api/jobs/claim
+ * Claims the next runnable job for a worker.
+ * Body: { workerId, leaseMs? }. Responds with data: null if none is runnable.
+ */
+export const claimJob = asyncHandler(async (req: Request, res: Response) => {
+  const bodyResult = claimJobSchema.safeParse(req.body);
+
+  if (!bodyResult.success) {
+    throw validationError(bodyResult.error);
+  }
+
+  const { workerId, leaseMs } = bodyResult.data;
+  const job = await enhancementJobService.claim(workerId, leaseMs);
+
+  res.json({
+    success: true,
+    data: job,
+  });
+});
+
+/**
+ * POST /api/jobs/:id/heartbeat
+ * Extends the worker's lease on a running job.
+ * Body: { workerId, leaseMs? }
+ */
+export const heartbeatJob = asyncHandler(
+  async (req: Request, res: Response) => {
+    const bodyResult = heartbeatJobSchema.safeParse(req.body);
+
+    if (!bodyResult.success) {
+      throw validationError(bodyResult.error);
+    }
+
+    const { workerId, leaseMs } = bodyResult.data;
+    const job = await enhancementJobService.heartbeat(
+      req.params.id,
+      workerId,
+      leaseMs
+    );
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  }
+);
+
+/**
+ * POST /api/jobs/:id/progress
+ * Records the worker's latest progress on a running job.
+ * Body: { workerId, progress: { stage, message, current?, total? } }
+ */
+export const reportJobProgress = asyncHandler(
+  async (req: Request, res: Response) => {
+    const bodyResult = reportProgressSchema.safeParse(req.body);
+
+    if (!bodyResult.success) {
+      throw validationError(bodyResult.error);
+    }
+
+    const { workerId, progress } = bodyResult.data;
+    const job = await enhancementJobService.reportProgress(
+      req.params.id,
+      workerId,
+      progress
+    );
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  }
+);
+
+/**
+ * POST /api/jobs/:id/complete
+ * Marks a running job as succeeded.
+ * Body: { workerId, resultArticleId? }
+ */
+export const completeJob = asyncHandler(
+  async (req: Request, res: Response) => {
+    const bodyResult = completeJobSchema.safeParse(req.body);
+
+    if (!bodyResult.success) {
+      throw validationError(bodyResult.error);
+    }
+
+    const { workerId, resultArticleId } = bodyResult.data;
+    const job = await enhancementJobService.complete(
+      req.params.id,
+      workerId,
+      resultArticleId
+    );
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  }
+);
+
+/**
+ * POST /api/jobs/:id/fail
+ * Records a failed attempt; the job is retried with backoff or marked failed.
+ * Body: { workerId, error }
+ */
+export const failJob = asyncHandler(async (req: Request, res: Response) => {
+  const bodyResult = failJobSchema.safeParse(req.body);
+
+  if (!bodyResult.success) {
+    throw validationError(bodyResult.error);
+  }
+
+  const { workerId, error } = bodyResult.data;
+  const job = await enhancementJobService.fail(req.params.id, workerId, error);
+
+  res.json({
+    success: true,
+    data: job,
+  });
+});
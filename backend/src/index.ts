@@ -1,36 +1,8 @@
-import express, { type Express, type Request, type Response } from "express";
-import cors from "cors";
-import dotenv from "dotenv";
-import { articleRouter } from "./routes/article.routes.js";
-import { errorHandler } from "./middleware/error.middleware.js";
+import { app } from "./app.js";
 import { prisma } from "./lib/prisma.js";
 
-dotenv.config();
-
-export const app: Express = express();
 const PORT = process.env.PORT || 3000;
 
-const corsOrigins = process.env.CORS_ORIGINS?.split(",") || [
-  "http://localhost:5173",
-];
-app.use(
-  cors({
-    origin: corsOrigins,
-    methods: ["GET", "POST", "PUT", "DELETE"],
-    allowedHeaders: ["Content-Type", "Authorization"],
-  })
-);
-
-app.use(express.json());
-
-app.get("/health", (_req: Request, res: Response) => {
-  res.json({ status: "ok", timestamp: new Date().toISOString() });
-});
-
-app.use("/api/articles", articleRouter);
-
-app.use(errorHandler);
-
 async function main() {
   try {
     await prisma.$connect();
@@ -57,4 +29,5 @@ if (!process.env.VERCEL) {
   main();
 }
 
+export { app };
 export default app;
@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+/**
+ * Position in a sorted article list, handed to clients as an opaque token.
+ * Holds the sort key and ID of the row the next page starts after (or, for
+ * `prev`, the row the previous page ends before).
+ */
+const cursorSchema = z.object({
+  sort: z.string(),
+  order: z.enum(["asc", "desc"]),
+  value: z.union([z.string(), z.number()]),
+  id: z.string(),
+  direction: z.enum(["next", "prev"]),
+});
+
+export type Cursor = z.infer<typeof cursorSchema>;
+
+/** Encodes a cursor as a URL-safe token */
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Decodes a token produced by `encodeCursor`.
+ * @returns The cursor, or null if the token is malformed
+ */
+export function decodeCursor(token: string): Cursor | null {
+  try {
+    const json = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    const result = cursorSchema.safeParse(json);
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,293 @@
+import { htmlToBlocks, type TextBlock } from "./html.js";
+
+/**
+ * Largest LCS table computed; bigger inputs are reported as wholly removed
+ * and added rather than diffed, to bound time and memory.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Word overlap above which a removed and an added block are one change */
+const CHANGED_BLOCK_SIMILARITY = 0.5;
+
+export type DiffOp = "equal" | "added" | "removed";
+
+/** A run of text that is in both versions, or only in one */
+export interface DiffSpan {
+  type: DiffOp;
+  text: string;
+}
+
+/** A paragraph-level block compared across the two versions */
+export type DiffBlock =
+  | { type: DiffOp; tag: string; text: string }
+  | { type: "changed"; tag: string; fromTag: string; spans: DiffSpan[] };
+
+export interface DiffStats {
+  blocksUnchanged: number;
+  blocksAdded: number;
+  blocksRemoved: number;
+  blocksChanged: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+export interface ContentDiff {
+  blocks: DiffBlock[];
+  stats: DiffStats;
+}
+
+/**
+ * Aligns two sequences by their longest common subsequence.
+ * @returns Operations in order; "removed" items come from `a`, "added"
+ *   from `b`, "equal" from both
+ */
+function align<T>(
+  a: T[],
+  b: T[],
+  equal: (x: T, y: T) => boolean
+): Array<{ op: DiffOp; item: T }> {
+  // Common prefix and suffix don't need the table
+  let start = 0;
+  while (start < a.length && start < b.length && equal(a[start], b[start])) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && equal(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const asEqual = (item: T) => ({ op: "equal" as const, item });
+  const head = a.slice(0, start).map(asEqual);
+  const tail = a.slice(endA).map(asEqual);
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map((item) => ({ op: "removed" as const, item })),
+      ...midB.map((item) => ({ op: "added" as const, item })),
+      ...tail,
+    ];
+  }
+
+  // lengths[cell(i, j)] = LCS length of midA[i:] and midB[j:]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  const cell = (i: number, j: number) => i * (m + 1) + j;
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[cell(i, j)] = equal(midA[i], midB[j])
+        ? lengths[cell(i + 1, j + 1)] + 1
+        : Math.max(lengths[cell(i + 1, j)], lengths[cell(i, j + 1)]);
+    }
+  }
+
+  const ops: Array<{ op: DiffOp; item: T }> = [...head];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && equal(midA[i], midB[j])) {
+      ops.push({ op: "equal", item: midA[i] });
+      i++;
+      j++;
+    } else if (
+      j === m ||
+      (i < n && lengths[cell(i + 1, j)] >= lengths[cell(i, j + 1)])
+    ) {
+      ops.push({ op: "removed", item: midA[i++] });
+    } else {
+      ops.push({ op: "added", item: midB[j++] });
+    }
+  }
+
+  return [...ops, ...tail];
+}
+
+function wordsOf(text: string): string[] {
+  return text.match(/\S+/g) ?? [];
+}
+
+/** Lowercased words without punctuation, for comparing blocks */
+function termsOf(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+/** Dice coefficient of the two texts' sets of terms */
+function similarity(a: string, b: string): number {
+  const wordsA = termsOf(a);
+  const wordsB = termsOf(b);
+  if (wordsA.size + wordsB.size === 0) return 1;
+
+  let shared = 0;
+  for (const word of wordsA) if (wordsB.has(word)) shared++;
+
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+/**
+ * Word-level diff of two texts. Whitespace is kept with the words, so the
+ * spans of each side join back into that side's text.
+ */
+export function diffWords(from: string, to: string): DiffSpan[] {
+  const tokenize = (text: string) => text.match(/\s+|\S+/g) ?? [];
+  const ops = align(tokenize(from), tokenize(to), (x, y) => x === y);
+
+  const spans: DiffSpan[] = [];
+  let removed = "";
+  let added = "";
+
+  const flush = () => {
+    if (removed) spans.push({ type: "removed", text: removed });
+    if (added) spans.push({ type: "added", text: added });
+    removed = "";
+    added = "";
+  };
+
+  ops.forEach(({ op, item }, k) => {
+    // A lone space between changes would split them into confusing pieces
+    const isolated =
+      op === "equal" &&
+      !item.trim() &&
+      ops[k - 1]?.op !== "equal" &&
+      ops[k + 1] !== undefined &&
+      ops[k + 1].op !== "equal";
+
+    if (op === "removed") {
+      removed += item;
+    } else if (op === "added") {
+      added += item;
+    } else if (isolated) {
+      removed += item;
+      added += item;
+    } else {
+      flush();
+      const last = spans[spans.length - 1];
+      if (last?.type === "equal") {
+        last.text += item;
+      } else {
+        spans.push({ type: "equal", text: item });
+      }
+    }
+  });
+  flush();
+
+  return spans;
+}
+
+/**
+ * Pairs up the removed and added blocks between two unchanged ones: a
+ * removed block similar enough to a later added block becomes a "changed"
+ * block with a word diff.
+ */
+function pairChanges(removed: TextBlock[], added: TextBlock[]): DiffBlock[] {
+  const blocks: DiffBlock[] = [];
+  let next = 0;
+
+  for (const from of removed) {
+    let match = -1;
+    for (let k = next; k < added.length; k++) {
+      if (similarity(from.text, added[k].text) >= CHANGED_BLOCK_SIMILARITY) {
+        match = k;
+        break;
+      }
+    }
+
+    if (match === -1) {
+      blocks.push({ type: "removed", ...from });
+      continue;
+    }
+
+    for (const to of added.slice(next, match)) {
+      blocks.push({ type: "added", ...to });
+    }
+
+    const to = added[match];
+    blocks.push({
+      type: "changed",
+      tag: to.tag,
+      fromTag: from.tag,
+      spans: diffWords(from.text, to.text),
+    });
+    next = match + 1;
+  }
+
+  for (const to of added.slice(next)) {
+    blocks.push({ type: "added", ...to });
+  }
+
+  return blocks;
+}
+
+function countStats(blocks: DiffBlock[]): DiffStats {
+  const stats: DiffStats = {
+    blocksUnchanged: 0,
+    blocksAdded: 0,
+    blocksRemoved: 0,
+    blocksChanged: 0,
+    wordsAdded: 0,
+    wordsRemoved: 0,
+  };
+
+  for (const block of blocks) {
+    if (block.type === "equal") {
+      stats.blocksUnchanged++;
+    } else if (block.type === "added") {
+      stats.blocksAdded++;
+      stats.wordsAdded += wordsOf(block.text).length;
+    } else if (block.type === "removed") {
+      stats.blocksRemoved++;
+      stats.wordsRemoved += wordsOf(block.text).length;
+    } else if (block.type === "changed") {
+      stats.blocksChanged++;
+      for (const span of block.spans) {
+        const words = wordsOf(span.text).length;
+        if (span.type === "added") stats.wordsAdded += words;
+        if (span.type === "removed") stats.wordsRemoved += words;
+      }
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Structural diff of two article bodies (HTML or plain text).
+ * Blocks (paragraphs, headings, list items, ...) are aligned by their text;
+ * a removed block that closely resembles an added one is reported as
+ * changed, with a word-level diff of the two.
+ */
+export function diffContent(from: string, to: string): ContentDiff {
+  const ops = align(
+    htmlToBlocks(from),
+    htmlToBlocks(to),
+    (a, b) => a.text === b.text
+  );
+
+  const blocks: DiffBlock[] = [];
+  let removed: TextBlock[] = [];
+  let added: TextBlock[] = [];
+
+  const flush = () => {
+    blocks.push(...pairChanges(removed, added));
+    removed = [];
+    added = [];
+  };
+
+  for (const { op, item } of ops) {
+    if (op === "removed") {
+      removed.push(item);
+    } else if (op === "added") {
+      added.push(item);
+    } else {
+      flush();
+      blocks.push({ type: "equal", ...item });
+    }
+  }
+  flush();
+
+  return { blocks, stats: countStats(blocks) };
+}
@@ -0,0 +1,26 @@
+import { createHash } from "crypto";
+
+/**
+ * Hashes an article's title and content for change detection.
+ * Whitespace is normalized so reformatting alone doesn't count as a change.
+ */
+export function hashArticleContent(article: {
+  title: string;
+  content: string;
+}): string {
+  const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+
+  return createHash("sha256")
+    .update(normalize(article.title))
+    .update("\n")
+    .update(normalize(article.content))
+    .digest("hex");
+}
+
+/**
+ * Hashes an API key for storage and lookup.
+ * Keys are long random strings, so a fast unsalted hash is sufficient.
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
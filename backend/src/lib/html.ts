@@ -0,0 +1,321 @@
+import * as cheerio from "cheerio";
+import type { EnhancementDetail } from "../schemas/article.schema.js";
+
+/**
+ * Tags kept in cleaned article HTML, with the attributes each may carry.
+ * Anything else is unwrapped (its children are kept, the tag is dropped).
+ */
+const ALLOWED_TAGS: Record<string, string[]> = {
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  p: [],
+  br: [],
+  hr: [],
+  ul: [],
+  ol: ["start"],
+  li: [],
+  blockquote: [],
+  pre: [],
+  code: [],
+  strong: [],
+  b: [],
+  em: [],
+  i: [],
+  u: [],
+  s: [],
+  sub: [],
+  sup: [],
+  a: ["href", "title"],
+  img: ["src", "alt", "title", "width", "height"],
+  figure: [],
+  figcaption: [],
+  table: [],
+  thead: [],
+  tbody: [],
+  tr: [],
+  th: ["colspan", "rowspan"],
+  td: ["colspan", "rowspan"],
+};
+
+/** Elements removed together with everything inside them */
+const DROPPED_TAGS =
+  "script, style, noscript, template, iframe, frame, frameset, object, " +
+  "embed, applet, form, input, button, select, textarea, nav, svg, math, " +
+  "canvas, head, link, meta, base";
+
+/** Elements removed when they end up with no text and no image */
+const REMOVE_IF_EMPTY = new Set([
+  "p",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "li",
+  "ul",
+  "ol",
+  "blockquote",
+  "a",
+  "strong",
+  "b",
+  "em",
+  "i",
+  "u",
+  "s",
+  "figure",
+  "figcaption",
+]);
+
+/** Elements that end a line of text when converting to plain text */
+const BLOCK_TAGS =
+  "p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, tr, figcaption, hr";
+
+/** URL schemes allowed for links and images */
+const LINK_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+const IMAGE_PROTOCOLS = new Set(["http:", "https:"]);
+
+/**
+ * Resolves a URL against the page it came from.
+ * @returns Absolute URL, or null if it is malformed or uses a disallowed scheme
+ */
+function toAbsoluteUrl(
+  value: string,
+  baseUrl: string | undefined,
+  protocols: Set<string>
+): string | null {
+  try {
+    const url = new URL(value.trim(), baseUrl);
+    return protocols.has(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reduces an HTML fragment to an allowlisted subset of tags and attributes.
+ * Keeps headings, lists, links, images, quotes, code and tables; strips
+ * scripts, styles, forms, layout wrappers and all other attributes.
+ * Relative link and image URLs are made absolute against `baseUrl`.
+ *
+ * @param html - HTML fragment to clean
+ * @param baseUrl - URL of the page the fragment came from
+ * @returns Cleaned HTML
+ */
+export function cleanHtml(html: string, baseUrl?: string): string {
+  const $ = cheerio.load(html, null, false);
+
+  $(DROPPED_TAGS).remove();
+  $("*")
+    .contents()
+    .filter((_, node) => node.type === "comment")
+    .remove();
+
+  // Deepest elements first, so unwrapping never skips a descendant
+  for (const el of $.root().find("*").toArray().reverse()) {
+    const tag = el.tagName.toLowerCase();
+    const allowed = ALLOWED_TAGS[tag];
+    const $el = $(el);
+
+    if (!allowed) {
+      $el.replaceWith($el.contents());
+      continue;
+    }
+
+    // Lazy-loaded images keep the real source in a data attribute
+    if (tag === "img") {
+      const lazySrc =
+        $el.attr("data-src") ||
+        $el.attr("data-lazy-src") ||
+        $el.attr("srcset")?.split(",")[0]?.trim().split(/\s+/)[0];
+      const src = $el.attr("src");
+      if (lazySrc && (!src || src.startsWith("data:"))) {
+        $el.attr("src", lazySrc);
+      }
+    }
+
+    for (const name of Object.keys(el.attribs)) {
+      if (!allowed.includes(name)) $el.removeAttr(name);
+    }
+
+    if (tag === "a" && $el.attr("href") !== undefined) {
+      const raw = $el.attr("href")!.trim();
+      // In-page anchors (e.g. footnotes) stay relative
+      const href = /^#[\w-]*$/.test(raw)
+        ? raw
+        : toAbsoluteUrl(raw, baseUrl, LINK_PROTOCOLS);
+      if (href) $el.attr("href", href);
+      else $el.removeAttr("href");
+    }
+
+    if (tag === "img") {
+      const src = $el.attr("src")
+        ? toAbsoluteUrl($el.attr("src")!, baseUrl, IMAGE_PROTOCOLS)
+        : null;
+      if (!src) {
+        $el.remove();
+        continue;
+      }
+      $el.attr("src", src);
+    }
+
+    if (
+      REMOVE_IF_EMPTY.has(tag) &&
+      !$el.text().trim() &&
+      $el.find("img").length === 0
+    ) {
+      $el.remove();
+    }
+  }
+
+  return $.html().trim();
+}
+
+/**
+ * Sanitizes HTML before it is stored. Every article write goes through this,
+ * whether the HTML was scraped, generated by the LLM or posted to the API.
+ * Applies the same allowlist as `cleanHtml`, so scripts, event handler
+ * attributes and `javascript:`/`data:` URLs never survive, and makes every
+ * external link open in a new tab with `rel="noopener noreferrer"`.
+ *
+ * @param html - Untrusted HTML
+ * @param baseUrl - Page URL for resolving relative URLs; without it they are dropped
+ */
+export function sanitizeHtml(html: string, baseUrl?: string): string {
+  const $ = cheerio.load(cleanHtml(html, baseUrl), null, false);
+
+  $("a[href]").each((_, el) => {
+    if (/^https?:/i.test($(el).attr("href")!)) {
+      $(el).attr("target", "_blank").attr("rel", "noopener noreferrer");
+    }
+  });
+
+  return $.html();
+}
+
+/**
+ * Sanitizes the HTML fragments of each enhancement detail.
+ * When sanitizing changed the content or a fragment, offsets are recomputed
+ * by locating the sanitized fragment in the content, or dropped if it can't
+ * be found. Details left with no content at all are discarded.
+ * @param content - Sanitized content the offsets point into
+ * @param contentChanged - Whether sanitizing altered the submitted content
+ */
+export function sanitizeDetails(
+  details: EnhancementDetail[],
+  content: string,
+  contentChanged: boolean
+): EnhancementDetail[] {
+  return details.flatMap((detail) => {
+    const newText = sanitizeHtml(detail.newText);
+    if (!newText.trim()) return [];
+
+    const sanitized: EnhancementDetail = {
+      ...detail,
+      newText,
+      originalText:
+        detail.originalText !== undefined
+          ? sanitizeHtml(detail.originalText)
+          : undefined,
+    };
+
+    if (
+      detail.startOffset === undefined ||
+      (!contentChanged && newText === detail.newText)
+    ) {
+      return [sanitized];
+    }
+
+    const { startOffset: _start, endOffset: _end, ...rest } = sanitized;
+    const start = content.indexOf(newText);
+
+    return [
+      start === -1
+        ? rest
+        : { ...rest, startOffset: start, endOffset: start + newText.length },
+    ];
+  });
+}
+
+/**
+ * Converts HTML to readable plain text.
+ * Block elements become paragraphs separated by blank lines.
+ */
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html, null, false);
+
+  $(DROPPED_TAGS).remove();
+  $("br").replaceWith("\n");
+  $(BLOCK_TAGS).each((_, el) => {
+    $(el).prepend("\n\n").append("\n\n");
+  });
+
+  return $.root()
+    .text()
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** A paragraph-level element of an article and its plain text */
+export interface TextBlock {
+  tag: string;
+  text: string;
+}
+
+/**
+ * Splits article content into its paragraph-level blocks (paragraphs,
+ * headings, list items, ...), innermost first: a list item holding
+ * paragraphs yields the paragraphs. Table rows join their cells with " | ".
+ * Plain-text content is split into paragraphs on blank lines.
+ */
+export function htmlToBlocks(content: string): TextBlock[] {
+  const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+
+  if (!isHtml(content)) {
+    return content
+      .split(/\n\s*\n/)
+      .map(normalize)
+      .filter(Boolean)
+      .map((text) => ({ tag: "p", text }));
+  }
+
+  const $ = cheerio.load(content, null, false);
+  $(DROPPED_TAGS).remove();
+  $("br").replaceWith(" ");
+
+  const blocks: TextBlock[] = [];
+  $(BLOCK_TAGS).each((_, el) => {
+    if ($(el).find(BLOCK_TAGS).length > 0) return;
+
+    const text =
+      el.tagName === "tr"
+        ? $(el)
+            .children()
+            .map((_, cell) => normalize($(cell).text()))
+            .get()
+            .join(" | ")
+        : normalize($(el).text());
+
+    if (text) blocks.push({ tag: el.tagName, text });
+  });
+
+  // Content without block elements is a single paragraph
+  if (blocks.length === 0) {
+    const text = normalize($.root().text());
+    return text ? [{ tag: "p", text }] : [];
+  }
+
+  return blocks;
+}
+
+/** True if a string contains HTML markup rather than plain text */
+export function isHtml(content: string): boolean {
+  return /<([a-z][a-z0-9]*)\b[^>]*>/i.test(content);
+}
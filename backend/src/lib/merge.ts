@@ -0,0 +1,288 @@
+import type { EnhancementDetail } from "../schemas/article.schema.js";
+
+/** Longest stretch of surrounding text used to place an addition */
+const MAX_ANCHOR_LENGTH = 120;
+
+/** Shorter anchors match too easily in unrelated places */
+const MIN_ANCHOR_LENGTH = 16;
+
+/**
+ * Share of a modification's original words a stretch of the original must
+ * have to be taken as the text it replaces
+ */
+const MIN_MATCH_SCORE = 0.6;
+
+/** Replacement of `original.slice(start, end)` by `text` */
+interface Edit {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+  /** Position of the change in the enhanced content, to order insertions */
+  order: number;
+}
+
+export interface MergeResult {
+  content: string;
+  /** Indexes of the details applied to the original */
+  applied: number[];
+  /** Indexes of accepted details that couldn't be placed in the original */
+  unapplied: number[];
+}
+
+/** A word of an HTML string, outside tags, with its position */
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/** Lowercased words without punctuation; tags are skipped */
+function tokenize(html: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of html.matchAll(/<[^>]*>|[^\s<]+/g)) {
+    if (match[0].startsWith("<")) continue;
+
+    const term = match[0].toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+    if (term) {
+      tokens.push({
+        term,
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Finds `fragment` in `html`: exactly, or else the stretch of as many words
+ * sharing the most words with it, since the LLM often quotes the original
+ * loosely. The same matching as the enhancement script's verification
+ * (enhancement-script/src/lib/verify.ts).
+ * @returns Offsets into `html`, or null if no stretch matches at least
+ *   MIN_MATCH_SCORE
+ */
+export function locateFragment(
+  html: string,
+  fragment: string
+): { start: number; end: number } | null {
+  const exact = html.indexOf(fragment);
+  if (exact !== -1) return { start: exact, end: exact + fragment.length };
+
+  const needle = tokenize(fragment).map((token) => token.term);
+  const tokens = tokenize(html);
+  const size = needle.length;
+  if (size === 0 || tokens.length < size) return null;
+
+  // Slide a window of the fragment's length, tracking how many of its words
+  // the window still lacks
+  const missing = new Map<string, number>();
+  for (const term of needle) missing.set(term, (missing.get(term) ?? 0) + 1);
+
+  let shared = 0;
+  const enter = (term: string) => {
+    const count = missing.get(term);
+    if (count !== undefined) {
+      if (count > 0) shared++;
+      missing.set(term, count - 1);
+    }
+  };
+  const leave = (term: string) => {
+    const count = missing.get(term);
+    if (count !== undefined) {
+      if (count >= 0) shared--;
+      missing.set(term, count + 1);
+    }
+  };
+
+  // Of the windows sharing the most words, take the one whose markup is
+  // most like the fragment's, so a paragraph isn't matched across the end of
+  // the heading before it
+  const leading = fragment.match(/^(?:<[^>]*>\s*)*/)![0];
+  const trailing = fragment.match(/(?:\s*<[^>]*>)*$/)![0];
+  const tagsIn = (text: string) => text.match(/<[^>]*>/g)?.length ?? 0;
+  const fragmentTags = tagsIn(
+    fragment.slice(leading.length, fragment.length - trailing.length)
+  );
+  const tagDifference = (index: number) =>
+    Math.abs(
+      tagsIn(html.slice(tokens[index].start, tokens[index + size - 1].end)) -
+        fragmentTags
+    );
+
+  let best = { index: 0, shared: -1, tags: 0 };
+  for (let i = 0; i < tokens.length; i++) {
+    enter(tokens[i].term);
+    if (i >= size) leave(tokens[i - size].term);
+    if (i < size - 1 || shared < best.shared) continue;
+
+    const index = i - size + 1;
+    const tags = tagDifference(index);
+    if (shared > best.shared || tags < best.tags) {
+      best = { index, shared, tags };
+    }
+  }
+
+  if (best.shared / size < MIN_MATCH_SCORE) return null;
+
+  // Words are matched without their markup: take in the tags around them
+  // that the fragment starts and ends with, e.g. its <p> and </p>
+  let start = tokens[best.index].start;
+  let end = tokens[best.index + size - 1].end;
+
+  if (leading && html.slice(start - leading.length, start) === leading) {
+    start -= leading.length;
+  }
+  if (trailing && html.slice(end, end + trailing.length) === trailing) {
+    end += trailing.length;
+  }
+
+  return { start, end };
+}
+
+/** Where a detail's newText sits in the enhanced content, or -1 */
+function locateInEnhanced(enhanced: string, detail: EnhancementDetail) {
+  return detail.startOffset ?? enhanced.indexOf(detail.newText);
+}
+
+/**
+ * Finds where an addition belongs in the original: right after the longest
+ * text preceding it in the enhanced content that the original also has,
+ * or else right before the longest text following it.
+ * @returns An offset into the original, or -1
+ */
+function insertionPoint(
+  original: string,
+  enhanced: string,
+  start: number,
+  end: number
+): number {
+  if (start === 0) return 0;
+
+  for (let length = MAX_ANCHOR_LENGTH; length >= MIN_ANCHOR_LENGTH; length--) {
+    if (start >= length) {
+      const before = enhanced.slice(start - length, start);
+      const at = original.indexOf(before);
+      if (at !== -1) return at + length;
+    }
+
+    if (end + length <= enhanced.length) {
+      const after = enhanced.slice(end, end + length);
+      const at = original.indexOf(after);
+      if (at !== -1) return at;
+    }
+  }
+
+  return end === enhanced.length ? original.length : -1;
+}
+
+/** Turns an accepted detail into an edit of the original, if placeable */
+function toEdit(
+  original: string,
+  enhanced: string,
+  detail: EnhancementDetail,
+  index: number
+): Edit | null {
+  const start = locateInEnhanced(enhanced, detail);
+
+  if (detail.type === "modification" && detail.originalText) {
+    const at = locateFragment(original, detail.originalText);
+    if (!at) return null;
+
+    return { index, ...at, text: detail.newText, order: start };
+  }
+
+  if (start === -1) return null;
+
+  const end = detail.endOffset ?? start + detail.newText.length;
+  const at = insertionPoint(original, enhanced, start, end);
+  if (at === -1) return null;
+
+  return { index, start: at, end: at, text: detail.newText, order: start };
+}
+
+/**
+ * Builds a final article from the original plus only the accepted changes.
+ *
+ * Modifications replace their `originalText` in the original, found exactly
+ * or by its words (see `locateFragment`). Additions are placed by matching
+ * the text around them in the enhanced content against the original.
+ * Changes that can't be placed, or that overlap a change placed before
+ * them, are reported as unapplied.
+ *
+ * @param original - Content of the original revision the enhancement used
+ * @param enhanced - The enhanced version's content, which details point into
+ * @param accepted - Indexes into `details` to apply
+ */
+export function mergeAcceptedChanges(
+  original: string,
+  enhanced: string,
+  details: EnhancementDetail[],
+  accepted: number[]
+): MergeResult {
+  const unapplied: number[] = [];
+  const edits: Edit[] = [];
+
+  for (const index of [...new Set(accepted)].sort((a, b) => a - b)) {
+    const detail = details[index];
+    const edit = detail && toEdit(original, enhanced, detail, index);
+
+    if (edit) {
+      edits.push(edit);
+    } else {
+      unapplied.push(index);
+    }
+  }
+
+  edits.sort((a, b) => a.start - b.start || a.order - b.order);
+
+  // Keep edits in order of position, dropping any that overlap an earlier one
+  const placed: Edit[] = [];
+  for (const edit of edits) {
+    const previous = placed[placed.length - 1];
+
+    if (previous && edit.start < previous.end) {
+      unapplied.push(edit.index);
+    } else {
+      placed.push(edit);
+    }
+  }
+
+  let content = original;
+  for (const edit of [...placed].reverse()) {
+    content =
+      content.slice(0, edit.start) + edit.text + content.slice(edit.end);
+  }
+
+  return {
+    content,
+    applied: placed.map((e) => e.index).sort((a, b) => a - b),
+    unapplied: unapplied.sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Points each detail at where its newText is in `content`, such as the
+ * final article once it replaces the enhanced content. Details whose text
+ * isn't there (rejected changes) lose their offsets; the list keeps its
+ * order, so decisions still refer to the same details.
+ */
+export function anchorDetails(
+  details: EnhancementDetail[],
+  content: string
+): EnhancementDetail[] {
+  return details.map((detail) => {
+    const { startOffset: _start, endOffset: _end, ...rest } = detail;
+    const start = content.indexOf(detail.newText);
+
+    if (start === -1) return rest;
+    return {
+      ...rest,
+      startOffset: start,
+      endOffset: start + detail.newText.length,
+    };
+  });
+}
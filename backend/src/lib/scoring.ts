@@ -0,0 +1,180 @@
+import * as cheerio from "cheerio";
+import { htmlToText } from "./html.js";
+
+// Type aliases rather than interfaces, so scores can be stored as JSON columns
+
+export type HeadingScore = {
+  /** Number of headings at each level, h1 to h6 */
+  counts: [number, number, number, number, number, number];
+  /** Headings more than one level below the previous one (e.g. h2 → h4) */
+  skippedLevels: number;
+  /** Heading texts used more than once */
+  duplicates: string[];
+};
+
+export type KeywordCoverage = {
+  keywords: string[];
+  covered: string[];
+  missing: string[];
+  /** Share of keywords the article uses, 0 to 1 */
+  ratio: number;
+};
+
+/** Content quality and SEO measurements of one article */
+export type QualityScore = {
+  wordCount: number;
+  sentenceCount: number;
+  /** Flesch reading ease: higher is easier, 60-70 is plain English */
+  fleschReadingEase: number;
+  /** Flesch-Kincaid grade: US school grade needed to follow the text */
+  fleschKincaidGrade: number;
+  headings: HeadingScore;
+  links: { internal: number; external: number };
+  /** Only when scored against a keyword list */
+  keywordCoverage?: KeywordCoverage;
+};
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/** Lowercased words of a text */
+function wordsOf(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu) ?? [];
+}
+
+/**
+ * Estimates an English word's syllables by counting vowel groups, ignoring
+ * a silent final "e" ("make") but not "-le" ("table").
+ */
+function syllablesOf(word: string): number {
+  const letters = word.replace(/[^a-z]/g, "");
+  if (letters.length <= 3) return 1;
+
+  const groups = letters
+    .replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "")
+    .replace(/^y/, "")
+    .match(/[aeiouy]{1,2}/g);
+
+  return Math.max(1, groups?.length ?? 0);
+}
+
+function scoreHeadings($: cheerio.CheerioAPI): HeadingScore {
+  const counts: HeadingScore["counts"] = [0, 0, 0, 0, 0, 0];
+  const seen = new Map<string, number>();
+  let skippedLevels = 0;
+  let previous = 0;
+
+  $("h1, h2, h3, h4, h5, h6").each((_, el) => {
+    const level = Number(el.tagName[1]);
+    counts[level - 1]++;
+    if (previous > 0 && level > previous + 1) skippedLevels++;
+    previous = level;
+
+    const text = $(el).text().replace(/\s+/g, " ").trim();
+    const key = text.toLowerCase();
+    if (key) seen.set(key, (seen.get(key) ?? 0) + 1);
+  });
+
+  const duplicates = [...seen]
+    .filter(([, count]) => count > 1)
+    .map(([text]) => text);
+
+  return { counts, skippedLevels, duplicates };
+}
+
+/**
+ * Counts links to other sites, and to the article's own site or page
+ * (relative links, in-page anchors such as citation footnotes).
+ */
+function countLinks($: cheerio.CheerioAPI, sourceUrl: string | undefined) {
+  const hostOf = (url: string) => {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return undefined;
+    }
+  };
+  const ownHost = sourceUrl && hostOf(sourceUrl);
+
+  let internal = 0;
+  let external = 0;
+
+  $("a[href]").each((_, el) => {
+    const href = $(el).attr("href")!;
+    if (!/^https?:/i.test(href) || hostOf(href) === ownHost) internal++;
+    else external++;
+  });
+
+  return { internal, external };
+}
+
+/**
+ * Share of `keywords` the text uses. Multi-word keywords must appear as a
+ * phrase.
+ */
+export function keywordCoverage(
+  text: string,
+  keywords: string[]
+): KeywordCoverage {
+  const words = ` ${wordsOf(text).join(" ")} `;
+  const covered: string[] = [];
+  const missing: string[] = [];
+
+  for (const keyword of keywords) {
+    const phrase = wordsOf(keyword).join(" ");
+    if (phrase && words.includes(` ${phrase} `)) covered.push(keyword);
+    else missing.push(keyword);
+  }
+
+  return {
+    keywords,
+    covered,
+    missing,
+    ratio: keywords.length ? round(covered.length / keywords.length, 2) : 0,
+  };
+}
+
+/**
+ * Measures an article's readability and SEO structure: word and sentence
+ * counts, Flesch reading ease and Flesch-Kincaid grade, heading structure
+ * (levels, skipped levels, duplicate headings) and internal/external links.
+ * With `keywords`, also how many of them the article uses.
+ *
+ * @param content - Article HTML (or plain text)
+ * @param options - The article's URL, to tell internal links from external
+ *   ones, and keywords to check coverage of
+ */
+export function scoreContent(
+  content: string,
+  options: { sourceUrl?: string; keywords?: string[] } = {}
+): QualityScore {
+  const $ = cheerio.load(content, null, false);
+  const text = htmlToText(content);
+  const words = wordsOf(text);
+  // Headings and list items end a "sentence" too
+  const sentenceCount = text
+    .split(/[.!?]+(?:\s|$)|\n{2,}/)
+    .filter((sentence) => wordsOf(sentence).length > 0).length;
+  const syllables = words.reduce((sum, word) => sum + syllablesOf(word), 0);
+
+  const wordsPerSentence = words.length / Math.max(1, sentenceCount);
+  const syllablesPerWord = words.length ? syllables / words.length : 0;
+
+  return {
+    wordCount: words.length,
+    sentenceCount,
+    fleschReadingEase: words.length
+      ? round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord)
+      : 0,
+    fleschKincaidGrade: words.length
+      ? round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59)
+      : 0,
+    headings: scoreHeadings($),
+    links: countLinks($, options.sourceUrl),
+    ...(options.keywords && {
+      keywordCoverage: keywordCoverage(text, options.keywords),
+    }),
+  };
+}
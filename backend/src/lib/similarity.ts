@@ -0,0 +1,162 @@
+/** Longest copied passages kept per source */
+const MAX_PASSAGES = 5;
+
+/** Passages are cut to this many characters */
+const MAX_PASSAGE_LENGTH = 300;
+
+/** Text split into words, with a normalized form of each for comparing */
+interface Words {
+  words: string[];
+  terms: string[];
+}
+
+/** How much of a text also appears, word for word, in another */
+export interface OverlapReport {
+  /** Share of the text's words inside an n-gram shared with the other */
+  overlap: number;
+  /** Longest runs of shared words, longest first */
+  passages: string[];
+}
+
+export interface SimilarityOptions {
+  /** Words per shingle; shorter shared runs are never counted */
+  shingleSize: number;
+  /** Highest overlap with any one source that may still be published */
+  threshold: number;
+}
+
+/** Parses a setting, or returns `fallback` if it's unset or outside min..max */
+function readNumber(
+  value: string | undefined,
+  fallback: number,
+  min: number,
+  max: number
+): number {
+  const parsed = Number(value);
+  return value?.trim() && parsed >= min && parsed <= max ? parsed : fallback;
+}
+
+/**
+ * Settings from SIMILARITY_SHINGLE_SIZE (at least 1) and SIMILARITY_THRESHOLD
+ * (0 to 1; 0 blocks any copied run)
+ */
+export function similarityOptions(env = process.env): SimilarityOptions {
+  return {
+    shingleSize: Math.round(
+      readNumber(env.SIMILARITY_SHINGLE_SIZE, 8, 1, Number.MAX_SAFE_INTEGER)
+    ),
+    threshold: readNumber(env.SIMILARITY_THRESHOLD, 0.15, 0, 1),
+  };
+}
+
+/** Stored as `enhancementMetadata.similarity`; only the server writes it */
+export interface SimilarityReport extends SimilarityOptions {
+  /** Share of the enhanced text also found in the original */
+  originalOverlap: number;
+  /** Highest overlap with any one competitor source */
+  maxSourceOverlap: number;
+  /** True if publishing is blocked for copying from a source */
+  exceedsThreshold: boolean;
+  sources: Array<OverlapReport & { title: string; url: string }>;
+}
+
+function toWords(text: string): Words {
+  const words: string[] = [];
+  const terms: string[] = [];
+
+  for (const word of text.split(/\s+/)) {
+    const term = word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+    if (term) {
+      words.push(word);
+      terms.push(term);
+    }
+  }
+
+  return { words, terms };
+}
+
+/** Every run of `size` consecutive terms ("shingles") */
+function shinglesOf(terms: string[], size: number): Set<string> {
+  const shingles = new Set<string>();
+  for (let i = 0; i + size <= terms.length; i++) {
+    shingles.add(terms.slice(i, i + size).join(" "));
+  }
+  return shingles;
+}
+
+/**
+ * How much of `text` appears, word for word, in `other`: a word counts as
+ * shared when it is part of a run of `size` words that both contain.
+ */
+function compare(text: Words, other: string, size: number): OverlapReport {
+  const { words, terms } = text;
+  const shared = shinglesOf(toWords(other).terms, size);
+  const covered = new Array<boolean>(terms.length).fill(false);
+
+  for (let i = 0; i + size <= terms.length; i++) {
+    if (shared.has(terms.slice(i, i + size).join(" "))) {
+      covered.fill(true, i, i + size);
+    }
+  }
+
+  const passages: string[] = [];
+  let start = -1;
+  for (let i = 0; i <= covered.length; i++) {
+    if (covered[i] && start === -1) {
+      start = i;
+    } else if (!covered[i] && start !== -1) {
+      passages.push(words.slice(start, i).join(" "));
+      start = -1;
+    }
+  }
+
+  const count = covered.filter(Boolean).length;
+
+  return {
+    overlap: terms.length === 0 ? 0 : count / terms.length,
+    passages: passages
+      .sort((a, b) => b.length - a.length)
+      .slice(0, MAX_PASSAGES)
+      .map((passage) =>
+        passage.length > MAX_PASSAGE_LENGTH
+          ? `${passage.substring(0, MAX_PASSAGE_LENGTH)}…`
+          : passage
+      ),
+  };
+}
+
+/**
+ * Checks an enhanced article for text copied from the competitor articles
+ * it was built from, by shingled n-gram overlap. Overlap with the original
+ * is measured too, but is expected and doesn't count toward the threshold.
+ * Case, punctuation and whitespace are ignored.
+ *
+ * @param enhanced - Plain text of the enhanced article
+ * @param original - Plain text of the original article
+ * @param sources - Scraped competitor articles (plain text)
+ */
+export function similarityReport(
+  enhanced: string,
+  original: string,
+  sources: Array<{ title: string; url: string; content: string }>,
+  options: SimilarityOptions
+): SimilarityReport {
+  const text = toWords(enhanced);
+  const { shingleSize, threshold } = options;
+
+  const reports = sources.map((source) => ({
+    title: source.title,
+    url: source.url,
+    ...compare(text, source.content, shingleSize),
+  }));
+  const maxSourceOverlap = Math.max(0, ...reports.map((r) => r.overlap));
+
+  return {
+    shingleSize,
+    threshold,
+    originalOverlap: compare(text, original, shingleSize).overlap,
+    maxSourceOverlap,
+    exceedsThreshold: maxSourceOverlap > threshold,
+    sources: reports,
+  };
+}
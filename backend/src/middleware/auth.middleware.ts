@@ -0,0 +1,91 @@
+import type { Request, Response, NextFunction } from "express";
+import type { ApiKeyRole } from "@prisma/client";
+import { AppError, asyncHandler } from "./error.middleware.js";
+import { apiKeyService } from "../services/api-key.service.js";
+
+/**
+ * Verifies the request's API key and checks it has at least the given role.
+ * On success the key (without its hash) is stored as `res.locals.apiKey`.
+ *
+ * @throws AppError 401 if the key is missing, unknown or revoked
+ * @throws AppError 403 if the key's role is too low
+ */
+async function authenticate(req: Request, res: Response, role: ApiKeyRole) {
+  const match = req.header("authorization")?.match(/^Bearer\s+(\S+)$/i);
+
+  if (!match) {
+    res.setHeader("WWW-Authenticate", "Bearer");
+    throw new AppError(401, "API key required");
+  }
+
+  const apiKey = await apiKeyService.verify(match[1]);
+
+  if (!apiKey) {
+    res.setHeader("WWW-Authenticate", "Bearer");
+    throw new AppError(401, "Invalid or revoked API key");
+  }
+
+  if (!apiKeyService.hasRole(apiKey.role, role)) {
+    throw new AppError(403, `This action requires the ${role} role`);
+  }
+
+  res.locals.apiKey = apiKey;
+  return apiKey;
+}
+
+/**
+ * Requires an API key with at least the given role.
+ * Keys are sent as `Authorization: Bearer <key>`. On success the key
+ * (without its hash) is available as `res.locals.apiKey`.
+ *
+ * @throws AppError 401 if the key is missing, unknown or revoked
+ * @throws AppError 403 if the key's role is too low
+ */
+export function requireRole(role: ApiKeyRole) {
+  return asyncHandler(async (req, res, next) => {
+    await authenticate(req, res, role);
+    next();
+  });
+}
+
+/**
+ * Whether the request carries an API key with at least the given role.
+ * For public endpoints that show more to privileged keys: requests without
+ * a key simply get false.
+ *
+ * @throws AppError 401 if a key is sent but is unknown or revoked
+ */
+export async function hasRole(
+  req: Request,
+  res: Response,
+  role: ApiKeyRole
+): Promise<boolean> {
+  if (!req.header("authorization")) return false;
+
+  try {
+    await authenticate(req, res, role);
+    return true;
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode === 403) return false;
+    throw error;
+  }
+}
+
+const requireReader = requireRole("reader");
+
+/**
+ * Guards read endpoints. Reads are public unless
+ * `REQUIRE_API_KEY_FOR_READS=true`, in which case a reader key is needed.
+ */
+export function requireReadAccess(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (process.env.REQUIRE_API_KEY_FOR_READS === "true") {
+    requireReader(req, res, next);
+    return;
+  }
+
+  next();
+}
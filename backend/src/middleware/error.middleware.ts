@@ -11,6 +11,11 @@ export class AppError extends Error {
   }
 }
 
+/** Whether an error is express.json() rejecting a body over its limit */
+function isPayloadTooLarge(err: Error): boolean {
+  return (err as Error & { type?: string }).type === "entity.too.large";
+}
+
 /**
  * Global error handling middleware for Express.
  * Catches all errors and returns consistent JSON responses.
@@ -24,6 +29,10 @@ export function errorHandler(
 ): void {
   console.error("Error:", err);
 
+  if (isPayloadTooLarge(err)) {
+    err = new AppError(413, "Request body is too large");
+  }
+
   // Handle custom AppError
   if (err instanceof AppError) {
     res.status(err.statusCode).json({
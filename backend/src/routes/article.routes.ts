@@ -1,18 +1,48 @@
 import { Router } from "express";
 import {
   getArticles,
+  getArticleFacets,
   getArticle,
   getArticleWithEnhanced,
+  getArticleDiff,
+  getArticleScorecard,
+  getArticleRevisions,
+  getArticleRevision,
   createArticle,
+  enhanceArticle,
+  updateArticleStatus,
+  saveDecisions,
+  mergeAcceptedChanges,
   updateArticle,
   deleteArticle,
 } from "../controllers/article.controller.js";
+import {
+  requireReadAccess,
+  requireRole,
+} from "../middleware/auth.middleware.js";
 
 export const articleRouter = Router();
 
-articleRouter.get("/", getArticles);
-articleRouter.get("/:id", getArticle);
-articleRouter.get("/:id/enhanced", getArticleWithEnhanced);
-articleRouter.post("/", createArticle);
-articleRouter.put("/:id", updateArticle);
-articleRouter.delete("/:id", deleteArticle);
+articleRouter.get("/", requireReadAccess, getArticles);
+articleRouter.get("/facets", requireReadAccess, getArticleFacets);
+articleRouter.get("/:id", requireReadAccess, getArticle);
+articleRouter.get("/:id/enhanced", requireReadAccess, getArticleWithEnhanced);
+articleRouter.get("/:id/diff/:otherId", requireReadAccess, getArticleDiff);
+articleRouter.get("/:id/scorecard", requireReadAccess, getArticleScorecard);
+articleRouter.get("/:id/revisions", requireReadAccess, getArticleRevisions);
+articleRouter.get(
+  "/:id/revisions/:revision",
+  requireReadAccess,
+  getArticleRevision
+);
+articleRouter.post("/", requireRole("editor"), createArticle);
+articleRouter.post("/:id/enhance", requireRole("editor"), enhanceArticle);
+articleRouter.post("/:id/status", requireRole("editor"), updateArticleStatus);
+articleRouter.put("/:id/decisions", requireRole("reviewer"), saveDecisions);
+articleRouter.post(
+  "/:id/merge",
+  requireRole("reviewer"),
+  mergeAcceptedChanges
+);
+articleRouter.put("/:id", requireRole("editor"), updateArticle);
+articleRouter.delete("/:id", requireRole("admin"), deleteArticle);
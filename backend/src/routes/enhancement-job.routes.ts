@@ -0,0 +1,36 @@
+import { Router } from "express";
+import {
+  getJobs,
+  getJob,
+  streamJobEvents,
+  enqueueJobs,
+  claimJob,
+  heartbeatJob,
+  reportJobProgress,
+  completeJob,
+  failJob,
+} from "../controllers/enhancement-job.controller.js";
+import {
+  requireReadAccess,
+  requireRole,
+} from "../middleware/auth.middleware.js";
+
+export const enhancementJobRouter = Router();
+
+enhancementJobRouter.get("/", requireReadAccess, getJobs);
+enhancementJobRouter.get("/:id", requireReadAccess, getJob);
+enhancementJobRouter.get("/:id/events", requireReadAccess, streamJobEvents);
+enhancementJobRouter.post("/", requireRole("editor"), enqueueJobs);
+enhancementJobRouter.post("/claim", requireRole("editor"), claimJob);
+enhancementJobRouter.post(
+  "/:id/heartbeat",
+  requireRole("editor"),
+  heartbeatJob
+);
+enhancementJobRouter.post(
+  "/:id/progress",
+  requireRole("editor"),
+  reportJobProgress
+);
+enhancementJobRouter.post("/:id/complete", requireRole("editor"), completeJob);
+enhancementJobRouter.post("/:id/fail", requireRole("editor"), failJob);
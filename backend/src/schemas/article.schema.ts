@@ -1,5 +1,148 @@
 import { z } from "zod";
 
+/** Review workflow states, in the order an article normally moves through */
+export const ARTICLE_STATUSES = [
+  "draft",
+  "in_review",
+  "approved",
+  "rejected",
+  "published",
+] as const;
+
+/** URL restricted to http(s), so stored links can't carry script schemes */
+const httpUrl = (message?: string) =>
+  z
+    .string()
+    .url(message)
+    .refine((url) => /^https?:\/\//i.test(url), "URL must use http or https");
+
+/**
+ * How a reported change compares with the actual content, as checked by the
+ * enhancement script (see enhancement-script/src/lib/verify.ts).
+ */
+export const detailVerificationSchema = z.object({
+  status: z.enum(["verified", "approximate", "unchanged", "not_found"]),
+  score: z.number().min(0).max(1),
+  originalTextFound: z.boolean().optional(),
+});
+
+/**
+ * A single change the enhancer made to an article.
+ * Offsets, when present, locate `newText` inside the enhanced article's content.
+ */
+export const enhancementDetailSchema = z
+  .object({
+    type: z.enum(["addition", "modification"]),
+    originalText: z.string().optional(),
+    newText: z.string().min(1, "Enhancement detail newText is required"),
+    reason: z.string().min(1, "Enhancement detail reason is required"),
+    startOffset: z.number().int().nonnegative().optional(),
+    endOffset: z.number().int().nonnegative().optional(),
+    verification: detailVerificationSchema.optional(),
+  })
+  .refine(
+    (d) => (d.startOffset === undefined) === (d.endOffset === undefined),
+    "Enhancement detail offsets must be provided together"
+  )
+  .refine(
+    (d) =>
+      d.startOffset === undefined ||
+      d.endOffset === undefined ||
+      d.startOffset <= d.endOffset,
+    "Enhancement detail startOffset must not exceed endOffset"
+  );
+
+/** A change between original and enhanced content that no detail reports */
+export const unreportedChangeSchema = z.object({
+  type: z.enum(["addition", "modification", "removal"]),
+  originalText: z.string().optional(),
+  newText: z.string().optional(),
+});
+
+/**
+ * A source the enhanced article cites. Inline footnote markers link to
+ * `#cite-N` for the N-th reference; `snippet` quotes the supporting text.
+ */
+export const citedReferenceSchema = z.object({
+  title: z.string(),
+  url: httpUrl(),
+  snippet: z.string().max(1000).optional(),
+});
+
+/**
+ * Copied-text check of an enhanced version against the competitor articles
+ * it was built from (see src/lib/similarity.ts). Measured by the server;
+ * versions without one, or over the threshold, can't be published.
+ */
+export const similarityReportSchema = z.object({
+  shingleSize: z.number().int().positive(),
+  threshold: z.number().min(0).max(1),
+  originalOverlap: z.number().min(0).max(1),
+  maxSourceOverlap: z.number().min(0).max(1),
+  exceedsThreshold: z.boolean(),
+  sources: z.array(
+    z.object({
+      title: z.string(),
+      url: z.string(),
+      overlap: z.number().min(0).max(1),
+      passages: z.array(z.string()),
+    })
+  ),
+});
+
+/**
+ * How an enhanced version was produced. Extra keys are kept, so the
+ * enhancer can record more without a schema change.
+ */
+export const enhancementMetadataSchema = z
+  .object({
+    /** Prompt templates (a directory of enhancement-script/prompts) */
+    promptVersion: z.string().optional(),
+    /** Hash of the templates' text, which changes if they are edited */
+    promptHash: z.string().optional(),
+    provider: z.string().optional(),
+    model: z.string().optional(),
+    generation: z
+      .object({
+        temperature: z.number(),
+        topP: z.number(),
+        maxInputTokens: z.number().int(),
+        maxOutputTokens: z.number().int(),
+      })
+      .partial()
+      .optional(),
+    /** Content hash of the original revision the version was built from */
+    originalContentHash: z.string().optional(),
+    similarity: similarityReportSchema.optional(),
+    /** Top keywords of the competitor articles, for quality scoring */
+    keywords: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+/** Metadata as sent by clients, who can't set the copied-text report */
+const enhancementMetadataInputSchema = enhancementMetadataSchema
+  .omit({ similarity: true })
+  .refine((metadata) => !("similarity" in metadata), {
+    message: "similarity is measured by the server and can't be set",
+    path: ["similarity"],
+  });
+
+/** Most competitor sources stored per enhanced version */
+export const MAX_COMPETITOR_SOURCES = 10;
+
+/** Longest competitor excerpt stored, in characters */
+export const MAX_COMPETITOR_SOURCE_LENGTH = 20_000;
+
+/**
+ * Text of a competitor article an enhanced version is built from, as shown
+ * to the LLM
+ */
+export const competitorSourceSchema = z.object({
+  title: z.string().max(500),
+  url: httpUrl(),
+  content: z.string().max(MAX_COMPETITOR_SOURCE_LENGTH),
+});
+
 export const createArticleSchema = z.object({
   title: z.string().min(1, "Title is required").max(500),
   content: z.string().min(1, "Content is required"),
@@ -10,32 +153,131 @@ export const createArticleSchema = z.object({
     .datetime()
     .or(z.date())
     .transform((val) => new Date(val)),
-  sourceUrl: z.string().url("Invalid URL format"),
+  sourceUrl: httpUrl("Invalid URL format"),
   tags: z.array(z.string()).default([]),
   originalArticleId: z.string().uuid().optional(),
+  originalRevision: z.number().int().positive().optional(),
   isEnhanced: z.boolean().default(false),
-  citedReferences: z
-    .array(
-      z.object({
-        title: z.string(),
-        url: z.string().url(),
-      })
-    )
+  citedReferences: z.array(citedReferenceSchema).optional(),
+  enhancementDetails: z.array(enhancementDetailSchema).optional(),
+  unreportedChanges: z.array(unreportedChangeSchema).optional(),
+  /** Identifies the enhancement inputs; see ArticleService.create */
+  enhancementKey: z.string().min(1).max(200).optional(),
+  enhancementMetadata: enhancementMetadataInputSchema.optional(),
+  /** Checked for copied text; set once, when an enhanced version is created */
+  competitorSources: z
+    .array(competitorSourceSchema)
+    .max(MAX_COMPETITOR_SOURCES)
     .optional(),
 });
 
-export const updateArticleSchema = createArticleSchema.partial();
+/**
+ * Fields an editor may change. Whether an article is an enhanced version,
+ * of which original and from which sources, is fixed when it is created.
+ */
+export const updateArticleSchema = createArticleSchema
+  .omit({
+    isEnhanced: true,
+    originalArticleId: true,
+    originalRevision: true,
+    competitorSources: true,
+  })
+  .partial();
+
+/** Boolean query param: "true" or "false" */
+const booleanParam = z.enum(["true", "false"]).transform((v) => v === "true");
+
+export const createArticleQuerySchema = z.object({
+  /** Create a new enhanced version even if one with the same key exists */
+  force: booleanParam.optional(),
+});
+
+/** List query param given as `a,b` and/or repeated (`?tags=a&tags=b`) */
+const listParam = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) =>
+    [value]
+      .flat()
+      .flatMap((item) => item.split(","))
+      .map((item) => item.trim())
+      .filter(Boolean)
+  )
+  .pipe(z.array(z.string().max(100)).max(20, "Too many values in list"));
+
+/** Date query param (ISO date or date-time) */
+const dateParam = z
+  .string()
+  .trim()
+  .refine((v) => !Number.isNaN(Date.parse(v)), "Invalid date");
+
+/** Search and filter params shared by the list and facets endpoints */
+export const articleFiltersSchema = z.object({
+  /** Review statuses to include, or "all"; unpublished ones need an editor */
+  status: listParam
+    .pipe(z.array(z.enum([...ARTICLE_STATUSES, "all"])))
+    .default("published"),
+  isEnhanced: booleanParam.optional(),
+  search: z.string().trim().max(200).optional(),
+  tags: listParam.optional(),
+  /** Whether articles need any (default) or all of `tags` */
+  tagMode: z.enum(["any", "all"]).default("any"),
+  excludeTags: listParam.optional(),
+  author: z.string().trim().min(1).max(200).optional(),
+  publishedFrom: dateParam.transform((v) => new Date(v)).optional(),
+  /** Inclusive; a date without a time covers that whole day */
+  publishedTo: dateParam
+    .transform((v) =>
+      /^\d{4}-\d{2}-\d{2}$/.test(v)
+        ? new Date(Date.parse(v) + 24 * 60 * 60 * 1000 - 1)
+        : new Date(v)
+    )
+    .optional(),
+  originalArticleId: z.string().uuid().optional(),
+  enhancementKey: z.string().max(200).optional(),
+  /** Originals with (true) or without (false) any enhanced version */
+  hasEnhancements: booleanParam.optional(),
+  /** Originals with at least this many enhanced versions */
+  minVersions: z.coerce.number().int().positive().max(1000).optional(),
+});
 
-export const listArticlesQuerySchema = z.object({
+export const listArticlesQuerySchema = articleFiltersSchema.extend({
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().positive().max(100).default(10),
-  isEnhanced: z
-    .enum(["true", "false"])
-    .transform((v) => v === "true")
+  sort: z
+    .enum(["createdAt", "publishedAt", "updatedAt", "title", "relevance"])
     .optional(),
-  search: z.string().optional(),
+  order: z.enum(["asc", "desc"]).optional(),
+  /** Opaque token from `pagination.nextCursor`/`prevCursor`; overrides page */
+  cursor: z.string().max(500).optional(),
 });
 
+export const articleFacetsQuerySchema = articleFiltersSchema.extend({
+  /** Maximum number of tag and author buckets returned */
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+/** Body of POST /api/articles/:id/status */
+export const updateStatusSchema = z.object({
+  status: z.enum(ARTICLE_STATUSES),
+  /** Reviewer notes; required when rejecting */
+  notes: z.string().trim().min(1).max(5000).optional(),
+});
+
+export const revisionParamSchema = z.coerce
+  .number({ invalid_type_error: "Revision must be a number" })
+  .int()
+  .positive("Revision must be a positive integer");
+
+export type EnhancementDetail = z.infer<typeof enhancementDetailSchema>;
+export type UnreportedChange = z.infer<typeof unreportedChangeSchema>;
+export type CitedReference = z.infer<typeof citedReferenceSchema>;
+export type CompetitorSourceInput = z.infer<typeof competitorSourceSchema>;
+export type EnhancementMetadata = z.infer<typeof enhancementMetadataSchema>;
 export type CreateArticleInput = z.infer<typeof createArticleSchema>;
 export type UpdateArticleInput = z.infer<typeof updateArticleSchema>;
+export type ArticleFilters = z.infer<typeof articleFiltersSchema>;
 export type ListArticlesQuery = z.infer<typeof listArticlesQuerySchema>;
+export type ArticleFacetsQuery = z.infer<typeof articleFacetsQuerySchema>;
+export type UpdateStatusInput = z.infer<typeof updateStatusSchema>;
+export type ArticleSort = NonNullable<ListArticlesQuery["sort"]>;
+export type SortOrder = NonNullable<ListArticlesQuery["order"]>;
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+export const DETAIL_DECISIONS = ["accepted", "rejected"] as const;
+
+/** Body of PUT /api/articles/:id/decisions */
+export const saveDecisionsSchema = z.object({
+  decisions: z
+    .array(
+      z.object({
+        /** Position of the item in the article's enhancementDetails */
+        index: z.number().int().nonnegative(),
+        /** null clears an earlier decision */
+        decision: z.enum(DETAIL_DECISIONS).nullable(),
+        note: z.string().trim().max(2000).optional(),
+      })
+    )
+    .min(1, "At least one decision is required")
+    .max(500),
+});
+
+export type SaveDecisionsInput = z.infer<typeof saveDecisionsSchema>;
@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+export const JOB_STATUSES = [
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+] as const;
+
+/** Identifies the worker holding a job, e.g. "host-1234" */
+const workerId = z.string().trim().min(1, "workerId is required").max(200);
+
+/** How long a claim lasts before another worker may take the job over */
+const leaseMs = z
+  .number()
+  .int()
+  .min(10_000, "leaseMs must be at least 10 seconds")
+  .max(60 * 60 * 1000, "leaseMs must be at most 1 hour")
+  .default(10 * 60 * 1000);
+
+export const enqueueJobsSchema = z
+  .object({
+    /** Originals to enhance */
+    articleIds: z.array(z.string().uuid()).min(1).max(500).optional(),
+    /** Enqueue every original */
+    all: z.literal(true).optional(),
+    maxAttempts: z.number().int().min(1).max(20).optional(),
+    /** Enhance even if a version with the same inputs already exists */
+    force: z.boolean().optional(),
+  })
+  .refine((body) => Boolean(body.articleIds) !== Boolean(body.all), {
+    message: "Provide either articleIds or all: true",
+  });
+
+export const listJobsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: z.enum(JOB_STATUSES).optional(),
+  articleId: z.string().uuid().optional(),
+});
+
+export const claimJobSchema = z.object({ workerId, leaseMs });
+
+export const heartbeatJobSchema = z.object({ workerId, leaseMs });
+
+/** Progress update from a worker; stages are defined by the worker */
+export const jobProgressSchema = z.object({
+  stage: z.string().min(1).max(50),
+  message: z.string().max(500),
+  current: z.number().int().nonnegative().optional(),
+  total: z.number().int().nonnegative().optional(),
+});
+
+export const reportProgressSchema = z.object({
+  workerId,
+  progress: jobProgressSchema,
+});
+
+/** Body of POST /api/articles/:id/enhance */
+export const enhanceArticleSchema = z.object({
+  /** Enhance even if a version with the same inputs already exists */
+  force: z.boolean().optional(),
+});
+
+export const completeJobSchema = z.object({
+  workerId,
+  resultArticleId: z.string().uuid().optional(),
+});
+
+export const failJobSchema = z.object({
+  workerId,
+  error: z.string().min(1, "error is required"),
+});
+
+export type EnqueueJobsInput = z.infer<typeof enqueueJobsSchema>;
+export type ListJobsQuery = z.infer<typeof listJobsQuerySchema>;
+export type JobProgress = z.infer<typeof jobProgressSchema>;
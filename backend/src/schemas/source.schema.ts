@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+/** CSS selector overrides for sites the default selectors don't fit */
+export const sourceSelectorsSchema = z
+  .object({
+    title: z.string().min(1).optional(),
+    content: z.string().min(1).optional(),
+    author: z.string().min(1).optional(),
+    tags: z.string().min(1).optional(),
+    /** Elements removed from the content before extraction */
+    exclude: z.string().min(1).optional(),
+  })
+  .strict();
+
+export const createSourceSchema = z
+  .object({
+    name: z.string().min(1, "Name is required").max(200),
+    baseUrl: z.string().url("Invalid base URL"),
+    sitemapUrl: z.string().url("Invalid sitemap URL").optional(),
+    feedUrl: z.string().url("Invalid feed URL").optional(),
+    includePattern: z
+      .string()
+      .refine((pattern) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      }, "includePattern must be a valid regular expression")
+      .optional(),
+    selectors: sourceSelectorsSchema.optional(),
+  })
+  .refine((s) => s.sitemapUrl || s.feedUrl, {
+    message: "A source needs a sitemapUrl or a feedUrl",
+  });
+
+export type SourceSelectors = z.infer<typeof sourceSelectorsSchema>;
+export type CreateSourceInput = z.infer<typeof createSourceSchema>;
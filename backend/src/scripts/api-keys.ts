@@ -0,0 +1,94 @@
+import { parseArgs } from "node:util";
+import type { ApiKeyRole } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { API_KEY_ROLES, apiKeyService } from "../services/api-key.service.js";
+
+const USAGE = `
+Usage: npm run keys -- <command> [options]
+
+Commands:
+  list                          List API keys
+  issue [options]               Issue a new key (printed once)
+    --name <name>               Who or what the key is for (required)
+    --role <role>               reader | editor | reviewer | admin (default: reader)
+  revoke <id>                   Revoke a key
+
+Roles:
+  reader     Read articles (when REQUIRE_API_KEY_FOR_READS=true)
+  editor     Create and update articles, submit drafts for review
+  reviewer   Approve, reject and publish enhanced articles
+  admin      Delete articles and run bulk operations
+`;
+
+const { values: opts, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    name: { type: "string" },
+    role: { type: "string", default: "reader" },
+  },
+});
+
+function isRole(value: string): value is ApiKeyRole {
+  return (API_KEY_ROLES as string[]).includes(value);
+}
+
+async function issueKey() {
+  if (!opts.name) {
+    throw new Error("--name is required");
+  }
+
+  if (!isRole(opts.role!)) {
+    throw new Error(`--role must be one of: ${API_KEY_ROLES.join(", ")}`);
+  }
+
+  const { apiKey, key } = await apiKeyService.issue(opts.name, opts.role);
+
+  console.log(
+    `✅ Issued ${apiKey.role} key "${apiKey.name}" (ID: ${apiKey.id})\n\n` +
+      `   ${key}\n\n` +
+      `⚠️  Store it now: only its hash is kept, so it cannot be shown again.`
+  );
+}
+
+async function listKeys() {
+  const keys = await apiKeyService.findAll();
+
+  if (keys.length === 0) {
+    console.log("No API keys issued.");
+    return;
+  }
+
+  keys.forEach((k) => {
+    console.log(
+      `${k.revokedAt ? "⚪" : "🟢"} ${k.name} [${k.role}] (ID: ${k.id})\n` +
+        `   key: ${k.prefix}…\n` +
+        `   last used: ${k.lastUsedAt?.toISOString() ?? "never"}` +
+        (k.revokedAt ? `\n   revoked: ${k.revokedAt.toISOString()}` : "")
+    );
+  });
+}
+
+async function main() {
+  const [command, id] = positionals;
+
+  switch (command) {
+    case "list":
+      return listKeys();
+    case "issue":
+      return issueKey();
+    case "revoke":
+      if (!id) throw new Error("Usage: npm run keys -- revoke <id>");
+      await apiKeyService.revoke(id);
+      console.log(`🔒 API key ${id} revoked`);
+      return;
+    default:
+      console.log(USAGE);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
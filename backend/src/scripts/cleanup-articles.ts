@@ -1,80 +1,99 @@
-import { PrismaClient } from "@prisma/client";
-import dotenv from "dotenv";
-import path from "path";
+import { prisma } from "../lib/prisma.js";
 
-// Load environment variables from the correct path
-dotenv.config({ path: path.resolve(__dirname, "../../.env") });
+/**
+ * Migrates enhanced articles created before version numbers existed.
+ *
+ * Those were stored with a `#enhanced-<timestamp>` URL fragment, and every
+ * run of the enhancer added another one. For each original this keeps the
+ * newest legacy version built from each original revision, deletes the
+ * older duplicates, then numbers the survivors after any existing versions
+ * and gives them the original's URL.
+ *
+ * Usage: npm run cleanup [-- --dry-run]
+ */
+async function cleanupArticles() {
+  const dryRun = process.argv.includes("--dry-run");
 
-const prisma = new PrismaClient();
+  console.log(
+    `🔍 Looking for unversioned enhanced articles${dryRun ? " (dry run)" : ""}...`
+  );
 
-async function cleanupArticles() {
-  try {
-    console.log("🔍 Identifying articles to keep...");
-
-    // 1. Find the 5 most recent Enhanced articles
-    const enhancedArticles = await prisma.article.findMany({
-      where: { isEnhanced: true },
-      orderBy: { createdAt: "desc" },
-      take: 5,
-    });
+  const legacy = await prisma.article.findMany({
+    where: { isEnhanced: true, version: 0, originalArticleId: { not: null } },
+    include: { original: { select: { sourceUrl: true } } },
+    orderBy: { createdAt: "asc" },
+  });
 
-    if (enhancedArticles.length === 0) {
-      console.log(
-        "⚠️ No enhanced articles found. Aborting cleanup to prevent deleting originals by mistake."
-      );
-      return;
-    }
+  if (legacy.length === 0) {
+    console.log("✅ Nothing to clean up.");
+    return;
+  }
 
-    const enhancedIds = enhancedArticles.map((a) => a.id);
-    const originalIds = enhancedArticles
-      .map((a) => a.originalArticleId)
-      .filter((id): id is string => id !== null);
+  const byOriginal = new Map<string, typeof legacy>();
+  for (const article of legacy) {
+    const group = byOriginal.get(article.originalArticleId!) ?? [];
+    group.push(article);
+    byOriginal.set(article.originalArticleId!, group);
+  }
+
+  let deleted = 0;
+  let renumbered = 0;
 
-    const idsToKeep = [...enhancedIds, ...originalIds];
+  for (const [originalId, articles] of byOriginal) {
+    // Newest per original revision; articles are sorted oldest first
+    const newestByRevision = new Map<number | null, (typeof articles)[0]>();
+    for (const article of articles) {
+      newestByRevision.set(article.originalRevision, article);
+    }
 
-    console.log(
-      `✅ Found ${enhancedArticles.length} Enhanced articles to keep.`
-    );
-    console.log(
-      `✅ Found ${originalIds.length} linked Original articles to keep.`
-    );
-    console.log(`🔒 Total Articles to protect: ${idsToKeep.length}`);
+    const keep = new Set([...newestByRevision.values()].map((a) => a.id));
+    const duplicates = articles.filter((a) => !keep.has(a.id));
 
-    // 2. Count distinct original articles to ensure we have pairs
-    const originalArticles = await prisma.article.findMany({
-      where: { id: { in: originalIds } },
+    const latest = await prisma.article.aggregate({
+      where: { originalArticleId: originalId },
+      _max: { version: true },
     });
+    let version = latest._max.version ?? 0;
 
-    console.log("\n--- Protected Articles ---");
-    enhancedArticles.forEach((e) => {
-      const orig = originalArticles.find((o) => o.id === e.originalArticleId);
-      console.log(`[Enhanced] ${e.title} (ID: ${e.id.substring(0, 8)}...)`);
-      if (orig) {
-        console.log(
-          `   └─ [Original] ${orig.title} (ID: ${orig.id.substring(0, 8)}...)`
-        );
-      } else {
-        console.log(`   └─ ⚠️ Original not found!`);
+    for (const article of articles) {
+      if (!keep.has(article.id)) continue;
+
+      version++;
+      console.log(
+        `🔢 v${version}: ${article.title.substring(0, 50)} (ID: ${article.id.substring(0, 8)}...)`
+      );
+
+      if (!dryRun) {
+        await prisma.article.update({
+          where: { id: article.id },
+          data: { version, sourceUrl: article.original!.sourceUrl },
+        });
       }
-    });
-    console.log("--------------------------\n");
-
-    // 3. Delete everything else
-    const deleteResult = await prisma.article.deleteMany({
-      where: {
-        id: {
-          notIn: idsToKeep,
-        },
-      },
-    });
+      renumbered++;
+    }
 
-    console.log(`🗑️  Deleted ${deleteResult.count} other articles.`);
-    console.log("🎉 Cleanup complete.");
-  } catch (error) {
-    console.error("❌ Error during cleanup:", error);
-  } finally {
-    await prisma.$disconnect();
+    for (const article of duplicates) {
+      console.log(
+        `🗑️  Duplicate: ${article.title.substring(0, 50)} (ID: ${article.id.substring(0, 8)}...)`
+      );
+    }
+
+    if (!dryRun && duplicates.length > 0) {
+      await prisma.article.deleteMany({
+        where: { id: { in: duplicates.map((a) => a.id) } },
+      });
+    }
+    deleted += duplicates.length;
   }
+
+  console.log(
+    `\n🎉 ${dryRun ? "Would number" : "Numbered"} ${renumbered} enhanced versions and ${dryRun ? "delete" : "deleted"} ${deleted} duplicates across ${byOriginal.size} originals.`
+  );
 }
 
-cleanupArticles();
+cleanupArticles()
+  .catch((error) => {
+    console.error("❌ Error during cleanup:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
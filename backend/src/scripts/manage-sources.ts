@@ -0,0 +1,121 @@
+import { parseArgs } from "node:util";
+import { prisma } from "../lib/prisma.js";
+import { createSourceSchema } from "../schemas/source.schema.js";
+import { sourceService } from "../services/source.service.js";
+
+const USAGE = `
+Usage: npm run sources -- <command> [options]
+
+Commands:
+  list                          List registered sources
+  add [options]                 Register a new source
+    --name <name>               Display name (required)
+    --base-url <url>            Blog base URL (required)
+    --sitemap-url <url>         sitemap.xml or sitemap index
+    --feed-url <url>            RSS or Atom feed
+    --include-pattern <regex>   Only keep URLs whose path matches
+    --title-selector <css>      Override title selector
+    --content-selector <css>    Override content selector
+    --author-selector <css>     Override author selector
+    --tags-selector <css>       Override tag link selector
+    --exclude-selector <css>    Extra elements to strip from content
+  enable <id>                   Resume scraping a source
+  disable <id>                  Stop scraping a source
+  remove <id>                   Delete a source (its articles are kept)
+`;
+
+const { values: opts, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    name: { type: "string" },
+    "base-url": { type: "string" },
+    "sitemap-url": { type: "string" },
+    "feed-url": { type: "string" },
+    "include-pattern": { type: "string" },
+    "title-selector": { type: "string" },
+    "content-selector": { type: "string" },
+    "author-selector": { type: "string" },
+    "tags-selector": { type: "string" },
+    "exclude-selector": { type: "string" },
+  },
+});
+
+async function addSource() {
+  const selectors = {
+    title: opts["title-selector"],
+    content: opts["content-selector"],
+    author: opts["author-selector"],
+    tags: opts["tags-selector"],
+    exclude: opts["exclude-selector"],
+  };
+  const hasSelectors = Object.values(selectors).some(Boolean);
+
+  const result = createSourceSchema.safeParse({
+    name: opts.name,
+    baseUrl: opts["base-url"],
+    sitemapUrl: opts["sitemap-url"],
+    feedUrl: opts["feed-url"],
+    includePattern: opts["include-pattern"],
+    selectors: hasSelectors ? selectors : undefined,
+  });
+
+  if (!result.success) {
+    throw new Error(result.error.errors.map((e) => e.message).join(", "));
+  }
+
+  const source = await sourceService.create(result.data);
+  console.log(`✅ Registered source "${source.name}" (ID: ${source.id})`);
+}
+
+async function listSources() {
+  const sources = await sourceService.findAll();
+
+  if (sources.length === 0) {
+    console.log("No sources registered.");
+    return;
+  }
+
+  sources.forEach((s) => {
+    console.log(
+      `${s.isActive ? "🟢" : "⚪"} ${s.name} (ID: ${s.id})\n` +
+        `   Base:    ${s.baseUrl}\n` +
+        (s.sitemapUrl ? `   Sitemap: ${s.sitemapUrl}\n` : "") +
+        (s.feedUrl ? `   Feed:    ${s.feedUrl}\n` : "") +
+        (s.includePattern ? `   Include: ${s.includePattern}\n` : "") +
+        `   Articles: ${s._count.articles}, last scraped: ${
+          s.lastScrapedAt?.toISOString() ?? "never"
+        }`
+    );
+  });
+}
+
+async function main() {
+  const [command, id] = positionals;
+
+  switch (command) {
+    case "add":
+      return addSource();
+    case "list":
+      return listSources();
+    case "enable":
+    case "disable":
+      if (!id) throw new Error(`Usage: npm run sources -- ${command} <id>`);
+      await sourceService.setActive(id, command === "enable");
+      console.log(`✅ Source ${id} ${command}d`);
+      return;
+    case "remove":
+      if (!id) throw new Error("Usage: npm run sources -- remove <id>");
+      await sourceService.delete(id);
+      console.log(`🗑️  Source ${id} removed`);
+      return;
+    default:
+      console.log(USAGE);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,90 @@
+import { prisma } from "../lib/prisma.js";
+import { hashArticleContent } from "../lib/hash.js";
+import { htmlToText, sanitizeHtml } from "../lib/html.js";
+import { enhancementDetailSchema } from "../schemas/article.schema.js";
+
+/**
+ * One-off backfill: sanitizes HTML stored before sanitization ran on every
+ * write. Rewrites article content, enhancement detail fragments and revision
+ * content in place, without creating new revisions.
+ */
+async function sanitizeArticles() {
+  console.log("🧼 Sanitizing stored article HTML...");
+
+  const articles = await prisma.article.findMany({
+    select: {
+      id: true,
+      title: true,
+      content: true,
+      enhancementDetails: true,
+    },
+  });
+
+  let updatedArticles = 0;
+
+  for (const article of articles) {
+    const content = sanitizeHtml(article.content);
+    const details = enhancementDetailSchema
+      .array()
+      .safeParse(article.enhancementDetails);
+
+    const enhancementDetails = details.success
+      ? details.data.map((detail) => ({
+          ...detail,
+          newText: sanitizeHtml(detail.newText),
+          originalText:
+            detail.originalText !== undefined
+              ? sanitizeHtml(detail.originalText)
+              : undefined,
+        }))
+      : undefined;
+
+    const detailsChanged =
+      enhancementDetails !== undefined &&
+      JSON.stringify(enhancementDetails) !== JSON.stringify(details.data);
+
+    if (content === article.content && !detailsChanged) continue;
+
+    await prisma.article.update({
+      where: { id: article.id },
+      data: {
+        content,
+        contentText: htmlToText(content),
+        contentHash: hashArticleContent({ title: article.title, content }),
+        ...(detailsChanged && { enhancementDetails }),
+      },
+    });
+    updatedArticles++;
+  }
+
+  const revisions = await prisma.articleRevision.findMany({
+    select: { id: true, title: true, content: true },
+  });
+
+  let updatedRevisions = 0;
+
+  for (const revision of revisions) {
+    const content = sanitizeHtml(revision.content);
+    if (content === revision.content) continue;
+
+    await prisma.articleRevision.update({
+      where: { id: revision.id },
+      data: {
+        content,
+        contentHash: hashArticleContent({ title: revision.title, content }),
+      },
+    });
+    updatedRevisions++;
+  }
+
+  console.log(
+    `✅ Sanitized ${updatedArticles}/${articles.length} articles and ${updatedRevisions}/${revisions.length} revisions.`
+  );
+}
+
+sanitizeArticles()
+  .catch((error) => {
+    console.error("❌ Sanitization failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,55 @@
+import { parseArgs } from "node:util";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { scoreContent } from "../lib/scoring.js";
+import { enhancementMetadataSchema } from "../schemas/article.schema.js";
+
+/**
+ * Usage: npm run score -- [--all]
+ * Backfills quality scores for articles stored before scoring ran on every
+ * write. With --all, rescores every article, e.g. after the scoring changed.
+ */
+const { values: args } = parseArgs({
+  options: {
+    all: { type: "boolean", default: false },
+  },
+});
+
+async function scoreArticles(all: boolean) {
+  console.log("📏 Scoring article content...");
+
+  const articles = await prisma.article.findMany({
+    where: all ? {} : { qualityScore: { equals: Prisma.DbNull } },
+    select: {
+      id: true,
+      content: true,
+      sourceUrl: true,
+      enhancementMetadata: true,
+    },
+  });
+
+  for (const article of articles) {
+    const metadata = enhancementMetadataSchema.safeParse(
+      article.enhancementMetadata
+    );
+
+    await prisma.article.update({
+      where: { id: article.id },
+      data: {
+        qualityScore: scoreContent(article.content, {
+          sourceUrl: article.sourceUrl,
+          keywords: metadata.success ? metadata.data.keywords : undefined,
+        }),
+      },
+    });
+  }
+
+  console.log(`✅ Scored ${articles.length} articles.`);
+}
+
+scoreArticles(args.all)
+  .catch((error) => {
+    console.error("❌ Scoring failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
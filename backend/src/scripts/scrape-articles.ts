@@ -1,17 +1,161 @@
+import { parseArgs } from "node:util";
 import { prisma } from "../lib/prisma.js";
 import {
   scraperService,
   type ScrapedArticle,
 } from "../services/scraper.service.js";
+import { sourceService } from "../services/source.service.js";
+import { revisionService } from "../services/revision.service.js";
+import { scoreContent } from "../lib/scoring.js";
+
+/**
+ * Usage: npm run scrape -- [--source <id>] [--limit <n>] [--rescrape]
+ * Scrapes every active source, or a single source when --source is given.
+ * With --rescrape, re-fetches already stored originals instead and records
+ * a new revision for each one whose content changed.
+ */
+const { values: args } = parseArgs({
+  options: {
+    source: { type: "string" },
+    limit: { type: "string" },
+    rescrape: { type: "boolean", default: false },
+  },
+});
+
+/**
+ * Re-fetches known original articles using conditional requests.
+ * Unchanged pages (304 or same content hash) only update fetch metadata.
+ */
+async function rescrapeArticles(sourceId?: string, limit?: number) {
+  console.log("🔁 Starting incremental re-scrape...\n");
+
+  const articles = await prisma.article.findMany({
+    where: { isEnhanced: false, ...(sourceId ? { sourceId } : {}) },
+    include: { source: true },
+    orderBy: { lastFetchedAt: { sort: "asc", nulls: "first" } },
+    take: limit,
+  });
+
+  let changed = 0;
+  let unchanged = 0;
+  let failed = 0;
+
+  for (const article of articles) {
+    try {
+      const scraped = await scraperService.rescrapeArticle(
+        article.sourceUrl,
+        { etag: article.etag, lastModified: article.lastModified },
+        {
+          selectors: article.source
+            ? sourceService.getSelectors(article.source)
+            : undefined,
+          discovered: {
+            url: article.sourceUrl,
+            publishedAt: article.publishedAt,
+          },
+          sourceId: article.sourceId,
+        }
+      );
+
+      const revisionUpdate = scraped
+        ? await revisionService.nextRevision(article, scraped)
+        : null;
+
+      await prisma.article.update({
+        where: { id: article.id },
+        data: {
+          lastFetchedAt: new Date(),
+          ...(scraped && {
+            etag: scraped.etag ?? null,
+            lastModified: scraped.lastModified ?? null,
+          }),
+          ...(scraped &&
+            revisionUpdate && {
+              title: scraped.title,
+              content: scraped.content,
+              contentText: scraped.contentText,
+              qualityScore: scoreContent(scraped.content, {
+                sourceUrl: article.sourceUrl,
+              }),
+              excerpt: scraped.excerpt,
+              tags: scraped.tags,
+              ...revisionUpdate,
+            }),
+        },
+      });
+
+      if (revisionUpdate?.revision) {
+        console.log(
+          `📝 Changed (revision ${revisionUpdate.revision}): ${article.title.substring(
+            0,
+            40
+          )}...`
+        );
+        changed++;
+      } else {
+        console.log(`⏭️ Unchanged: ${article.title.substring(0, 40)}...`);
+        unchanged++;
+      }
+    } catch (error) {
+      console.error(`❌ Failed to re-scrape: ${article.sourceUrl}`, error);
+      failed++;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 1000)); // Rate limiting
+  }
+
+  console.log("\n" + "=".repeat(50));
+  console.log("📊 Re-scrape Summary:");
+  console.log(`   Changed:   ${changed}`);
+  console.log(`   Unchanged: ${unchanged}`);
+  console.log(`   Failed:    ${failed}`);
+  console.log("=".repeat(50) + "\n");
+}
 
 async function seedArticles() {
   console.log("🌱 Starting article seeding process...\n");
 
   try {
-    const scrapedArticles = await scraperService.scrapeAllArticles();
+    if (args.rescrape) {
+      await rescrapeArticles(
+        args.source,
+        args.limit ? parseInt(args.limit, 10) : undefined
+      );
+      return;
+    }
+
+    const sources = args.source
+      ? [await sourceService.findById(args.source)]
+      : await sourceService.findActive();
+
+    if (sources.length === 0) {
+      console.log("⚠️ No sources registered. Add one first, e.g.:");
+      console.log(
+        '   npm run sources -- add --name "BeyondChats" --base-url https://beyondchats.com \\'
+      );
+      console.log(
+        "     --sitemap-url https://beyondchats.com/sitemap_index.xml --include-pattern '^/blogs/[^/]+/$'\n"
+      );
+      return;
+    }
+
+    const limit = args.limit ? parseInt(args.limit, 10) : undefined;
+    const known = await prisma.article.findMany({
+      where: { version: 0 },
+      select: { sourceUrl: true },
+    });
+    const knownUrls = new Set(known.map((a) => a.sourceUrl));
+
+    const scrapedArticles: ScrapedArticle[] = [];
+    for (const source of sources) {
+      scrapedArticles.push(
+        ...(await scraperService.scrapeSource(source, knownUrls, limit))
+      );
+      await sourceService.markScraped(source.id);
+    }
 
     if (scrapedArticles.length === 0) {
-      console.log("⚠️ No articles were scraped. Exiting.");
+      console.log("⚠️ No new articles were scraped. Exiting.");
       return;
     }
 
@@ -23,7 +167,9 @@ async function seedArticles() {
     for (const article of scrapedArticles) {
       try {
         const existing = await prisma.article.findUnique({
-          where: { sourceUrl: article.sourceUrl },
+          where: {
+            sourceUrl_version: { sourceUrl: article.sourceUrl, version: 0 },
+          },
         });
 
         if (existing) {
@@ -38,12 +184,21 @@ async function seedArticles() {
           data: {
             title: article.title,
             content: article.content,
+            contentText: article.contentText,
+            qualityScore: scoreContent(article.content, {
+              sourceUrl: article.sourceUrl,
+            }),
             excerpt: article.excerpt,
             author: article.author,
             publishedAt: article.publishedAt,
             sourceUrl: article.sourceUrl,
             tags: article.tags,
+            sourceId: article.sourceId,
             isEnhanced: false,
+            etag: article.etag,
+            lastModified: article.lastModified,
+            lastFetchedAt: new Date(),
+            ...revisionService.initialRevision(article),
           },
         });
 
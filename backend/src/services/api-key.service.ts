@@ -0,0 +1,118 @@
+import { randomBytes } from "crypto";
+import type { ApiKey, ApiKeyRole } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { hashApiKey } from "../lib/hash.js";
+import { AppError } from "../middleware/error.middleware.js";
+
+/** Roles in ascending order of access */
+export const API_KEY_ROLES: ApiKeyRole[] = [
+  "reader",
+  "editor",
+  "reviewer",
+  "admin",
+];
+
+/** Marks strings as keys for this API (and makes leaked keys easy to grep for) */
+const KEY_PREFIX = "ask_";
+
+/** Characters of the key kept in plain text for identification */
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/** Only refresh `lastUsedAt` this often, to avoid a write on every request */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * Service for issuing, revoking and verifying API keys.
+ */
+export class ApiKeyService {
+  /**
+   * Issues a new key. The plain key is returned only here; the database
+   * keeps its hash.
+   */
+  async issue(name: string, role: ApiKeyRole) {
+    const key = KEY_PREFIX + randomBytes(32).toString("base64url");
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name,
+        role,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: hashApiKey(key),
+      },
+    });
+
+    return { apiKey: this.toPublic(apiKey), key };
+  }
+
+  /** Lists all keys, newest first, without their hashes */
+  async findAll() {
+    const keys = await prisma.apiKey.findMany({
+      orderBy: { createdAt: "desc" },
+    });
+
+    return keys.map((key) => this.toPublic(key));
+  }
+
+  /**
+   * Revokes a key; requests using it are rejected from then on.
+   * @throws AppError 404 if key not found
+   */
+  async revoke(id: string) {
+    const apiKey = await prisma.apiKey.findUnique({ where: { id } });
+
+    if (!apiKey) {
+      throw new AppError(404, "API key not found");
+    }
+
+    if (apiKey.revokedAt) {
+      return this.toPublic(apiKey);
+    }
+
+    const revoked = await prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    return this.toPublic(revoked);
+  }
+
+  /**
+   * Looks up the active key matching a plain key from a request.
+   * @returns The key without its hash, or null if unknown or revoked
+   */
+  async verify(key: string) {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashApiKey(key) },
+    });
+
+    if (!apiKey || apiKey.revokedAt) return null;
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+    ) {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now },
+      });
+    }
+
+    return this.toPublic(apiKey);
+  }
+
+  /** True if `role` grants at least the access of `required` */
+  hasRole(role: ApiKeyRole, required: ApiKeyRole): boolean {
+    return API_KEY_ROLES.indexOf(role) >= API_KEY_ROLES.indexOf(required);
+  }
+
+  private toPublic(apiKey: ApiKey) {
+    const { keyHash: _keyHash, ...rest } = apiKey;
+    return rest;
+  }
+}
+
+/** Singleton instance of ApiKeyService */
+export const apiKeyService = new ApiKeyService();
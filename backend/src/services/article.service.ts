@@ -1,10 +1,208 @@
+import { Prisma, type Article } from "@prisma/client";
+import type { z } from "zod";
 import { prisma } from "../lib/prisma.js";
-import type {
-  CreateArticleInput,
-  UpdateArticleInput,
-  ListArticlesQuery,
+import {
+  citedReferenceSchema,
+  enhancementDetailSchema,
+  enhancementMetadataSchema,
+  unreportedChangeSchema,
+  type CitedReference,
+  type CompetitorSourceInput,
+  type CreateArticleInput,
+  type EnhancementDetail,
+  type UnreportedChange,
+  type UpdateArticleInput,
+  type ArticleFacetsQuery,
+  type ArticleFilters,
+  type ListArticlesQuery,
+  type ArticleSort,
+  type SortOrder,
 } from "../schemas/article.schema.js";
 import { AppError } from "../middleware/error.middleware.js";
+import { searchService } from "./search.service.js";
+import { revisionService } from "./revision.service.js";
+import { htmlToText, sanitizeDetails, sanitizeHtml } from "../lib/html.js";
+import { anchorDetails } from "../lib/merge.js";
+import { scoreContent } from "../lib/scoring.js";
+import { similarityOptions, similarityReport } from "../lib/similarity.js";
+import { decodeCursor, encodeCursor, type Cursor } from "../lib/cursor.js";
+
+/** Article JSON columns as stored by Prisma */
+type ArticleJsonColumns = {
+  enhancementDetails: Prisma.JsonValue;
+  unreportedChanges: Prisma.JsonValue;
+  citedReferences: Prisma.JsonValue;
+};
+
+/** Article with its JSON columns narrowed to their validated shapes */
+export type TypedArticle<T extends ArticleJsonColumns> = Omit<
+  T,
+  keyof ArticleJsonColumns
+> & {
+  enhancementDetails: EnhancementDetail[] | null;
+  unreportedChanges: UnreportedChange[] | null;
+  citedReferences: CitedReference[] | null;
+};
+
+/**
+ * Parses a stored JSON array item by item, keeping only valid entries.
+ * Rows written before validation existed may contain malformed items.
+ */
+function parseJsonArray<T>(
+  value: Prisma.JsonValue,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): T[] | null {
+  if (!Array.isArray(value)) return null;
+
+  return value.flatMap((item) => {
+    const result = schema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+}
+
+/** Narrows an article's JSON columns for API responses */
+function toTypedArticle<T extends ArticleJsonColumns>(
+  article: T
+): TypedArticle<T> {
+  return {
+    ...article,
+    enhancementDetails: parseJsonArray(
+      article.enhancementDetails,
+      enhancementDetailSchema
+    ),
+    unreportedChanges: parseJsonArray(
+      article.unreportedChanges,
+      unreportedChangeSchema
+    ),
+    citedReferences: parseJsonArray(
+      article.citedReferences,
+      citedReferenceSchema
+    ),
+  };
+}
+
+/**
+ * Scores sanitized content, with the keyword coverage of an enhanced version
+ * measured against the competitor keywords in its metadata.
+ */
+function scoreArticle(content: string, sourceUrl: string, metadata: unknown) {
+  const parsed = enhancementMetadataSchema.safeParse(metadata);
+  return scoreContent(content, {
+    sourceUrl,
+    keywords: parsed.success ? parsed.data.keywords : undefined,
+  });
+}
+
+/**
+ * Measures how much of an enhanced version's content was copied from the
+ * competitor articles it was built from, with the server's settings.
+ */
+function measureSimilarity(
+  content: string,
+  original: Pick<Article, "content" | "contentText">,
+  sources: CompetitorSourceInput[]
+) {
+  return similarityReport(
+    htmlToText(content),
+    original.contentText ?? htmlToText(original.content),
+    sources,
+    similarityOptions()
+  );
+}
+
+/**
+ * Ensures detail offsets fall inside the content they point into.
+ * @throws AppError 400 if an offset is out of range
+ */
+function assertDetailOffsets(content: string, details: EnhancementDetail[]) {
+  const outOfRange = details.findIndex(
+    (d) => d.endOffset !== undefined && d.endOffset > content.length
+  );
+
+  if (outOfRange !== -1) {
+    throw new AppError(
+      400,
+      `Enhancement detail ${outOfRange} has offsets outside the article content`
+    );
+  }
+}
+
+/** Sorts backed by an Article column (everything except relevance) */
+type ColumnSort = Exclude<ArticleSort, "relevance">;
+
+/** Titles read A to Z by default; dates and relevance newest/best first */
+function defaultOrder(sort: ArticleSort): SortOrder {
+  return sort === "title" ? "asc" : "desc";
+}
+
+function flipOrder(order: SortOrder): SortOrder {
+  return order === "asc" ? "desc" : "asc";
+}
+
+/** Cursor value for an article under a column sort */
+function sortValue(
+  article: Pick<Article, ColumnSort>,
+  sort: ColumnSort
+): string {
+  const value = article[sort];
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/** Number of matching articles for one facet value */
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+/** True if a cursor's sort value has the type its sort column needs */
+function isValidCursorValue(cursor: Cursor, sort: ArticleSort): boolean {
+  if (sort === "relevance") return typeof cursor.value === "number";
+  if (sort === "title") return typeof cursor.value === "string";
+  return !Number.isNaN(new Date(cursor.value).getTime());
+}
+
+/**
+ * Builds the keyset condition selecting rows after (or, for `prev`, before)
+ * the cursor row, ordered by the sort expression with the ID as
+ * tie-breaker.
+ * @param sortBy - The column or rank expression the list is ordered by
+ */
+function keysetSql(
+  sortBy: Prisma.Sql,
+  sort: ArticleSort,
+  order: SortOrder,
+  cursor: Cursor
+): Prisma.Sql {
+  // Ranks are stored as real; compare at that precision so ties still match
+  const value =
+    sort === "relevance"
+      ? Prisma.sql`${Number(cursor.value)}::real`
+      : sort === "title"
+        ? Prisma.sql`${String(cursor.value)}`
+        : Prisma.sql`${new Date(cursor.value)}`;
+  const op = (order === "desc") === (cursor.direction === "next") ? "<" : ">";
+
+  return Prisma.sql`(${sortBy}, "id") ${Prisma.raw(op)} (${value}, ${cursor.id})`;
+}
+
+export interface VisibilityOptions {
+  /** Include articles that aren't published (for editors and reviewers) */
+  includeUnpublished?: boolean;
+}
+
+/** Filter for the enhanced versions a caller may see */
+function visibleWhere(
+  options: VisibilityOptions
+): Prisma.ArticleWhereInput | undefined {
+  return options.includeUnpublished ? undefined : { status: "published" };
+}
+
+function isVisible(
+  article: Pick<Article, "status">,
+  options: VisibilityOptions
+): boolean {
+  return options.includeUnpublished || article.status === "published";
+}
 
 /**
  * Service layer for article CRUD operations.
@@ -12,112 +210,482 @@ import { AppError } from "../middleware/error.middleware.js";
  */
 export class ArticleService {
   /**
-   * Creates a new article.
-   * @throws AppError 409 if article with same sourceUrl already exists
+   * Creates a new article as revision 1.
+   * All HTML (content and enhancement details) is sanitized before storage.
+   *
+   * Originals are version 0. Enhanced versions (with `originalArticleId`) are
+   * numbered 1, 2, ... per original, and record the original's revision they
+   * were built from, defaulting to its current revision. When an enhanced
+   * version with the same `enhancementKey` already exists, it is returned
+   * instead of creating a duplicate, unless `force` is set. New enhanced
+   * versions start as drafts; originals are published right away. Enhanced
+   * versions given `competitorSources` are checked for text copied from them.
+   *
+   * @returns The article, and whether it was newly created
+   * @throws AppError 400 if the original article or revision doesn't exist
+   * @throws AppError 409 if an article with the same sourceUrl and version
+   *   already exists
    */
-  async create(data: CreateArticleInput) {
+  async create(data: CreateArticleInput, options: { force?: boolean } = {}) {
+    const { competitorSources, ...fields } = data;
+    let originalRevision = data.originalRevision;
+    let version = 0;
+    let originalText: Pick<Article, "content" | "contentText"> | null = null;
+
+    if (data.originalArticleId) {
+      const original = await prisma.article.findUnique({
+        where: { id: data.originalArticleId },
+        select: {
+          revision: true,
+          isEnhanced: true,
+          content: true,
+          contentText: true,
+        },
+      });
+
+      if (!original) {
+        throw new AppError(400, "Original article not found");
+      }
+
+      if (original.isEnhanced) {
+        throw new AppError(400, "Enhanced versions must link to an original");
+      }
+      originalText = original;
+
+      if (originalRevision === undefined) {
+        originalRevision = original.revision;
+      } else if (originalRevision > original.revision) {
+        throw new AppError(400, "Original article revision not found");
+      }
+
+      if (data.enhancementKey && !options.force) {
+        const existing = await prisma.article.findFirst({
+          where: {
+            originalArticleId: data.originalArticleId,
+            enhancementKey: data.enhancementKey,
+          },
+          orderBy: { version: "desc" },
+        });
+
+        if (existing) {
+          return { article: toTypedArticle(existing), created: false };
+        }
+      }
+
+      const latest = await prisma.article.aggregate({
+        where: { originalArticleId: data.originalArticleId },
+        _max: { version: true },
+      });
+      version = (latest._max.version ?? 0) + 1;
+    }
+
     const existing = await prisma.article.findUnique({
-      where: { sourceUrl: data.sourceUrl },
+      where: { sourceUrl_version: { sourceUrl: data.sourceUrl, version } },
     });
 
     if (existing) {
       throw new AppError(409, "Article with this URL already exists");
     }
 
-    return prisma.article.create({
-      data: {
-        ...data,
-        citedReferences: data.citedReferences || undefined,
-      },
-    });
+    const content = sanitizeHtml(data.content);
+    const enhancementDetails =
+      data.enhancementDetails &&
+      sanitizeDetails(
+        data.enhancementDetails,
+        content,
+        content !== data.content
+      );
+
+    if (enhancementDetails) {
+      assertDetailOffsets(content, enhancementDetails);
+    }
+
+    const similarity =
+      originalText && competitorSources
+        ? measureSimilarity(content, originalText, competitorSources)
+        : undefined;
+    const enhancementMetadata =
+      data.enhancementMetadata || similarity
+        ? { ...data.enhancementMetadata, ...(similarity && { similarity }) }
+        : undefined;
+
+    try {
+      const article = await prisma.article.create({
+        data: {
+          ...fields,
+          content,
+          contentText: htmlToText(content),
+          qualityScore: scoreArticle(
+            content,
+            data.sourceUrl,
+            data.enhancementMetadata
+          ),
+          originalRevision,
+          version,
+          // Enhanced versions are reviewed before they are listed
+          status: data.isEnhanced ? "draft" : "published",
+          citedReferences: data.citedReferences || undefined,
+          enhancementDetails: enhancementDetails || undefined,
+          unreportedChanges: data.unreportedChanges || undefined,
+          enhancementMetadata: enhancementMetadata as
+            | Prisma.InputJsonObject
+            | undefined,
+          competitorSources: competitorSources && {
+            create: competitorSources.map((source, position) => ({
+              ...source,
+              position,
+            })),
+          },
+          ...revisionService.initialRevision({ ...data, content }),
+        },
+      });
+
+      return { article: toTypedArticle(article), created: true };
+    } catch (error) {
+      // Another request took the same version number first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new AppError(409, "Article with this URL already exists");
+      }
+      throw error;
+    }
   }
 
   /**
-   * Retrieves articles with pagination, filtering, and search.
-   * @param query - Pagination and filter options
+   * Retrieves articles with pagination, filtering, and full-text search.
+   * When a search term is given, results default to relevance order and
+   * each hit carries its rank and highlighted title/snippet.
+   *
+   * Pages can be addressed by number or, more stably, by the opaque
+   * `nextCursor`/`prevCursor` tokens returned with every page. Cursors
+   * continue from a fixed row, so inserts don't shift or repeat results.
+   *
+   * @param query - Pagination, sort and filter options
    * @returns Articles array and pagination metadata
+   * @throws AppError 400 if the cursor is invalid or doesn't match the sort
    */
   async findAll(query: ListArticlesQuery) {
-    const { page, limit, isEnhanced, search } = query;
+    const { page, limit, search } = query;
     const skip = (page - 1) * limit;
+    const sort = query.sort ?? (search ? "relevance" : "createdAt");
+    const order = query.order ?? defaultOrder(sort);
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
 
-    // Build dynamic where clause
-    const where: any = {};
-
-    if (isEnhanced !== undefined) {
-      where.isEnhanced = isEnhanced;
+    if (sort === "relevance" && !search) {
+      throw new AppError(400, "Sorting by relevance requires a search term");
     }
 
-    if (search) {
-      where.OR = [
-        { title: { contains: search, mode: "insensitive" } },
-        { content: { contains: search, mode: "insensitive" } },
-      ];
+    if (
+      query.cursor &&
+      (!cursor ||
+        cursor.sort !== sort ||
+        cursor.order !== order ||
+        !isValidCursorValue(cursor, sort))
+    ) {
+      throw new AppError(400, "Invalid cursor for this sort order");
     }
 
-    // Run count and find in parallel for better performance
-    const [articles, total] = await Promise.all([
-      prisma.article.findMany({
-        where,
-        skip,
-        take: limit,
-        orderBy: { createdAt: "desc" },
-        include: {
-          original: {
-            select: { id: true, title: true },
-          },
-          enhancedVersions: {
-            select: { id: true },
-          },
-        },
-      }),
-      prisma.article.count({ where }),
+    const tsQuery = search ? searchService.buildTsQuery(search) : null;
+    const filter = this.buildFilter(query);
+    const rank = tsQuery ? searchService.rankSql(tsQuery) : Prisma.sql`0::real`;
+    const sortBy =
+      sort === "relevance" ? rank : Prisma.raw(`"${sort as ColumnSort}"`);
+
+    // Walking backwards reads in reverse order, then restores it
+    const backwards = cursor?.direction === "prev";
+    const direction = Prisma.raw(backwards ? flipOrder(order) : order);
+
+    // Page and count in SQL, so every match is reachable and counted
+    const [hits, [{ count: total }]] = await Promise.all([
+      prisma.$queryRaw<Array<{ id: string; rank: number }>>`
+        SELECT "id", ${rank} AS rank
+        FROM "Article"
+        WHERE ${filter}
+          AND ${cursor ? keysetSql(sortBy, sort, order, cursor) : Prisma.sql`TRUE`}
+        ORDER BY ${sortBy} ${direction}, "id" ${direction}
+        LIMIT ${limit + 1}
+        OFFSET ${cursor ? 0 : skip}
+      `,
+      prisma.$queryRaw<Array<{ count: number }>>`
+        SELECT count(*)::int AS count FROM "Article" WHERE ${filter}
+      `,
     ]);
 
+    const more = hits.length > limit;
+    const pageHits = hits.slice(0, limit);
+    if (backwards) pageHits.reverse();
+
+    const rows = await prisma.article.findMany({
+      where: { id: { in: pageHits.map((hit) => hit.id) } },
+      include: {
+        original: {
+          select: { id: true, title: true },
+        },
+        enhancedVersions: {
+          select: { id: true },
+        },
+      },
+    });
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    const ranks = new Map(pageHits.map((hit) => [hit.id, Number(hit.rank)]));
+
+    const articles = pageHits.map((hit) => byId.get(hit.id)!).filter(Boolean);
+    const hasPrev = cursor ? !backwards || more : skip > 0;
+    const hasNext = cursor ? backwards || more : more;
+
+    const toCursor = (
+      article: (typeof articles)[number] | undefined,
+      direction: Cursor["direction"]
+    ) =>
+      article
+        ? encodeCursor({
+            sort,
+            order,
+            value:
+              sort === "relevance"
+                ? ranks.get(article.id)!
+                : sortValue(article, sort),
+            id: article.id,
+            direction,
+          })
+        : null;
+
+    const highlights = search
+      ? await searchService.highlight(
+          articles.map((a) => a.id),
+          search
+        )
+      : null;
+
     return {
-      articles,
+      articles: articles.map((article) =>
+        search
+          ? {
+              ...toTypedArticle(article),
+              relevance: ranks.get(article.id) ?? 0,
+              highlight: highlights?.get(article.id),
+            }
+          : toTypedArticle(article)
+      ),
       pagination: {
-        page,
+        page: cursor ? null : page,
         limit,
         total,
         totalPages: Math.ceil(total / limit),
+        nextCursor: hasNext ? toCursor(articles.at(-1), "next") : null,
+        prevCursor: hasPrev ? toCursor(articles[0], "prev") : null,
+      },
+    };
+  }
+
+  /**
+   * Counts the articles matching a search/filter query, grouped by
+   * enhancement status, tag, author and publish month. Each facet ignores
+   * its own filter, so its counts show what picking another value returns.
+   * @param query - Same search and filters as `findAll`
+   * @returns Total matches plus the count for each facet value
+   */
+  async getFacets(query: ArticleFacetsQuery) {
+    const filter = this.buildFilter(query);
+    const statusFilter = this.buildFilter({ ...query, isEnhanced: undefined });
+    const tagFilter = this.buildFilter({ ...query, tags: undefined });
+    const authorFilter = this.buildFilter({ ...query, author: undefined });
+    const monthFilter = this.buildFilter({
+      ...query,
+      publishedFrom: undefined,
+      publishedTo: undefined,
+    });
+
+    const [[{ count: total }], statusGroups, tags, authors, publishedMonths] =
+      await Promise.all([
+        prisma.$queryRaw<Array<{ count: number }>>`
+          SELECT count(*)::int AS count FROM "Article" WHERE ${filter}
+        `,
+        prisma.$queryRaw<Array<{ isEnhanced: boolean; count: number }>>`
+          SELECT "isEnhanced", count(*)::int AS count
+          FROM "Article"
+          WHERE ${statusFilter}
+          GROUP BY "isEnhanced"
+        `,
+        prisma.$queryRaw<FacetBucket[]>`
+          SELECT tag AS value, count(*)::int AS count
+          FROM "Article", unnest("tags") AS tag
+          WHERE ${tagFilter}
+          GROUP BY tag
+          ORDER BY count DESC, value
+          LIMIT ${query.limit}
+        `,
+        prisma.$queryRaw<FacetBucket[]>`
+          SELECT "author" AS value, count(*)::int AS count
+          FROM "Article"
+          WHERE ${authorFilter}
+          GROUP BY "author"
+          ORDER BY count DESC, value
+          LIMIT ${query.limit}
+        `,
+        // Newest month first, as "YYYY-MM" in UTC
+        prisma.$queryRaw<FacetBucket[]>`
+          SELECT to_char(date_trunc('month', "publishedAt"), 'YYYY-MM') AS value,
+            count(*)::int AS count
+          FROM "Article"
+          WHERE ${monthFilter}
+          GROUP BY value
+          ORDER BY value DESC
+        `,
+      ]);
+
+    const statusCount = (isEnhanced: boolean) =>
+      statusGroups.find((g) => g.isEnhanced === isEnhanced)?.count ?? 0;
+
+    return {
+      total,
+      isEnhanced: {
+        original: statusCount(false),
+        enhanced: statusCount(true),
       },
+      tags,
+      authors,
+      publishedMonths,
     };
   }
 
+  /**
+   * Builds the SQL condition for a list query's search and filters, over
+   * the columns of "Article". A search without any searchable word matches
+   * nothing.
+   * Version filters (`hasEnhancements`, `minVersions`) only match originals.
+   * @throws AppError 400 if the published date range is reversed
+   */
+  private buildFilter(query: ArticleFilters): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+    const versionCount = Prisma.sql`(
+      SELECT count(*) FROM "Article" AS v
+      WHERE v."originalArticleId" = "Article"."id"
+    )`;
+
+    if (!query.status.includes("all")) {
+      conditions.push(
+        Prisma.sql`"status"::text IN (${Prisma.join(query.status)})`
+      );
+    }
+
+    if (query.isEnhanced !== undefined) {
+      conditions.push(Prisma.sql`"isEnhanced" = ${query.isEnhanced}`);
+    }
+
+    if (query.search) {
+      const tsQuery = searchService.buildTsQuery(query.search);
+      conditions.push(
+        tsQuery ? searchService.matchSql(tsQuery) : Prisma.sql`FALSE`
+      );
+    }
+
+    if (query.tags?.length) {
+      conditions.push(
+        query.tagMode === "all"
+          ? Prisma.sql`"tags" @> ${query.tags}::text[]`
+          : Prisma.sql`"tags" && ${query.tags}::text[]`
+      );
+    }
+
+    if (query.excludeTags?.length) {
+      conditions.push(Prisma.sql`NOT ("tags" && ${query.excludeTags}::text[])`);
+    }
+
+    if (query.author) {
+      conditions.push(Prisma.sql`"author" = ${query.author}`);
+    }
+
+    const { publishedFrom, publishedTo } = query;
+    if (publishedFrom && publishedTo && publishedFrom > publishedTo) {
+      throw new AppError(400, "publishedFrom must not be after publishedTo");
+    }
+    if (publishedFrom) {
+      conditions.push(Prisma.sql`"publishedAt" >= ${publishedFrom}`);
+    }
+    if (publishedTo) {
+      conditions.push(Prisma.sql`"publishedAt" <= ${publishedTo}`);
+    }
+
+    if (query.originalArticleId) {
+      conditions.push(
+        Prisma.sql`"originalArticleId" = ${query.originalArticleId}`
+      );
+    }
+
+    if (query.enhancementKey) {
+      conditions.push(Prisma.sql`"enhancementKey" = ${query.enhancementKey}`);
+    }
+
+    if (query.hasEnhancements !== undefined) {
+      conditions.push(
+        query.hasEnhancements
+          ? Prisma.sql`NOT "isEnhanced" AND ${versionCount} > 0`
+          : Prisma.sql`NOT "isEnhanced" AND ${versionCount} = 0`
+      );
+    }
+
+    if (query.minVersions !== undefined) {
+      conditions.push(
+        Prisma.sql`NOT "isEnhanced" AND ${versionCount} >= ${query.minVersions}`
+      );
+    }
+
+    return Prisma.join(conditions, " AND ");
+  }
+
   /**
    * Finds a single article by ID.
+   * Unpublished articles and versions are hidden unless `includeUnpublished`.
    * @throws AppError 404 if article not found
    */
-  async findById(id: string) {
+  async findById(id: string, options: VisibilityOptions = {}) {
     const article = await prisma.article.findUnique({
       where: { id },
       include: {
         original: true,
-        enhancedVersions: true,
+        enhancedVersions: {
+          where: visibleWhere(options),
+          orderBy: { version: "desc" },
+        },
+        enhancementDecisions: { orderBy: { detailIndex: "asc" } },
       },
     });
 
-    if (!article) {
+    if (!article || !isVisible(article, options)) {
       throw new AppError(404, "Article not found");
     }
 
-    return article;
+    return {
+      ...toTypedArticle(article),
+      original: article.original && toTypedArticle(article.original),
+      enhancedVersions: article.enhancedVersions.map(toTypedArticle),
+    };
   }
 
   /**
    * Updates an existing article.
+   * A title or content change is stored as a new revision. Changing the
+   * content or enhancement details clears per-change review decisions.
+   * A new revision of an enhanced version past the draft stage sends it back
+   * to draft, so the changed text is reviewed again before going live.
+   * The copied-text report of an enhanced version is kept from the stored
+   * metadata, and measured again whenever its content changes.
    * @throws AppError 404 if article not found
    * @throws AppError 409 if new sourceUrl conflicts with another article
+   *   of the same version
    */
   async update(id: string, data: UpdateArticleInput) {
-    await this.findById(id);
+    const current = await this.findById(id, { includeUnpublished: true });
 
     // Check for URL conflict if updating sourceUrl
     if (data.sourceUrl) {
       const existing = await prisma.article.findFirst({
         where: {
           sourceUrl: data.sourceUrl,
+          version: current.version,
           NOT: { id },
         },
       });
@@ -127,13 +695,162 @@ export class ArticleService {
       }
     }
 
-    return prisma.article.update({
+    const content =
+      data.content !== undefined ? sanitizeHtml(data.content) : undefined;
+    const enhancementDetails =
+      data.enhancementDetails &&
+      sanitizeDetails(
+        data.enhancementDetails,
+        content ?? current.content,
+        content !== data.content
+      );
+
+    if (enhancementDetails) {
+      assertDetailOffsets(content ?? current.content, enhancementDetails);
+    }
+
+    const revisionUpdate =
+      data.title !== undefined || content !== undefined
+        ? await revisionService.nextRevision(current, {
+            title: data.title ?? current.title,
+            content: content ?? current.content,
+            excerpt: data.excerpt ?? current.excerpt,
+          })
+        : null;
+
+    const enhancementMetadata = current.isEnhanced
+      ? await this.enhancementMetadataFor(
+          current,
+          data,
+          content !== current.content ? content : undefined
+        )
+      : data.enhancementMetadata;
+
+    const needsReview =
+      current.isEnhanced &&
+      current.status !== "draft" &&
+      revisionUpdate?.revision !== undefined;
+
+    const article = await prisma.article.update({
       where: { id },
       data: {
         ...data,
+        ...(content !== undefined && {
+          content,
+          contentText: htmlToText(content),
+        }),
+        ...((content !== undefined || data.enhancementMetadata) && {
+          qualityScore: scoreArticle(
+            content ?? current.content,
+            data.sourceUrl ?? current.sourceUrl,
+            enhancementMetadata ?? current.enhancementMetadata
+          ),
+        }),
         citedReferences: data.citedReferences || undefined,
+        enhancementDetails: enhancementDetails || undefined,
+        unreportedChanges: data.unreportedChanges || undefined,
+        enhancementMetadata: enhancementMetadata as
+          | Prisma.InputJsonObject
+          | undefined,
+        ...revisionUpdate,
+        ...(needsReview && {
+          status: "draft",
+          statusChangedAt: new Date(),
+          reviewedAt: null,
+          reviewedBy: null,
+        }),
+        // Decisions are by detail index and the merge by content position
+        ...((content !== undefined || enhancementDetails) && {
+          enhancementDecisions: { deleteMany: {} },
+          finalContent: null,
+          finalContentAt: null,
+        }),
       },
     });
+
+    return toTypedArticle(article);
+  }
+
+  /**
+   * Fields that make an enhanced version's final article (the original plus
+   * the accepted changes) its content, as a new revision with its text,
+   * quality score and copied-text report to match. Applied when the version
+   * is published, so everything that reads the published text sees the
+   * merged one. Details are pointed at the final article; unreported
+   * changes, which the merge never applies, are cleared.
+   * @returns Null if no final article was built, or it is the content already
+   * @throws AppError 404 if article not found
+   */
+  async finalContentUpdate(
+    id: string
+  ): Promise<Prisma.ArticleUncheckedUpdateInput | null> {
+    const current = await this.findById(id, { includeUnpublished: true });
+    const content = current.finalContent;
+
+    if (!content || content === current.content) return null;
+
+    const enhancementMetadata = await this.enhancementMetadataFor(
+      current,
+      {},
+      content
+    );
+
+    return {
+      content,
+      contentText: htmlToText(content),
+      qualityScore: scoreArticle(
+        content,
+        current.sourceUrl,
+        enhancementMetadata
+      ),
+      enhancementMetadata: enhancementMetadata as Prisma.InputJsonObject,
+      enhancementDetails: current.enhancementDetails
+        ? anchorDetails(current.enhancementDetails, content)
+        : undefined,
+      unreportedChanges: Prisma.DbNull,
+      ...(await revisionService.nextRevision(current, {
+        title: current.title,
+        content,
+        excerpt: current.excerpt,
+      })),
+    };
+  }
+
+  /**
+   * Metadata to store when updating an enhanced version: the new metadata,
+   * or the stored one, with the stored copied-text report, or a new report
+   * when the content changed. Without competitor sources to measure against,
+   * changed content leaves no report, which keeps it from being published.
+   * @returns Undefined if the metadata stays as stored
+   */
+  private async enhancementMetadataFor(
+    current: Awaited<ReturnType<ArticleService["findById"]>>,
+    data: UpdateArticleInput,
+    /** New content, if it changed */
+    content: string | undefined
+  ) {
+    if (!data.enhancementMetadata && content === undefined) return undefined;
+
+    const stored = enhancementMetadataSchema.safeParse(
+      current.enhancementMetadata
+    );
+    const { similarity: _similarity, ...metadata } =
+      data.enhancementMetadata ?? (stored.success ? stored.data : {});
+
+    let similarity = stored.success ? stored.data.similarity : undefined;
+
+    if (content !== undefined) {
+      const sources = await prisma.competitorSource.findMany({
+        where: { articleId: current.id },
+        orderBy: { position: "asc" },
+      });
+      similarity =
+        current.original && sources.length > 0
+          ? measureSimilarity(content, current.original, sources)
+          : undefined;
+    }
+
+    return { ...metadata, ...(similarity && { similarity }) };
   }
 
   /**
@@ -141,7 +858,7 @@ export class ArticleService {
    * @throws AppError 404 if article not found
    */
   async delete(id: string) {
-    await this.findById(id);
+    await this.findById(id, { includeUnpublished: true });
 
     return prisma.article.delete({
       where: { id },
@@ -151,23 +868,29 @@ export class ArticleService {
   /**
    * Gets an article with all its enhanced versions.
    * Used for original vs enhanced comparison view.
+   * Unpublished articles and versions are hidden unless `includeUnpublished`.
    * @throws AppError 404 if article not found
    */
-  async getWithEnhanced(id: string) {
+  async getWithEnhanced(id: string, options: VisibilityOptions = {}) {
     const article = await prisma.article.findUnique({
       where: { id },
       include: {
         enhancedVersions: {
-          orderBy: { createdAt: "desc" },
+          where: visibleWhere(options),
+          orderBy: { version: "desc" },
         },
+        enhancementDecisions: { orderBy: { detailIndex: "asc" } },
       },
     });
 
-    if (!article) {
+    if (!article || !isVisible(article, options)) {
       throw new AppError(404, "Article not found");
     }
 
-    return article;
+    return {
+      ...toTypedArticle(article),
+      enhancedVersions: article.enhancedVersions.map(toTypedArticle),
+    };
   }
 }
 
@@ -0,0 +1,53 @@
+import { diffContent, diffWords } from "../lib/diff.js";
+import { AppError } from "../middleware/error.middleware.js";
+import { articleService, type VisibilityOptions } from "./article.service.js";
+
+/**
+ * Service for comparing the versions of an article: the original and its
+ * enhanced versions.
+ */
+export class DiffService {
+  /**
+   * Computes a paragraph- and word-level diff from one version to another.
+   * Either may be the original or any enhanced version of it.
+   *
+   * @returns Both versions' ids, the title diff and the content diff
+   * @throws AppError 400 if the articles are not versions of one original
+   * @throws AppError 404 if either article is not found (or not visible)
+   */
+  async compare(
+    fromId: string,
+    toId: string,
+    options: VisibilityOptions = {}
+  ) {
+    const [from, to] = await Promise.all([
+      articleService.findById(fromId, options),
+      articleService.findById(toId, options),
+    ]);
+
+    const rootOf = (article: typeof from) =>
+      article.originalArticleId ?? article.id;
+
+    if (rootOf(from) !== rootOf(to)) {
+      throw new AppError(400, "Articles are not versions of the same original");
+    }
+
+    const summary = (article: typeof from) => ({
+      id: article.id,
+      title: article.title,
+      version: article.version,
+      isEnhanced: article.isEnhanced,
+      status: article.status,
+    });
+
+    return {
+      from: summary(from),
+      to: summary(to),
+      title: diffWords(from.title, to.title),
+      ...diffContent(from.content, to.content),
+    };
+  }
+}
+
+/** Singleton instance of DiffService */
+export const diffService = new DiffService();
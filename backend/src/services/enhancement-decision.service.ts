@@ -0,0 +1,168 @@
+import type { ApiKey, ArticleStatus } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { sanitizeHtml } from "../lib/html.js";
+import { mergeAcceptedChanges } from "../lib/merge.js";
+import type {
+  SaveDecisionsInput,
+} from "../schemas/enhancement-decision.schema.js";
+import { AppError } from "../middleware/error.middleware.js";
+import { articleService } from "./article.service.js";
+
+/** Review statuses in which decisions can still change */
+const EDITABLE_STATUSES: ArticleStatus[] = ["draft", "in_review"];
+
+type ReviewedArticle = Awaited<ReturnType<typeof articleService.findById>>;
+
+/**
+ * Service for accepting or rejecting an enhanced article's individual
+ * changes (its enhancementDetails items), and for merging the accepted ones
+ * into the original to build the final article.
+ */
+export class EnhancementDecisionService {
+  /**
+   * Records decisions on detail items, by their index in the article's
+   * enhancementDetails. A null decision clears an earlier one. Any merged
+   * final content is discarded, since it no longer matches the decisions.
+   *
+   * @param apiKey - Key making the decisions, recorded as `decidedBy`
+   * @returns The article with its updated decisions
+   * @throws AppError 400 if the article is an original or an index is out of
+   *   range
+   * @throws AppError 404 if article not found
+   * @throws AppError 409 if the article is past review
+   */
+  async save(
+    articleId: string,
+    input: SaveDecisionsInput,
+    apiKey: Pick<ApiKey, "name">
+  ) {
+    const article = await this.findReviewable(articleId);
+    const count = article.enhancementDetails?.length ?? 0;
+    const outOfRange = input.decisions.find((d) => d.index >= count);
+
+    if (outOfRange) {
+      throw new AppError(
+        400,
+        `No enhancement detail at index ${outOfRange.index}`
+      );
+    }
+
+    await prisma.$transaction([
+      ...input.decisions.map(({ index, decision, note }) =>
+        decision === null
+          ? prisma.enhancementDecision.deleteMany({
+              where: { articleId, detailIndex: index },
+            })
+          : prisma.enhancementDecision.upsert({
+              where: {
+                articleId_detailIndex: { articleId, detailIndex: index },
+              },
+              create: {
+                articleId,
+                detailIndex: index,
+                decision,
+                note,
+                decidedBy: apiKey.name,
+              },
+              update: { decision, note: note ?? null, decidedBy: apiKey.name },
+            })
+      ),
+      prisma.article.update({
+        where: { id: articleId },
+        data: { finalContent: null, finalContentAt: null },
+      }),
+    ]);
+
+    return articleService.findById(articleId, { includeUnpublished: true });
+  }
+
+  /**
+   * Rebuilds the final article from the original revision the enhancement
+   * was made from plus only the accepted changes, and stores it as
+   * `finalContent`. Undecided changes count as rejected.
+   *
+   * @returns The article, and which accepted changes were (not) applied
+   * @throws AppError 400 if the article is an original
+   * @throws AppError 404 if the article or its original is not found
+   * @throws AppError 409 if the article is past review
+   */
+  async merge(articleId: string) {
+    const article = await this.findReviewable(articleId);
+    const original = await this.originalContent(article);
+
+    const accepted = article.enhancementDecisions
+      .filter((d) => d.decision === "accepted")
+      .map((d) => d.detailIndex);
+
+    const { content, applied, unapplied } = mergeAcceptedChanges(
+      original,
+      article.content,
+      article.enhancementDetails ?? [],
+      accepted
+    );
+
+    await prisma.article.update({
+      where: { id: articleId },
+      data: { finalContent: sanitizeHtml(content), finalContentAt: new Date() },
+    });
+
+    return {
+      article: await articleService.findById(articleId, {
+        includeUnpublished: true,
+      }),
+      applied,
+      unapplied,
+    };
+  }
+
+  /**
+   * Finds an enhanced article whose decisions may still change.
+   * @throws AppError 400, 404 or 409 as for `save`
+   */
+  private async findReviewable(articleId: string) {
+    const article = await articleService.findById(articleId, {
+      includeUnpublished: true,
+    });
+
+    if (!article.isEnhanced) {
+      throw new AppError(400, "Only enhanced versions have changes to review");
+    }
+
+    if (!EDITABLE_STATUSES.includes(article.status)) {
+      throw new AppError(
+        409,
+        `Changes can't be reviewed once an article is ${article.status}`
+      );
+    }
+
+    return article;
+  }
+
+  /**
+   * Content of the original revision the enhancement was built from, or the
+   * original's current content for revisions predating revision history.
+   * @throws AppError 404 if the original is not found
+   */
+  private async originalContent(article: ReviewedArticle) {
+    if (!article.original) {
+      throw new AppError(404, "Original article not found");
+    }
+
+    const revision =
+      article.originalRevision &&
+      (await prisma.articleRevision.findUnique({
+        where: {
+          articleId_revision: {
+            articleId: article.original.id,
+            revision: article.originalRevision,
+          },
+        },
+        select: { content: true },
+      }));
+
+    return revision ? revision.content : article.original.content;
+  }
+}
+
+/** Singleton instance of EnhancementDecisionService */
+export const enhancementDecisionService = new EnhancementDecisionService();
@@ -0,0 +1,393 @@
+import { setTimeout as sleep } from "timers/promises";
+import { Prisma, type EnhancementJob } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { AppError } from "../middleware/error.middleware.js";
+import type {
+  EnqueueJobsInput,
+  JobProgress,
+  ListJobsQuery,
+} from "../schemas/enhancement-job.schema.js";
+
+/** Longest error message kept on a job */
+const MAX_ERROR_LENGTH = 2000;
+
+/** Retry delays after failures, in ms */
+export interface BackoffOptions {
+  /** Delay after the first failure; doubled after each further failure */
+  baseMs: number;
+  /** Upper bound on the delay */
+  maxMs: number;
+}
+
+function readMs(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Service for the enhancement job queue.
+ *
+ * Workers claim the oldest runnable job with `FOR UPDATE SKIP LOCKED`, so
+ * several can run side by side without taking the same job. A claim is a
+ * lease: the worker extends it with heartbeats, and a job whose lease ran
+ * out (because its worker crashed or was killed) is claimed again.
+ * Failed attempts are retried with exponential backoff until `maxAttempts`.
+ */
+export class EnhancementJobService {
+  /**
+   * @param backoff - Retry delays; defaults to JOB_RETRY_BASE_MS and
+   *   JOB_RETRY_MAX_MS (read when used, so .env is loaded by then)
+   */
+  constructor(private backoff?: BackoffOptions) {}
+
+  /**
+   * Queues jobs for original articles. Articles that already have a queued
+   * or running job are skipped. Workers skip articles already enhanced with
+   * the same inputs (see ArticleService.create), unless the job is forced.
+   *
+   * @throws AppError 404 if an article is not found
+   * @throws AppError 400 if an article is itself an enhanced version
+   */
+  async enqueue(input: EnqueueJobsInput) {
+    const articles = input.all
+      ? await prisma.article.findMany({
+          where: { isEnhanced: false },
+          select: { id: true, isEnhanced: true },
+          orderBy: { createdAt: "asc" },
+        })
+      : await prisma.article.findMany({
+          where: { id: { in: input.articleIds } },
+          select: { id: true, isEnhanced: true },
+        });
+
+    if (input.articleIds) {
+      const found = new Set(articles.map((a) => a.id));
+      const missing = input.articleIds.find((id) => !found.has(id));
+
+      if (missing) {
+        throw new AppError(404, `Article ${missing} not found`);
+      }
+      if (articles.some((a) => a.isEnhanced)) {
+        throw new AppError(400, "Only original articles can be enhanced");
+      }
+    }
+
+    const active = await prisma.enhancementJob.findMany({
+      where: {
+        articleId: { in: articles.map((a) => a.id) },
+        status: { in: ["queued", "running"] },
+      },
+      select: { articleId: true },
+    });
+    const busy = new Set(active.map((job) => job.articleId));
+
+    // Jobs queued since the lookup hit the partial unique index on active
+    // jobs, and are skipped too
+    const jobs = await prisma.enhancementJob.createManyAndReturn({
+      data: articles
+        .filter((article) => !busy.has(article.id))
+        .map((article) => ({
+          articleId: article.id,
+          maxAttempts: input.maxAttempts,
+          force: input.force,
+        })),
+      skipDuplicates: true,
+    });
+
+    return { jobs, skipped: articles.length - jobs.length };
+  }
+
+  /**
+   * Queues a job for one original, or returns its queued or running job.
+   * @returns The job, and whether it was newly queued
+   * @throws AppError 404 if the article is not found
+   * @throws AppError 400 if the article is itself an enhanced version
+   */
+  async enqueueForArticle(articleId: string, force = false) {
+    const article = await prisma.article.findUnique({
+      where: { id: articleId },
+      select: { isEnhanced: true },
+    });
+
+    if (!article) {
+      throw new AppError(404, "Article not found");
+    }
+    if (article.isEnhanced) {
+      throw new AppError(400, "Only original articles can be enhanced");
+    }
+
+    const active = await this.findActive(articleId);
+    if (active) {
+      return { job: active, created: false };
+    }
+
+    try {
+      const job = await prisma.enhancementJob.create({
+        data: { articleId, force },
+      });
+
+      return { job, created: true };
+    } catch (error) {
+      // Another request queued the article since the lookup
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        const job = await this.findActive(articleId);
+        if (job) return { job, created: false };
+      }
+      throw error;
+    }
+  }
+
+  /** Lists jobs, newest first, with pagination */
+  async findAll(query: ListJobsQuery) {
+    const { page, limit, status, articleId } = query;
+    const where: Prisma.EnhancementJobWhereInput = { status, articleId };
+
+    const [jobs, total] = await Promise.all([
+      prisma.enhancementJob.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: { article: { select: { id: true, title: true } } },
+      }),
+      prisma.enhancementJob.count({ where }),
+    ]);
+
+    return {
+      jobs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Finds a single job by ID.
+   * @throws AppError 404 if job not found
+   */
+  async findById(id: string) {
+    const job = await prisma.enhancementJob.findUnique({
+      where: { id },
+      include: { article: { select: { id: true, title: true } } },
+    });
+
+    if (!job) {
+      throw new AppError(404, "Job not found");
+    }
+
+    return job;
+  }
+
+  /**
+   * Claims the next runnable job for a worker: a queued job whose `runAfter`
+   * has passed, or a running job whose lease expired. Jobs whose lease
+   * expired on their last attempt are marked failed instead.
+   *
+   * @returns The claimed job with its article, or null if none is runnable
+   */
+  async claim(workerId: string, leaseMs: number) {
+    const now = new Date();
+
+    return prisma.$transaction(async (tx) => {
+      await tx.enhancementJob.updateMany({
+        where: {
+          status: "running",
+          lockedUntil: { lt: now },
+          attempts: { gte: prisma.enhancementJob.fields.maxAttempts },
+        },
+        data: {
+          status: "failed",
+          lastError: "Worker lease expired on the final attempt",
+          lockedBy: null,
+          lockedUntil: null,
+          finishedAt: now,
+        },
+      });
+
+      const [next] = await tx.$queryRaw<
+        Array<Pick<EnhancementJob, "id" | "status" | "lockedBy">>
+      >`
+        SELECT id, status, "lockedBy"
+        FROM "EnhancementJob"
+        WHERE (status = 'queued' AND "runAfter" <= ${now})
+           OR (status = 'running' AND "lockedUntil" < ${now})
+        ORDER BY "runAfter", "createdAt"
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      `;
+
+      if (!next) {
+        return null;
+      }
+
+      return tx.enhancementJob.update({
+        where: { id: next.id },
+        data: {
+          status: "running",
+          attempts: { increment: 1 },
+          lockedBy: workerId,
+          lockedUntil: new Date(now.getTime() + leaseMs),
+          startedAt: now,
+          progress: Prisma.DbNull,
+          // A reclaimed job's previous worker never reported back
+          ...(next.status === "running" && {
+            lastError: `Lease held by ${next.lockedBy} expired`,
+          }),
+        },
+        include: { article: true },
+      });
+    });
+  }
+
+  /**
+   * Extends a worker's lease on a running job.
+   * @throws AppError 404 if job not found
+   * @throws AppError 409 if the worker no longer holds the job
+   */
+  async heartbeat(id: string, workerId: string, leaseMs: number) {
+    return this.updateHeld(id, workerId, {
+      lockedUntil: new Date(Date.now() + leaseMs),
+    });
+  }
+
+  /**
+   * Records the latest progress reported by the worker holding a job.
+   * @throws AppError 404 if job not found
+   * @throws AppError 409 if the worker no longer holds the job
+   */
+  async reportProgress(id: string, workerId: string, progress: JobProgress) {
+    return this.updateHeld(id, workerId, { progress });
+  }
+
+  /**
+   * Follows a job by polling it, yielding it whenever it changes.
+   * Ends once the job succeeds or fails, or when `signal` is aborted.
+   * @throws AppError 404 if the job is not found (or is deleted meanwhile)
+   */
+  async *watch(id: string, signal: AbortSignal, intervalMs = 1000) {
+    let lastUpdated = 0;
+
+    while (!signal.aborted) {
+      const job = await this.findById(id);
+
+      if (job.updatedAt.getTime() !== lastUpdated) {
+        lastUpdated = job.updatedAt.getTime();
+        yield job;
+      }
+
+      if (job.status === "succeeded" || job.status === "failed") {
+        return;
+      }
+
+      try {
+        await sleep(intervalMs, undefined, { signal });
+      } catch {
+        return; // aborted
+      }
+    }
+  }
+
+  /**
+   * Marks a running job as succeeded.
+   * @throws AppError 404 if job not found
+   * @throws AppError 409 if the worker no longer holds the job
+   */
+  async complete(id: string, workerId: string, resultArticleId?: string) {
+    return this.updateHeld(id, workerId, {
+      status: "succeeded",
+      resultArticleId,
+      lastError: null,
+      lockedBy: null,
+      lockedUntil: null,
+      finishedAt: new Date(),
+    });
+  }
+
+  /**
+   * Records a failed attempt. The job is queued again after a backoff delay,
+   * or marked failed once it has used all its attempts.
+   * @throws AppError 404 if job not found
+   * @throws AppError 409 if the worker no longer holds the job
+   */
+  async fail(id: string, workerId: string, error: string) {
+    const job = await this.assertHeldBy(id, workerId);
+    const lastError = error.slice(0, MAX_ERROR_LENGTH);
+    const released = { lockedBy: null, lockedUntil: null };
+
+    if (job.attempts >= job.maxAttempts) {
+      return this.updateHeld(id, workerId, {
+        status: "failed",
+        lastError,
+        finishedAt: new Date(),
+        ...released,
+      });
+    }
+
+    return this.updateHeld(id, workerId, {
+      status: "queued",
+      lastError,
+      runAfter: new Date(Date.now() + this.retryDelay(job.attempts)),
+      ...released,
+    });
+  }
+
+  /** Delay before retrying after the given number of failed attempts */
+  retryDelay(attempts: number): number {
+    const { baseMs, maxMs } = this.backoff ?? {
+      baseMs: readMs(process.env.JOB_RETRY_BASE_MS, 60_000),
+      maxMs: readMs(process.env.JOB_RETRY_MAX_MS, 60 * 60 * 1000),
+    };
+    return Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), maxMs);
+  }
+
+  /** The queued or running job of an article, if any */
+  private findActive(articleId: string) {
+    return prisma.enhancementJob.findFirst({
+      where: { articleId, status: { in: ["queued", "running"] } },
+    });
+  }
+
+  /**
+   * Updates a job only while the worker still holds it, so a worker whose
+   * lease was taken over cannot overwrite the new holder's progress.
+   */
+  private async updateHeld(
+    id: string,
+    workerId: string,
+    data: Prisma.EnhancementJobUpdateManyMutationInput
+  ) {
+    const { count } = await prisma.enhancementJob.updateMany({
+      where: { id, status: "running", lockedBy: workerId },
+      data,
+    });
+
+    if (count === 0) {
+      await this.assertHeldBy(id, workerId);
+    }
+
+    return prisma.enhancementJob.findUniqueOrThrow({ where: { id } });
+  }
+
+  private async assertHeldBy(id: string, workerId: string) {
+    const job = await prisma.enhancementJob.findUnique({ where: { id } });
+
+    if (!job) {
+      throw new AppError(404, "Job not found");
+    }
+
+    if (job.status !== "running" || job.lockedBy !== workerId) {
+      throw new AppError(409, "Job is not held by this worker");
+    }
+
+    return job;
+  }
+}
+
+/** Singleton instance of EnhancementJobService */
+export const enhancementJobService = new EnhancementJobService();
@@ -0,0 +1,202 @@
+import type {
+  ApiKey,
+  ApiKeyRole,
+  ArticleStatus,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { similarityOptions } from "../lib/similarity.js";
+import {
+  enhancementMetadataSchema,
+  type UpdateStatusInput,
+} from "../schemas/article.schema.js";
+import { AppError } from "../middleware/error.middleware.js";
+import { apiKeyService } from "./api-key.service.js";
+import { articleService } from "./article.service.js";
+
+/**
+ * Allowed status changes for enhanced articles, and the role each needs.
+ * Editors submit drafts and rework rejected ones; reviewers decide and
+ * publish (or unpublish, back to approved).
+ */
+const TRANSITIONS: Record<
+  ArticleStatus,
+  Partial<Record<ArticleStatus, ApiKeyRole>>
+> = {
+  draft: { in_review: "editor" },
+  in_review: { draft: "editor", approved: "reviewer", rejected: "reviewer" },
+  approved: { published: "reviewer", in_review: "reviewer" },
+  rejected: { draft: "editor" },
+  published: { approved: "reviewer" },
+};
+
+/**
+ * Refuses to publish a version whose copied-text report exceeds the server's
+ * threshold, or that has no report (enhanced before the check existed, or
+ * created or edited without competitor sources to measure against).
+ * @throws AppError 409 if the version copies too much from a source
+ */
+function assertNotCopied(metadata: unknown) {
+  const parsed = enhancementMetadataSchema.safeParse(metadata);
+  const similarity = parsed.success ? parsed.data.similarity : undefined;
+
+  if (!similarity) {
+    throw new AppError(
+      409,
+      "This version hasn't been checked for copied text; " +
+        "enhance the original again instead"
+    );
+  }
+
+  const { threshold } = similarityOptions();
+
+  if (similarity.maxSourceOverlap > threshold) {
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+    throw new AppError(
+      409,
+      `${percent(similarity.maxSourceOverlap)} of this version matches a ` +
+        `competitor source (limit ${percent(threshold)}); ` +
+        "enhance the original again instead"
+    );
+  }
+}
+
+/**
+ * Service for the review workflow of enhanced articles:
+ * draft → in_review → approved/rejected → published.
+ */
+export class ReviewService {
+  /** Statuses an article can move to from `status`, with the role needed */
+  nextStatuses(status: ArticleStatus) {
+    return TRANSITIONS[status];
+  }
+
+  /**
+   * Moves an enhanced article to a new status, recording who did it and
+   * when. Notes are kept as the article's reviewer notes. Publishing a
+   * version whose final article was built from the accepted changes makes
+   * that its content, as a new revision.
+   *
+   * @param apiKey - Key making the change; its role must allow the move
+   * @returns The updated article
+   * @throws AppError 400 if the article is an original, or notes are missing
+   *   when rejecting
+   * @throws AppError 403 if the key's role doesn't allow the move
+   * @throws AppError 404 if article not found
+   * @throws AppError 409 if the move isn't allowed from the current status,
+   *   the article has decided changes but no final article, or copies too
+   *   much from a source to be published, or the status changed
+   *   concurrently
+   */
+  async transition(
+    id: string,
+    input: UpdateStatusInput,
+    apiKey: Pick<ApiKey, "name" | "role">
+  ) {
+    const article = await prisma.article.findUnique({
+      where: { id },
+      select: {
+        status: true,
+        isEnhanced: true,
+        enhancementMetadata: true,
+        finalContent: true,
+        _count: { select: { enhancementDecisions: true } },
+      },
+    });
+
+    if (!article) {
+      throw new AppError(404, "Article not found");
+    }
+
+    if (!article.isEnhanced) {
+      throw new AppError(400, "Only enhanced versions go through review");
+    }
+
+    const required = TRANSITIONS[article.status][input.status];
+
+    if (!required) {
+      throw new AppError(
+        409,
+        `Cannot move an article from ${article.status} to ${input.status}`
+      );
+    }
+
+    if (!apiKeyService.hasRole(apiKey.role, required)) {
+      throw new AppError(
+        403,
+        `Moving an article to ${input.status} requires the ${required} role`
+      );
+    }
+
+    if (input.status === "rejected" && !input.notes) {
+      throw new AppError(400, "Notes are required when rejecting an article");
+    }
+
+    // Decided changes only take effect through the final article; without
+    // it the full enhanced content, rejected changes included, would go out
+    if (
+      input.status === "published" &&
+      article._count.enhancementDecisions > 0 &&
+      !article.finalContent
+    ) {
+      throw new AppError(
+        409,
+        "Build the final article from the accepted changes before " +
+          "publishing; move the version back to review to do so"
+      );
+    }
+
+    const merged =
+      input.status === "published"
+        ? await articleService.finalContentUpdate(id)
+        : null;
+
+    if (input.status === "published") {
+      assertNotCopied(
+        merged ? merged.enhancementMetadata : article.enhancementMetadata
+      );
+    }
+
+    const now = new Date();
+    const data: Prisma.ArticleUpdateManyMutationInput = {
+      status: input.status,
+      statusChangedAt: now,
+      ...(input.notes !== undefined && { reviewNotes: input.notes }),
+    };
+
+    if (input.status === "in_review") {
+      data.submittedAt = now;
+    } else if (input.status === "approved" || input.status === "rejected") {
+      data.reviewedAt = now;
+      data.reviewedBy = apiKey.name;
+      data.reviewNotes = input.notes ?? null;
+    } else if (input.status === "published") {
+      data.releasedAt = now;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Only move from the status checked above, in case of a concurrent
+      // change
+      const { count } = await tx.article.updateMany({
+        where: { id, status: article.status },
+        data,
+      });
+
+      if (count === 0) {
+        throw new AppError(
+          409,
+          "Article status changed; reload and try again"
+        );
+      }
+
+      if (merged) {
+        await tx.article.update({ where: { id }, data: merged });
+      }
+    });
+
+    return articleService.findById(id, { includeUnpublished: true });
+  }
+}
+
+/** Singleton instance of ReviewService */
+export const reviewService = new ReviewService();
@@ -0,0 +1,155 @@
+import type { Article, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { hashArticleContent } from "../lib/hash.js";
+import { AppError } from "../middleware/error.middleware.js";
+import type { VisibilityOptions } from "./article.service.js";
+
+/** Versioned fields of an article */
+export interface RevisionContent {
+  title: string;
+  content: string;
+  excerpt?: string | null;
+}
+
+/**
+ * Service for article revision history.
+ * The Article row always holds the latest revision; every revision,
+ * including the latest, is also stored as an ArticleRevision row.
+ */
+export class RevisionService {
+  /**
+   * Builds the fields for a brand-new article: its hash and revision 1.
+   * Spread into `prisma.article.create({ data })`.
+   */
+  initialRevision(content: RevisionContent) {
+    const contentHash = hashArticleContent(content);
+
+    return {
+      revision: 1,
+      contentHash,
+      revisions: {
+        create: {
+          revision: 1,
+          title: content.title,
+          content: content.content,
+          excerpt: content.excerpt,
+          contentHash,
+        },
+      },
+    } satisfies Partial<Prisma.ArticleUncheckedCreateInput>;
+  }
+
+  /**
+   * Builds the fields for updating an article to new content.
+   * Returns null when the content is unchanged, otherwise the next revision
+   * number and hash plus a new revision row. Articles created before revision
+   * tracking also get their current content stored as a baseline revision.
+   */
+  async nextRevision(
+    current: Pick<
+      Article,
+      "id" | "revision" | "title" | "content" | "excerpt" | "contentHash"
+    >,
+    next: RevisionContent
+  ): Promise<Prisma.ArticleUncheckedUpdateInput | null> {
+    const contentHash = hashArticleContent(next);
+
+    if (contentHash === current.contentHash) {
+      return null;
+    }
+
+    const existing = await prisma.articleRevision.count({
+      where: { articleId: current.id },
+    });
+
+    const rows: Prisma.ArticleRevisionCreateManyArticleInput[] = [];
+
+    if (existing === 0) {
+      rows.push({
+        revision: current.revision,
+        title: current.title,
+        content: current.content,
+        excerpt: current.excerpt,
+        contentHash: current.contentHash ?? hashArticleContent(current),
+      });
+    }
+
+    // Legacy rows have no hash yet; if the content matches, just backfill it
+    if (!current.contentHash && contentHash === hashArticleContent(current)) {
+      return { contentHash, revisions: { create: rows } };
+    }
+
+    const revision = current.revision + 1;
+    rows.push({
+      revision,
+      title: next.title,
+      content: next.content,
+      excerpt: next.excerpt,
+      contentHash,
+    });
+
+    return { revision, contentHash, revisions: { create: rows } };
+  }
+
+  /**
+   * Lists an article's revisions, newest first (without content).
+   * Unpublished articles are hidden unless `includeUnpublished`.
+   * @throws AppError 404 if article not found
+   */
+  async findAll(articleId: string, options: VisibilityOptions = {}) {
+    await this.assertArticleVisible(articleId, options);
+
+    return prisma.articleRevision.findMany({
+      where: { articleId },
+      orderBy: { revision: "desc" },
+      select: {
+        id: true,
+        revision: true,
+        title: true,
+        excerpt: true,
+        contentHash: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  /**
+   * Retrieves one revision of an article, including its content.
+   * Unpublished articles are hidden unless `includeUnpublished`.
+   * @throws AppError 404 if article or revision not found
+   */
+  async findOne(
+    articleId: string,
+    revision: number,
+    options: VisibilityOptions = {}
+  ) {
+    await this.assertArticleVisible(articleId, options);
+
+    const row = await prisma.articleRevision.findUnique({
+      where: { articleId_revision: { articleId, revision } },
+    });
+
+    if (!row) {
+      throw new AppError(404, "Revision not found");
+    }
+
+    return row;
+  }
+
+  private async assertArticleVisible(id: string, options: VisibilityOptions) {
+    const article = await prisma.article.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
+    if (
+      !article ||
+      (!options.includeUnpublished && article.status !== "published")
+    ) {
+      throw new AppError(404, "Article not found");
+    }
+  }
+}
+
+/** Singleton instance of RevisionService */
+export const revisionService = new RevisionService();
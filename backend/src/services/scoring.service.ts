@@ -0,0 +1,79 @@
+import {
+  keywordCoverage,
+  scoreContent,
+  type QualityScore,
+} from "../lib/scoring.js";
+import { htmlToText } from "../lib/html.js";
+import { AppError } from "../middleware/error.middleware.js";
+import { enhancementMetadataSchema } from "../schemas/article.schema.js";
+import { articleService, type VisibilityOptions } from "./article.service.js";
+
+/** The columns a score is read from, or computed from if missing */
+type Scored = {
+  content: string;
+  contentText: string | null;
+  sourceUrl: string;
+  qualityScore: unknown;
+};
+
+/**
+ * Service for content quality and SEO scores (see lib/scoring.ts).
+ */
+export class ScoringService {
+  /**
+   * Scores an enhanced version against its original, before and after.
+   * Stored scores are used where present; both sides get their keyword
+   * coverage measured against the version's competitor keywords.
+   *
+   * @returns The keywords and both versions' ids, titles and scores
+   * @throws AppError 400 if the article is not an enhanced version
+   * @throws AppError 404 if the article or its original is not found
+   */
+  async scorecard(id: string, options: VisibilityOptions = {}) {
+    const article = await articleService.findById(id, options);
+
+    if (!article.isEnhanced) {
+      throw new AppError(400, "Only enhanced versions have a scorecard");
+    }
+    if (!article.original) {
+      throw new AppError(404, "Original article not found");
+    }
+
+    const metadata = enhancementMetadataSchema.safeParse(
+      article.enhancementMetadata
+    );
+    const keywords = (metadata.success && metadata.data.keywords) || [];
+
+    const scoreOf = (scored: Scored): QualityScore => {
+      const score =
+        (scored.qualityScore as QualityScore | null) ??
+        scoreContent(scored.content, { sourceUrl: scored.sourceUrl });
+
+      return {
+        ...score,
+        keywordCoverage: keywordCoverage(
+          scored.contentText ?? htmlToText(scored.content),
+          keywords
+        ),
+      };
+    };
+
+    return {
+      keywords,
+      original: {
+        id: article.original.id,
+        title: article.original.title,
+        score: scoreOf(article.original),
+      },
+      enhanced: {
+        id: article.id,
+        title: article.title,
+        version: article.version,
+        score: scoreOf(article),
+      },
+    };
+  }
+}
+
+/** Singleton instance of ScoringService */
+export const scoringService = new ScoringService();
@@ -1,133 +1,485 @@
 import axios from "axios";
 import * as cheerio from "cheerio";
+import type { Source } from "@prisma/client";
+import type { SourceSelectors } from "../schemas/source.schema.js";
+import { htmlToText, sanitizeHtml } from "../lib/html.js";
+import { sourceService } from "./source.service.js";
 
 /** Scraped article data structure */
 export interface ScrapedArticle {
   title: string;
+  /** Cleaned, sanitized article HTML */
   content: string;
+  /** Plain-text version of the content */
+  contentText: string;
   excerpt: string;
   author: string;
   publishedAt: Date;
   sourceUrl: string;
   tags: string[];
+  sourceId: string | null;
+  /** HTTP validators, stored for conditional re-scrapes */
+  etag?: string;
+  lastModified?: string;
 }
 
-/** Target articles to scrape from BeyondChats blog (5 oldest) */
-const TARGET_ARTICLES = [
-  {
-    url: "https://beyondchats.com/blogs/introduction-to-chatbots/",
-    publishedAt: new Date("2023-12-05"),
-  },
-  {
-    url: "https://beyondchats.com/blogs/live-chatbot/",
-    publishedAt: new Date("2023-12-06"),
-  },
-  {
-    url: "https://beyondchats.com/blogs/virtual-assistant/",
-    publishedAt: new Date("2023-12-07"),
-  },
-  {
-    url: "https://beyondchats.com/blogs/chatbots-for-small-business-growth/",
-    publishedAt: new Date("2023-12-08"),
-  },
-  {
-    url: "https://beyondchats.com/blogs/lead-generation-chatbots/",
-    publishedAt: new Date("2023-12-08"),
-  },
+/** HTTP validators from a previous fetch of the same URL */
+export interface CacheValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+/** Response body plus the validators the server sent with it */
+interface FetchedPage {
+  body: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/** An article URL found in a source's sitemap or feed */
+export interface DiscoveredArticle {
+  url: string;
+  /** Publish date reported by the feed, if any */
+  publishedAt?: Date;
+  /** Sitemap <lastmod>, used only when nothing better is available */
+  lastModified?: Date;
+}
+
+/** Options for scraping a single article page */
+export interface ScrapeOptions {
+  selectors?: SourceSelectors;
+  /** Hints from discovery, used when the page has no date of its own */
+  discovered?: DiscoveredArticle;
+  sourceId: string | null;
+}
+
+/** Nested sitemap indexes deeper than this are ignored */
+const MAX_SITEMAP_DEPTH = 3;
+
+/** Safety cap on feed pages followed per source */
+const MAX_FEED_PAGES = 50;
+
+/** Content selectors tried in order when a source has no override */
+const DEFAULT_CONTENT_SELECTORS = [
+  "article .entry-content",
+  "article .post-content",
+  ".blog-content",
+  "article .content",
+  ".elementor-widget-theme-post-content",
+  "article",
 ];
 
+/** Parses a date string, returning undefined for missing or invalid input */
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
 /**
- * Service for scraping articles from BeyondChats blog.
- * Uses Axios for HTTP requests and Cheerio for HTML parsing.
+ * Searches parsed JSON-LD for the first `datePublished` value.
+ * Handles top-level arrays and `@graph` containers.
  */
-export class ScraperService {
-  private baseUrl = "https://beyondchats.com";
+function findJsonLdDate(node: unknown): string | undefined {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findJsonLdDate(item);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  if (node && typeof node === "object") {
+    const record = node as Record<string, unknown>;
+    if (typeof record.datePublished === "string") return record.datePublished;
+    if (record["@graph"]) return findJsonLdDate(record["@graph"]);
+  }
 
+  return undefined;
+}
+
+/**
+ * Service for discovering and scraping articles from registered sources.
+ * Discovery walks each source's sitemap and/or RSS/Atom feed; scraping uses
+ * Axios for HTTP requests and Cheerio for HTML parsing.
+ */
+export class ScraperService {
   /** Helper to add delay between requests (rate limiting) */
   private async delay(ms: number) {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
   /**
-   * Fetches raw HTML content from a URL.
+   * Fetches a URL, optionally as a conditional request.
    * @param url - URL to fetch
-   * @returns HTML string
+   * @param accept - Accept header (HTML by default, XML for sitemaps/feeds)
+   * @param validators - ETag/Last-Modified from a previous fetch
+   * @returns Page body and validators, or null if the server replied 304
    */
-  private async fetchHtml(url: string): Promise<string> {
+  private async fetchPage(
+    url: string,
+    accept = "text/html,application/xhtml+xml",
+    validators: CacheValidators = {}
+  ): Promise<FetchedPage | null> {
+    const headers: Record<string, string> = {
+      "User-Agent":
+        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
+      Accept: accept,
+    };
+    if (validators.etag) headers["If-None-Match"] = validators.etag;
+    if (validators.lastModified) {
+      headers["If-Modified-Since"] = validators.lastModified;
+    }
+
     try {
       const response = await axios.get(url, {
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
-        },
+        headers,
         timeout: 10000,
+        responseType: "text",
+        validateStatus: (status) =>
+          (status >= 200 && status < 300) || status === 304,
       });
-      return response.data;
+
+      if (response.status === 304) return null;
+
+      return {
+        body: response.data,
+        etag: response.headers["etag"] || undefined,
+        lastModified: response.headers["last-modified"] || undefined,
+      };
     } catch (error) {
       console.error(`Failed to fetch ${url}:`, error);
       throw new Error(`Failed to fetch ${url}`);
     }
   }
 
+  /** Fetches a URL unconditionally and returns the response body */
+  private async fetchText(url: string, accept?: string): Promise<string> {
+    const page = await this.fetchPage(url, accept);
+    return page!.body;
+  }
+
+  /**
+   * Finds every article URL a source publishes.
+   * Combines sitemap and feed results; feed dates take precedence.
+   * @param source - Registered source to discover from
+   * @returns Discovered articles on the source's host, deduplicated by URL
+   */
+  async discoverArticles(source: Source): Promise<DiscoveredArticle[]> {
+    const found = new Map<string, DiscoveredArticle>();
+
+    if (source.sitemapUrl) {
+      for (const item of await this.discoverFromSitemap(source.sitemapUrl)) {
+        found.set(item.url, item);
+      }
+    }
+
+    if (source.feedUrl) {
+      for (const item of await this.discoverFromFeed(source.feedUrl)) {
+        found.set(item.url, { ...found.get(item.url), ...item });
+      }
+    }
+
+    const host = new URL(source.baseUrl).host;
+    const include = source.includePattern
+      ? new RegExp(source.includePattern)
+      : null;
+
+    return [...found.values()].filter((item) => {
+      try {
+        const url = new URL(item.url);
+        return url.host === host && (!include || include.test(url.pathname));
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Reads a sitemap, following sitemap indexes into their child sitemaps.
+   * Large sites split their sitemaps into pages this way.
+   */
+  private async discoverFromSitemap(
+    sitemapUrl: string,
+    depth = 0,
+    visited = new Set<string>()
+  ): Promise<DiscoveredArticle[]> {
+    if (depth > MAX_SITEMAP_DEPTH || visited.has(sitemapUrl)) return [];
+    visited.add(sitemapUrl);
+
+    console.log(`🗺️  Reading sitemap: ${sitemapUrl}`);
+
+    let xml: string;
+    try {
+      xml = await this.fetchText(sitemapUrl, "application/xml,text/xml");
+    } catch {
+      return [];
+    }
+
+    const $ = cheerio.load(xml, { xml: true });
+
+    // Sitemap index: recurse into each child sitemap
+    const children = $("sitemapindex > sitemap > loc")
+      .map((_, el) => $(el).text().trim())
+      .get()
+      .filter(Boolean);
+
+    if (children.length > 0) {
+      const results: DiscoveredArticle[] = [];
+      for (const child of children) {
+        results.push(
+          ...(await this.discoverFromSitemap(child, depth + 1, visited))
+        );
+        await this.delay(500);
+      }
+      return results;
+    }
+
+    return $("urlset > url")
+      .map((_, el) => ({
+        url: $(el).children("loc").text().trim(),
+        lastModified: parseDate($(el).children("lastmod").text()),
+      }))
+      .get()
+      .filter((item) => item.url);
+  }
+
+  /**
+   * Reads an RSS or Atom feed, paging through older entries.
+   * Follows `rel="next"` links when the feed provides them, otherwise tries
+   * WordPress-style `?paged=N` pages until one adds nothing new.
+   */
+  private async discoverFromFeed(
+    feedUrl: string
+  ): Promise<DiscoveredArticle[]> {
+    const found = new Map<string, DiscoveredArticle>();
+    let pageUrl: string | null = feedUrl;
+
+    for (let page = 1; pageUrl && page <= MAX_FEED_PAGES; page++) {
+      console.log(`📰 Reading feed page ${page}: ${pageUrl}`);
+
+      let xml: string;
+      try {
+        xml = await this.fetchText(
+          pageUrl,
+          "application/rss+xml,application/atom+xml,application/xml"
+        );
+      } catch {
+        // Paging past the last page usually ends in a 404
+        break;
+      }
+
+      const $ = cheerio.load(xml, { xml: true });
+      const items = this.parseFeed($, pageUrl).filter(
+        (item) => !found.has(item.url)
+      );
+
+      if (items.length === 0) break;
+      items.forEach((item) => found.set(item.url, item));
+
+      const next = $('link[rel="next"], atom\\:link[rel="next"]').attr("href");
+      if (next) {
+        pageUrl = new URL(next, pageUrl).href;
+      } else {
+        const paged = new URL(feedUrl);
+        paged.searchParams.set("paged", String(page + 1));
+        pageUrl = paged.href;
+      }
+
+      await this.delay(500);
+    }
+
+    return [...found.values()];
+  }
+
+  /** Extracts entry links and dates from a parsed RSS or Atom document */
+  private parseFeed(
+    $: cheerio.CheerioAPI,
+    pageUrl: string
+  ): DiscoveredArticle[] {
+    const items: DiscoveredArticle[] = [];
+
+    // RSS 2.0
+    $("item").each((_, el) => {
+      const item = $(el);
+      const link =
+        item.children("link").text().trim() ||
+        item.children('guid[isPermaLink="true"]').text().trim();
+
+      if (link) {
+        items.push({
+          url: new URL(link, pageUrl).href,
+          publishedAt: parseDate(
+            item.children("pubDate").text() ||
+              item.children("dc\\:date").text()
+          ),
+        });
+      }
+    });
+
+    // Atom
+    $("entry").each((_, el) => {
+      const entry = $(el);
+      const link =
+        entry.children('link[rel="alternate"]').attr("href") ||
+        entry.children("link:not([rel])").attr("href");
+
+      if (link) {
+        items.push({
+          url: new URL(link, pageUrl).href,
+          publishedAt: parseDate(
+            entry.children("published").text() ||
+              entry.children("updated").text()
+          ),
+        });
+      }
+    });
+
+    return items;
+  }
+
+  /**
+   * Determines when an article was published.
+   * Prefers the page's own metadata, then the feed, then the sitemap.
+   */
+  private extractPublishedAt(
+    $: cheerio.CheerioAPI,
+    discovered?: DiscoveredArticle
+  ): Date {
+    const fromMeta = parseDate(
+      $('meta[property="article:published_time"]').attr("content") ||
+        $('meta[itemprop="datePublished"]').attr("content")
+    );
+    if (fromMeta) return fromMeta;
+
+    let fromJsonLd: Date | undefined;
+    $('script[type="application/ld+json"]').each((_, el) => {
+      if (fromJsonLd) return;
+      try {
+        fromJsonLd = parseDate(findJsonLdDate(JSON.parse($(el).text())));
+      } catch {
+        // Ignore malformed JSON-LD blocks
+      }
+    });
+    if (fromJsonLd) return fromJsonLd;
+
+    if (discovered?.publishedAt) return discovered.publishedAt;
+
+    const fromTime = parseDate($("time[datetime]").first().attr("datetime"));
+    if (fromTime) return fromTime;
+
+    if (discovered?.lastModified) return discovered.lastModified;
+
+    console.warn("   ⚠️ No publish date found, using current time");
+    return new Date();
+  }
+
   /**
    * Scrapes a single article page and extracts structured data.
    * @param url - Article URL to scrape
-   * @param publishedAt - Known publish date
+   * @param options - Source selectors and discovery hints
    * @returns Structured article data
    */
-  async scrapeArticle(url: string, publishedAt: Date): Promise<ScrapedArticle> {
+  async scrapeArticle(
+    url: string,
+    options: ScrapeOptions
+  ): Promise<ScrapedArticle> {
     console.log(`📄 Scraping: ${url}`);
 
-    const html = await this.fetchHtml(url);
-    const $ = cheerio.load(html);
+    const page = await this.fetchPage(url);
+    return this.extractArticle(page!, url, options);
+  }
+
+  /**
+   * Re-fetches a known article, sending its stored ETag/Last-Modified.
+   * @param url - Article URL to re-scrape
+   * @param validators - Validators stored from the previous fetch
+   * @param options - Source selectors and discovery hints
+   * @returns Fresh article data, or null if the server reports no change
+   */
+  async rescrapeArticle(
+    url: string,
+    validators: CacheValidators,
+    options: ScrapeOptions
+  ): Promise<ScrapedArticle | null> {
+    console.log(`🔁 Re-scraping: ${url}`);
+
+    const page = await this.fetchPage(url, undefined, validators);
+    return page ? this.extractArticle(page, url, options) : null;
+  }
+
+  /** Extracts structured article data from a fetched page */
+  private extractArticle(
+    page: FetchedPage,
+    url: string,
+    options: ScrapeOptions
+  ): ScrapedArticle {
+    const { selectors = {}, discovered, sourceId } = options;
+    const $ = cheerio.load(page.body);
+
+    const publishedAt = this.extractPublishedAt($, discovered);
 
-    // Extract title from h1 or page title
+    // Extract title from override, h1 or page title
     const title =
+      (selectors.title && $(selectors.title).first().text().trim()) ||
       $("h1").first().text().trim() ||
       $("article h1").text().trim() ||
       $("title").text().split("|")[0].trim();
 
-    // Extract author from author link or fallback
+    // Extract author from override, author link or fallback
     const author =
+      (selectors.author && $(selectors.author).first().text().trim()) ||
       $('a[href*="/author/"]').first().text().trim() ||
       $(".author-name").text().trim() ||
+      $('meta[name="author"]').attr("content")?.trim() ||
       "Unknown Author";
 
-    // Extract content from common article selectors
+    // Extract content from override or common article selectors,
+    // keeping its structure as cleaned HTML alongside a plain-text copy
     let content = "";
-    const contentSelectors = [
-      "article .entry-content",
-      "article .post-content",
-      ".blog-content",
-      "article .content",
-      ".elementor-widget-theme-post-content",
-      "article",
-    ];
+    let contentText = "";
+    const contentSelectors = selectors.content
+      ? [selectors.content, ...DEFAULT_CONTENT_SELECTORS]
+      : DEFAULT_CONTENT_SELECTORS;
+    const excluded = [
+      "script, style, nav, .share-buttons, .related-posts",
+      selectors.exclude,
+    ]
+      .filter(Boolean)
+      .join(", ");
 
     for (const selector of contentSelectors) {
-      const element = $(selector);
+      const element = $(selector).first();
       if (element.length) {
+        element.find(excluded).remove();
+        // The title is rendered separately, so drop its heading
         element
-          .find("script, style, nav, .share-buttons, .related-posts")
+          .find("h1")
+          .filter((_, h) => $(h).text().trim() === title)
           .remove();
-        content = element.text().trim();
-        if (content.length > 200) break;
+        content = sanitizeHtml(element.html() ?? "", url);
+        contentText = htmlToText(content);
+        if (contentText.length > 200) break;
       }
     }
 
     // Fallback: concatenate all paragraphs
-    if (content.length < 200) {
-      content = $("p")
-        .map((_, el) => $(el).text().trim())
-        .get()
-        .join("\n\n");
+    if (contentText.length < 200) {
+      content = sanitizeHtml(
+        $("p")
+          .map((_, el) => $.html(el))
+          .get()
+          .join("\n"),
+        url
+      );
+      contentText = htmlToText(content);
     }
 
-    const excerpt = content.substring(0, 200).trim() + "...";
+    const excerpt = contentText.substring(0, 200).trim() + "...";
 
-    // Extract tags from tag links
+    // Extract tags from override or tag links
     const tags: string[] = [];
-    $('a[href*="/tag/"]').each((_, el) => {
+    $(selectors.tags || 'a[href*="/tag/"]').each((_, el) => {
       const tag = $(el).text().trim();
       if (tag && !tags.includes(tag) && tag.length < 50) {
         tags.push(tag);
@@ -137,31 +489,51 @@ export class ScraperService {
     return {
       title: title || "Untitled",
       content,
+      contentText,
       excerpt,
       author,
       publishedAt,
       sourceUrl: url,
       tags: tags.slice(0, 10),
+      sourceId,
+      etag: page.etag,
+      lastModified: page.lastModified,
     };
   }
 
   /**
-   * Scrapes all target articles with rate limiting.
+   * Discovers and scrapes every new article from a source, with rate limiting.
+   * @param source - Registered source to scrape
+   * @param knownUrls - URLs already stored, which are skipped
+   * @param limit - Optional cap on articles scraped in this run
    * @returns Array of scraped article data
    */
-  async scrapeAllArticles(): Promise<ScrapedArticle[]> {
-    const articles: ScrapedArticle[] = [];
+  async scrapeSource(
+    source: Source,
+    knownUrls: Set<string>,
+    limit?: number
+  ): Promise<ScrapedArticle[]> {
+    console.log(`\n🔎 Discovering articles from ${source.name}...`);
+
+    const discovered = await this.discoverArticles(source);
+    const targets = discovered
+      .filter((item) => !knownUrls.has(item.url))
+      .slice(0, limit);
 
     console.log(
-      `\n🚀 Starting to scrape ${TARGET_ARTICLES.length} articles...\n`
+      `\n🚀 Found ${discovered.length} articles, ${targets.length} new to scrape...\n`
     );
 
-    for (const target of TARGET_ARTICLES) {
+    const selectors = sourceService.getSelectors(source);
+    const articles: ScrapedArticle[] = [];
+
+    for (const target of targets) {
       try {
-        const article = await this.scrapeArticle(
-          target.url,
-          target.publishedAt
-        );
+        const article = await this.scrapeArticle(target.url, {
+          selectors,
+          discovered: target,
+          sourceId: source.id,
+        });
         articles.push(article);
         console.log(`✅ Scraped: ${article.title.substring(0, 50)}...`);
 
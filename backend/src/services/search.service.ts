@@ -0,0 +1,156 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+
+/** Highlighted fragments returned with each search hit */
+export interface SearchHighlight {
+  title: string;
+  snippet: string;
+}
+
+/**
+ * Markers passed to ts_headline. Control characters never appear in article
+ * text, so the output can be HTML-escaped before swapping them for <mark>.
+ */
+const START_SEL = "\u0002";
+const STOP_SEL = "\u0003";
+
+const TITLE_HEADLINE_OPTIONS = `StartSel=${START_SEL}, StopSel=${STOP_SEL}, HighlightAll=true`;
+const SNIPPET_HEADLINE_OPTIONS = `StartSel=${START_SEL}, StopSel=${STOP_SEL}, MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "`;
+
+/** Splits free text into lexeme-safe words (letters and digits only) */
+function toWords(text: string): string[] {
+  return text
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Service for Postgres full-text search over articles.
+ * Matches against the weighted `searchVector` column (see prisma/sql/search.sql).
+ */
+export class SearchService {
+  /**
+   * Converts a user search string into a `to_tsquery` expression.
+   *
+   * Supported syntax:
+   * - `chatbot support` - all words must match
+   * - `"lead generation"` - phrase (words must be adjacent)
+   * - `automat*` - prefix match
+   * - `-spam` - exclude a word or phrase
+   * - `chatbot OR assistant` - either side may match
+   *
+   * @returns tsquery string, or null if the input has no searchable words
+   */
+  buildTsQuery(search: string): string | null {
+    const tokens = search.match(/-?"[^"]*"?|\S+/g) || [];
+    const clauses: string[] = [];
+    let pendingOr = false;
+
+    for (const token of tokens) {
+      if (token === "OR") {
+        pendingOr = clauses.length > 0;
+        continue;
+      }
+
+      const negated = token.startsWith("-");
+      const raw = negated ? token.slice(1) : token;
+      const isPhrase = raw.startsWith('"');
+      const isPrefix = !isPhrase && raw.endsWith("*");
+      const words = toWords(raw);
+
+      if (words.length === 0) continue;
+
+      if (isPrefix) {
+        words[words.length - 1] += ":*";
+      }
+
+      let clause = words.length > 1 ? `(${words.join(" <-> ")})` : words[0];
+      if (negated) clause = `!${clause}`;
+
+      if (pendingOr) {
+        clauses.push(`${clauses.pop()} | ${clause}`);
+        pendingOr = false;
+      } else {
+        clauses.push(clause);
+      }
+    }
+
+    if (clauses.length === 0) return null;
+
+    return clauses.map((c) => (c.includes(" | ") ? `(${c})` : c)).join(" & ");
+  }
+
+  /**
+   * SQL condition for articles of "Article" matching a tsquery (see
+   * `buildTsQuery`)
+   */
+  matchSql(tsQuery: string): Prisma.Sql {
+    return Prisma.sql`"searchVector" @@ to_tsquery('english', ${tsQuery})`;
+  }
+
+  /**
+   * SQL expression for an article's relevance to a tsquery, from 0 to 1
+   * (higher is more relevant)
+   */
+  rankSql(tsQuery: string): Prisma.Sql {
+    return Prisma.sql`ts_rank_cd("searchVector", to_tsquery('english', ${tsQuery}), 32)`;
+  }
+
+  /**
+   * Builds highlighted title and content snippets for a set of hits.
+   * Returned strings are HTML-escaped, with matches wrapped in <mark>.
+   */
+  async highlight(
+    ids: string[],
+    search: string
+  ): Promise<Map<string, SearchHighlight>> {
+    const tsQuery = this.buildTsQuery(search);
+    if (!tsQuery || ids.length === 0) return new Map();
+
+    const rows = await prisma.$queryRaw<
+      Array<{ id: string; title: string; snippet: string }>
+    >`
+      SELECT
+        "id",
+        ts_headline('english', "title", query, ${TITLE_HEADLINE_OPTIONS}) AS title,
+        ts_headline(
+          'english',
+          coalesce("excerpt", '') || ' ' ||
+            coalesce("contentText", regexp_replace("content", '<[^>]*>', ' ', 'g')),
+          query,
+          ${SNIPPET_HEADLINE_OPTIONS}
+        ) AS snippet
+      FROM "Article", to_tsquery('english', ${tsQuery}) AS query
+      WHERE "id" IN (${Prisma.join(ids)})
+    `;
+
+    return new Map(
+      rows.map((row) => [
+        row.id,
+        { title: this.toMarkup(row.title), snippet: this.toMarkup(row.snippet) },
+      ])
+    );
+  }
+
+  /** Escapes headline text and turns the selection markers into <mark> tags */
+  private toMarkup(headline: string): string {
+    return escapeHtml(headline.replace(/\s+/g, " ").trim())
+      .split(START_SEL)
+      .join("<mark>")
+      .split(STOP_SEL)
+      .join("</mark>");
+  }
+}
+
+/** Singleton instance of SearchService */
+export const searchService = new SearchService();
@@ -0,0 +1,96 @@
+import type { Source } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import {
+  sourceSelectorsSchema,
+  type CreateSourceInput,
+  type SourceSelectors,
+} from "../schemas/source.schema.js";
+import { AppError } from "../middleware/error.middleware.js";
+
+/**
+ * Service for managing the blogs the scraper pulls articles from.
+ */
+export class SourceService {
+  /**
+   * Registers a new source.
+   * @throws AppError 409 if a source with the same base URL exists
+   */
+  async create(data: CreateSourceInput) {
+    const existing = await prisma.source.findUnique({
+      where: { baseUrl: data.baseUrl },
+    });
+
+    if (existing) {
+      throw new AppError(409, "Source with this base URL already exists");
+    }
+
+    return prisma.source.create({ data });
+  }
+
+  /** Lists all sources with their article counts */
+  async findAll() {
+    return prisma.source.findMany({
+      orderBy: { createdAt: "asc" },
+      include: { _count: { select: { articles: true } } },
+    });
+  }
+
+  /** Lists sources the scraper should visit */
+  async findActive() {
+    return prisma.source.findMany({
+      where: { isActive: true },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  /**
+   * Finds a source by ID.
+   * @throws AppError 404 if source not found
+   */
+  async findById(id: string) {
+    const source = await prisma.source.findUnique({ where: { id } });
+
+    if (!source) {
+      throw new AppError(404, "Source not found");
+    }
+
+    return source;
+  }
+
+  /**
+   * Enables or disables a source without deleting it.
+   * @throws AppError 404 if source not found
+   */
+  async setActive(id: string, isActive: boolean) {
+    await this.findById(id);
+
+    return prisma.source.update({ where: { id }, data: { isActive } });
+  }
+
+  /** Records a completed scrape run */
+  async markScraped(id: string) {
+    return prisma.source.update({
+      where: { id },
+      data: { lastScrapedAt: new Date() },
+    });
+  }
+
+  /**
+   * Deletes a source. Its articles are kept and unlinked.
+   * @throws AppError 404 if source not found
+   */
+  async delete(id: string) {
+    await this.findById(id);
+
+    return prisma.source.delete({ where: { id } });
+  }
+
+  /** Reads a source's selector overrides, ignoring malformed JSON */
+  getSelectors(source: Source): SourceSelectors {
+    const result = sourceSelectorsSchema.safeParse(source.selectors ?? {});
+    return result.success ? result.data : {};
+  }
+}
+
+/** Singleton instance of SourceService */
+export const sourceService = new SourceService();
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { JSON_BODY_LIMIT } from "../src/app.js";
+import { serveApp } from "./server.js";
+
+const server = serveApp();
+
+describe("JSON body limit", () => {
+  it("rejects a body over the limit with a 413", async () => {
+    const response = await fetch(`${server.url}/api/articles`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: "x".repeat(JSON_BODY_LIMIT) }),
+    });
+
+    assert.equal(response.status, 413);
+    assert.deepEqual(await response.json(), {
+      success: false,
+      error: "Request body is too large",
+    });
+  });
+
+  it("reads a body within the limit", async () => {
+    const response = await fetch(`${server.url}/api/articles`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: "x".repeat(1_000_000) }),
+    });
+
+    // Parsed, then turned away for the missing API key
+    assert.equal(response.status, 401);
+  });
+});
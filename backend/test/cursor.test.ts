@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decodeCursor, encodeCursor, type Cursor } from "../src/lib/cursor.js";
+import { listArticlesQuerySchema } from "../src/schemas/article.schema.js";
+import { articleService } from "../src/services/article.service.js";
+import { FAKE_ARTICLE_DATE, fakeDatabase } from "./database.js";
+
+const CURSOR: Cursor = {
+  sort: "createdAt",
+  order: "desc",
+  value: "2025-01-01T00:00:00.000Z",
+  id: "3f0c9a4e-8d1b-4c7a-9e2f-5b6d7c8e9f01",
+  direction: "next",
+};
+
+/** Base64url-encodes any JSON value, as a client forging a cursor would */
+function forge(json: unknown): string {
+  return Buffer.from(JSON.stringify(json)).toString("base64url");
+}
+
+describe("encodeCursor and decodeCursor", () => {
+  it("round-trips date, title and rank cursors", () => {
+    for (const value of [CURSOR.value, "Chatbot guide", 0.4217]) {
+      const cursor = { ...CURSOR, value };
+      assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+    }
+  });
+
+  it("encodes to a URL-safe token", () => {
+    const token = encodeCursor({ ...CURSOR, value: "???>>>~~~" });
+    assert.match(token, /^[A-Za-z0-9_-]+$/);
+  });
+
+  it("rejects tokens that aren't cursors", () => {
+    assert.equal(decodeCursor(""), null);
+    assert.equal(decodeCursor("not a cursor"), null);
+    assert.equal(decodeCursor(encodeCursor(CURSOR).slice(0, -4)), null);
+    assert.equal(
+      decodeCursor(Buffer.from("{oops").toString("base64url")),
+      null
+    );
+  });
+
+  it("rejects tampered cursors", () => {
+    assert.equal(decodeCursor(forge({ ...CURSOR, direction: "up" })), null);
+    assert.equal(decodeCursor(forge({ ...CURSOR, order: "random" })), null);
+    assert.equal(decodeCursor(forge({ ...CURSOR, value: null })), null);
+    assert.equal(decodeCursor(forge({ ...CURSOR, id: undefined })), null);
+    assert.equal(decodeCursor(forge([CURSOR])), null);
+  });
+});
+
+describe("ArticleService.findAll with a cursor", () => {
+  const list = (query: Record<string, string>) =>
+    articleService.findAll(listArticlesQuerySchema.parse(query));
+
+  it("answers 400 for a tampered cursor", async (t) => {
+    fakeDatabase(t, 100);
+    await assert.rejects(list({ cursor: forge({ ...CURSOR, id: 7 }) }), {
+      statusCode: 400,
+    });
+  });
+
+  it("answers 400 for a cursor from another sort or order", async (t) => {
+    fakeDatabase(t, 100);
+    const cursor = encodeCursor(CURSOR);
+
+    await assert.rejects(list({ cursor, sort: "title" }), { statusCode: 400 });
+    await assert.rejects(list({ cursor, order: "asc" }), { statusCode: 400 });
+  });
+
+  it("answers 400 for a cursor value of the wrong type", async (t) => {
+    fakeDatabase(t, 100);
+    const cursor = encodeCursor({ ...CURSOR, value: "yesterday" });
+
+    await assert.rejects(list({ cursor }), { statusCode: 400 });
+  });
+
+  it("breaks ties on equal sort keys by ID", async (t) => {
+    // Every fake article shares one creation date
+    const queries = fakeDatabase(t, 100);
+    const first = await list({ sort: "createdAt" });
+
+    assert.deepEqual(decodeCursor(first.pagination.nextCursor!), {
+      sort: "createdAt",
+      order: "desc",
+      value: FAKE_ARTICLE_DATE.toISOString(),
+      id: "article-9",
+      direction: "next",
+    });
+
+    await list({ sort: "createdAt", cursor: first.pagination.nextCursor! });
+
+    const page = queries[2];
+    assert.match(page.text, /\("createdAt", "id"\) < \(\$\d+, \$\d+\)/);
+    assert.match(page.text, /ORDER BY "createdAt" desc, "id" desc/);
+    assert.ok(page.values.includes("article-9"));
+    assert.ok(
+      page.values.some(
+        (v) => v instanceof Date && v.getTime() === FAKE_ARTICLE_DATE.getTime()
+      )
+    );
+  });
+
+  it("walks back from a prev cursor in reverse order", async (t) => {
+    const queries = fakeDatabase(t, 100);
+    const cursor = encodeCursor({ ...CURSOR, direction: "prev" });
+
+    const { articles, pagination } = await list({ cursor });
+
+    const [page] = queries;
+    assert.match(page.text, /\("createdAt", "id"\) > \(\$\d+, \$\d+\)/);
+    assert.match(page.text, /ORDER BY "createdAt" asc, "id" asc/);
+    // Read backwards, then restored to the list's own order
+    assert.equal(articles[0].id, "article-9");
+    assert.ok(pagination.nextCursor);
+    assert.ok(pagination.prevCursor);
+  });
+});
@@ -0,0 +1,68 @@
+import type { TestContext } from "node:test";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../src/lib/prisma.js";
+import { searchService } from "../src/services/search.service.js";
+
+/** Publish and creation date shared by every fake article, so sort keys tie */
+export const FAKE_ARTICLE_DATE = new Date("2025-01-01T00:00:00.000Z");
+
+/**
+ * Replaces a method of the Prisma client or one of its models for one test.
+ * The client is a proxy that `t.mock.method` can't wrap, so this assigns.
+ */
+export function stubMethod(
+  t: TestContext,
+  target: object,
+  name: string,
+  impl: (...args: any[]) => unknown
+) {
+  const object = target as Record<string, unknown>;
+  const original = object[name];
+  object[name] = impl;
+  t.after(() => {
+    object[name] = original;
+  });
+}
+
+/**
+ * Stands in for the database, for one test: `total` articles match, every
+ * page query returns a full page of hits, and all hits share one rank and
+ * date.
+ * @returns The SQL of every raw query sent, in order
+ */
+export function fakeDatabase(t: TestContext, total: number) {
+  const queries: Prisma.Sql[] = [];
+
+  stubMethod(
+    t,
+    prisma,
+    "$queryRaw",
+    async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const sql = Prisma.sql(strings, ...values);
+      queries.push(sql);
+      if (sql.text.includes("count(*)")) return [{ count: total }];
+
+      const limit = sql.values.at(-2) as number;
+      return Array.from({ length: limit }, (_, i) => ({
+        id: `article-${i}`,
+        rank: 0.5,
+      }));
+    }
+  );
+  stubMethod(
+    t,
+    prisma.article,
+    "findMany",
+    async ({ where }: { where: { id: { in: string[] } } }) =>
+      where.id.in.map((id) => ({
+        id,
+        title: id,
+        createdAt: FAKE_ARTICLE_DATE,
+        publishedAt: FAKE_ARTICLE_DATE,
+        original: null,
+      }))
+  );
+  t.mock.method(searchService, "highlight", async () => new Map());
+
+  return queries;
+}
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffContent, diffWords, type DiffSpan } from "../src/lib/diff.js";
+
+/** Text of one side of a word diff */
+function side(spans: DiffSpan[], skip: DiffSpan["type"]): string {
+  return spans
+    .filter((span) => span.type !== skip)
+    .map((span) => span.text)
+    .join("");
+}
+
+/** `count` distinct words starting with `prefix`, e.g. "a0 a1 a2" */
+function words(prefix: string, count: number): string {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(" ");
+}
+
+describe("diffContent", () => {
+  const ORIGINAL =
+    "<h2>Why chatbots</h2><p>Chatbots answer questions at any hour.</p>" +
+    "<p>Compare pricing before you buy.</p>";
+
+  it("reports nothing for identical content", () => {
+    const { blocks, stats } = diffContent(ORIGINAL, ORIGINAL);
+
+    assert.ok(blocks.every((block) => block.type === "equal"));
+    assert.deepEqual(stats, {
+      blocksUnchanged: 3,
+      blocksAdded: 0,
+      blocksRemoved: 0,
+      blocksChanged: 0,
+      wordsAdded: 0,
+      wordsRemoved: 0,
+    });
+  });
+
+  it("reports an inserted block as added", () => {
+    const { blocks, stats } = diffContent(
+      ORIGINAL,
+      ORIGINAL.replace("<p>Compare", "<h2>Key Takeaways</h2><p>Compare")
+    );
+
+    assert.deepEqual(
+      blocks.map((block) => block.type),
+      ["equal", "equal", "added", "equal"]
+    );
+    assert.deepEqual(blocks[2], {
+      type: "added",
+      tag: "h2",
+      text: "Key Takeaways",
+    });
+    assert.equal(stats.wordsAdded, 2);
+    assert.equal(stats.wordsRemoved, 0);
+  });
+
+  it("reports a deleted block as removed", () => {
+    const { blocks, stats } = diffContent(
+      ORIGINAL,
+      ORIGINAL.replace("<p>Compare pricing before you buy.</p>", "")
+    );
+
+    assert.deepEqual(
+      blocks.map((block) => block.type),
+      ["equal", "equal", "removed"]
+    );
+    assert.equal(stats.blocksRemoved, 1);
+    assert.equal(stats.wordsRemoved, 5);
+    assert.equal(stats.wordsAdded, 0);
+  });
+
+  it("reports a reworded block as changed, with a word diff", () => {
+    const { blocks, stats } = diffContent(
+      ORIGINAL,
+      ORIGINAL.replace("at any hour", "at any hour of the day")
+    );
+    const changed = blocks[1];
+
+    assert.ok(changed.type === "changed");
+    assert.deepEqual(
+      changed.spans.filter((span) => span.type !== "equal"),
+      [
+        { type: "removed", text: "hour." },
+        { type: "added", text: "hour of the day." },
+      ]
+    );
+    assert.equal(stats.blocksChanged, 1);
+  });
+});
+
+describe("diffWords", () => {
+  it("keeps both sides' text in the spans", () => {
+    const from = "Chatbots answer questions at any hour.";
+    const to = "Good chatbots answer most questions at any hour.";
+    const spans = diffWords(from, to);
+
+    assert.equal(side(spans, "added"), from);
+    assert.equal(side(spans, "removed"), to);
+  });
+
+  it("replaces texts too long to align wholesale, keeping common ends", () => {
+    // Over 2,000 tokens each: the LCS table would exceed its cell cap
+    const from = `Same start ${words("a", 1200)} same end.`;
+    const to = `Same start ${words("b", 1200)} same end.`;
+    const spans = diffWords(from, to);
+
+    assert.deepEqual(
+      spans.map((span) => span.type),
+      ["equal", "removed", "added", "equal"]
+    );
+    assert.equal(spans[1].text, words("a", 1200));
+    assert.equal(spans[2].text, words("b", 1200));
+    assert.equal(side(spans, "added"), from);
+    assert.equal(side(spans, "removed"), to);
+  });
+});
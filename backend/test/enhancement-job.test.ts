@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { describe, it, type TestContext } from "node:test";
+import { Prisma, type ApiKeyRole } from "@prisma/client";
+import { prisma } from "../src/lib/prisma.js";
+import { apiKeyService } from "../src/services/api-key.service.js";
+import { enhancementJobService } from "../src/services/enhancement-job.service.js";
+import { stubMethod } from "./database.js";
+import { serveApp } from "./server.js";
+
+const server = serveApp();
+
+/** Makes every key verify as a key with `role`, for one test */
+function signInAs(t: TestContext, role: ApiKeyRole) {
+  t.mock.method(apiKeyService, "verify", async () => ({
+    id: "key-1",
+    name: `${role}-key`,
+    role,
+  }));
+}
+
+/** Stands in for the queue, which needs a database, for one test */
+function mockEnqueue(t: TestContext) {
+  return t.mock.method(enhancementJobService, "enqueue", async () => ({
+    jobs: [],
+    skipped: 0,
+  }));
+}
+
+function enqueue(body: unknown) {
+  return fetch(`${server.url}/api/jobs`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: "Bearer ask_test",
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/jobs", () => {
+  it("refuses to queue every original for an editor", async (t) => {
+    signInAs(t, "editor");
+    const queue = mockEnqueue(t);
+
+    const response = await enqueue({ all: true });
+
+    assert.equal(response.status, 403);
+    assert.match((await response.json()).error, /admin role/);
+    assert.equal(queue.mock.callCount(), 0);
+  });
+
+  it("queues every original for an admin", async (t) => {
+    signInAs(t, "admin");
+    const queue = mockEnqueue(t);
+
+    const response = await enqueue({ all: true });
+
+    assert.equal(response.status, 201);
+    assert.deepEqual(queue.mock.calls[0].arguments, [{ all: true }]);
+  });
+
+  it("queues chosen originals for an editor", async (t) => {
+    signInAs(t, "editor");
+    const queue = mockEnqueue(t);
+    const articleIds = ["7c1e3a52-0d6f-4b8e-9a51-2f4d6c8b1e90"];
+
+    const response = await enqueue({ articleIds });
+
+    assert.equal(response.status, 201);
+    assert.deepEqual(queue.mock.calls[0].arguments, [{ articleIds }]);
+  });
+});
+
+describe("EnhancementJobService", () => {
+  const articleId = "7c1e3a52-0d6f-4b8e-9a51-2f4d6c8b1e90";
+  const activeJob = { id: "job-1", articleId, status: "queued" };
+
+  it("returns the job another request queued since the lookup", async (t) => {
+    let lookups = 0;
+    stubMethod(t, prisma.article, "findUnique", async () => ({
+      isEnhanced: false,
+    }));
+    stubMethod(t, prisma.enhancementJob, "findFirst", async () =>
+      lookups++ === 0 ? null : activeJob
+    );
+    stubMethod(t, prisma.enhancementJob, "create", async () => {
+      throw new Prisma.PrismaClientKnownRequestError(
+        "Unique constraint failed on the fields: (`articleId`)",
+        { code: "P2002", clientVersion: Prisma.prismaVersion.client }
+      );
+    });
+
+    const result = await enhancementJobService.enqueueForArticle(articleId);
+
+    assert.deepEqual(result, { job: activeJob, created: false });
+  });
+
+  it("counts jobs skipped by the active job index", async (t) => {
+    const other = "0b9d2e41-6c3a-4f7e-8d15-3a2c4e6f8b07";
+    let inserted: unknown;
+    stubMethod(t, prisma.article, "findMany", async () => [
+      { id: articleId, isEnhanced: false },
+      { id: other, isEnhanced: false },
+    ]);
+    stubMethod(t, prisma.enhancementJob, "findMany", async () => []);
+    // A job for articleId was queued since the lookup
+    stubMethod(
+      t,
+      prisma.enhancementJob,
+      "createManyAndReturn",
+      async (args: unknown) => {
+        inserted = args;
+        return [{ id: "job-2", articleId: other }];
+      }
+    );
+
+    const result = await enhancementJobService.enqueue({
+      articleIds: [articleId, other],
+    });
+
+    assert.deepEqual(result, {
+      jobs: [{ id: "job-2", articleId: other }],
+      skipped: 1,
+    });
+    assert.deepEqual(inserted, {
+      data: [articleId, other].map((id) => ({
+        articleId: id,
+        maxAttempts: undefined,
+        force: undefined,
+      })),
+      skipDuplicates: true,
+    });
+  });
+});
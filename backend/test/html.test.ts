@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as cheerio from "cheerio";
+import { sanitizeDetails, sanitizeHtml } from "../src/lib/html.js";
+
+/** Known XSS payloads, including mutation XSS that relies on re-parsing */
+const XSS_PAYLOADS = [
+  `<img src=x onerror=alert(1)>`,
+  `<img src="https://example.com/a.png" onerror="alert(1)">`,
+  `<a href="javascript:alert(1)">link</a>`,
+  `<a href="JaVaScRiPt:alert(1)">link</a>`,
+  `<a href="java\tscript:alert(1)">link</a>`,
+  `<a href="&#106;avascript:alert(1)">link</a>`,
+  `<a href=" javascript:alert(1)">link</a>`,
+  `<a href="vbscript:msgbox(1)">link</a>`,
+  `<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">link</a>`,
+  `<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">`,
+  `<script>alert(1)</script>`,
+  `<scr<script>ipt>alert(1)</script>`,
+  `<svg onload=alert(1)><circle r="1"/></svg>`,
+  `<svg><script>alert(1)</script></svg>`,
+  `<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>`,
+  `<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>`,
+  `<math><mi xlink:href="javascript:alert(1)">x</mi></math>`,
+  `<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>`,
+  `<template><img src=x onerror=alert(1)></template>`,
+  `<p>text<!--<img src=x onerror=alert(1)>--></p>`,
+  `<iframe src="https://example.com" srcdoc="<script>alert(1)</script>"></iframe>`,
+  `<object data="javascript:alert(1)"></object><embed src="x.swf">`,
+  `<form action="javascript:alert(1)"><button>go</button></form>`,
+  `<p style="background:url(javascript:alert(1))" onclick="alert(1)">text</p>`,
+  `<div onmouseover="alert(1)"><p>text</p></div>`,
+  `<base href="javascript:alert(1)//"><a href="/x">link</a>`,
+  `<meta http-equiv="refresh" content="0;url=javascript:alert(1)">`,
+];
+
+/** Schemes a sanitized link or image may point to */
+const SAFE_HREF = /^(?:https?:|mailto:|#)/i;
+const SAFE_SRC = /^https?:/i;
+
+const UNSAFE_TAGS =
+  "script, style, svg, math, noscript, template, iframe, object, embed, " +
+  "form, button, base, meta";
+
+/** Fails if sanitized HTML could still run script, however it is parsed */
+function assertSafe(html: string) {
+  const $ = cheerio.load(html, null, false);
+
+  assert.equal($(UNSAFE_TAGS).length, 0, `unsafe element in ${html}`);
+
+  for (const el of $.root().find("*").toArray()) {
+    for (const [name, value] of Object.entries(el.attribs)) {
+      assert.ok(!/^on/i.test(name), `event handler in ${html}`);
+      assert.notEqual(name, "style", `style attribute in ${html}`);
+      if (name === "href") assert.match(value, SAFE_HREF);
+      if (name === "src") assert.match(value, SAFE_SRC);
+    }
+  }
+
+  // Sanitizing again must not change anything (no mutation on re-parse)
+  assert.equal(sanitizeHtml(html), html, `not stable: ${html}`);
+}
+
+describe("sanitizeHtml", () => {
+  for (const payload of XSS_PAYLOADS) {
+    it(`neutralizes ${payload}`, () => {
+      assertSafe(sanitizeHtml(payload));
+      assertSafe(sanitizeHtml(payload, "https://example.com/post"));
+    });
+  }
+
+  it("keeps article structure and safe links", () => {
+    const html =
+      '<h2>Title</h2><p>Read <a href="https://example.com/a">this</a>, ' +
+      'see <a href="#cite-1">[1]</a>.</p><img src="https://example.com/a.png" alt="A">';
+
+    assert.equal(
+      sanitizeHtml(html),
+      '<h2>Title</h2><p>Read <a href="https://example.com/a" ' +
+        'target="_blank" rel="noopener noreferrer">this</a>, see ' +
+        '<a href="#cite-1">[1]</a>.</p><img src="https://example.com/a.png" alt="A">'
+    );
+  });
+
+  it("forces rel=noopener on external links", () => {
+    const $ = cheerio.load(
+      sanitizeHtml(
+        '<a href="https://example.com" target="_self" rel="opener">x</a>'
+      ),
+      null,
+      false
+    );
+
+    assert.equal($("a").attr("target"), "_blank");
+    assert.equal($("a").attr("rel"), "noopener noreferrer");
+  });
+
+  it("resolves relative URLs only against a base URL", () => {
+    assert.equal(sanitizeHtml('<a href="/post">x</a>'), "<a>x</a>");
+    assert.match(
+      sanitizeHtml('<a href="/post">x</a>', "https://example.com/blog/"),
+      /href="https:\/\/example\.com\/post"/
+    );
+  });
+});
+
+describe("sanitizeDetails", () => {
+  for (const payload of XSS_PAYLOADS) {
+    it(`neutralizes ${payload} in newText and originalText`, () => {
+      const [detail] = sanitizeDetails(
+        [
+          {
+            type: "modification",
+            originalText: payload,
+            newText: `<p>Kept</p>${payload}`,
+            reason: "test",
+          },
+        ],
+        "<p>Kept</p>",
+        false
+      );
+
+      assertSafe(detail.newText);
+      assertSafe(detail.originalText!);
+    });
+  }
+
+  it("drops details left without content", () => {
+    const details = sanitizeDetails(
+      [{ type: "addition", newText: "<script>alert(1)</script>", reason: "x" }],
+      "<p>Content</p>",
+      false
+    );
+
+    assert.deepEqual(details, []);
+  });
+
+  it("moves offsets to where the sanitized text is in the content", () => {
+    const content = sanitizeHtml('<p>Intro</p><p onclick="x()">New</p>');
+    const [detail] = sanitizeDetails(
+      [
+        {
+          type: "addition",
+          newText: '<p onclick="x()">New</p>',
+          reason: "x",
+          startOffset: 30,
+          endOffset: 54,
+        },
+      ],
+      content,
+      true
+    );
+
+    assert.equal(detail.newText, "<p>New</p>");
+    assert.equal(
+      content.slice(detail.startOffset, detail.endOffset),
+      "<p>New</p>"
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  anchorDetails,
+  locateFragment,
+  mergeAcceptedChanges,
+} from "../src/lib/merge.js";
+import type { EnhancementDetail } from "../src/schemas/article.schema.js";
+
+const ORIGINAL =
+  "<h2>Why chatbots</h2>\n" +
+  "<p>Chatbots answer common questions at any hour.</p>\n" +
+  "<p>Compare pricing and integrations before you buy.</p>";
+
+const ENHANCED =
+  "<h2>Why chatbots</h2>\n" +
+  "<p>Chatbots answer common customer questions at any hour of the day.</p>\n" +
+  "<p>Compare pricing and integrations before you buy.</p>\n" +
+  "<h2>Key Takeaways</h2>\n<p>Pick a bot that hands over to people well.</p>";
+
+const MODIFICATION: EnhancementDetail = {
+  type: "modification",
+  // Quoted loosely, as LLMs do: not in the original word for word
+  originalText: "<p>Chatbots answer common questions at all hours.</p>",
+  newText:
+    "<p>Chatbots answer common customer questions at any hour of the day.</p>",
+  reason: "More specific",
+};
+
+const ADDITION: EnhancementDetail = {
+  type: "addition",
+  newText:
+    "<h2>Key Takeaways</h2>\n<p>Pick a bot that hands over to people well.</p>",
+  reason: "Summary for skimming readers",
+};
+
+const DETAILS = [MODIFICATION, ADDITION];
+
+describe("mergeAcceptedChanges", () => {
+  it("applies accepted changes", () => {
+    const result = mergeAcceptedChanges(ORIGINAL, ENHANCED, DETAILS, [0, 1]);
+
+    assert.equal(result.content, ENHANCED.replace("\n<h2>Key", "<h2>Key"));
+    assert.deepEqual(result.applied, [0, 1]);
+    assert.deepEqual(result.unapplied, []);
+  });
+
+  it("keeps the original where changes are rejected or undecided", () => {
+    const result = mergeAcceptedChanges(ORIGINAL, ENHANCED, DETAILS, []);
+
+    assert.equal(result.content, ORIGINAL);
+    assert.deepEqual(result.applied, []);
+  });
+
+  it("places an addition between text the original has", () => {
+    const result = mergeAcceptedChanges(ORIGINAL, ENHANCED, DETAILS, [1]);
+
+    assert.equal(result.content, `${ORIGINAL}${ADDITION.newText}`);
+    assert.deepEqual(result.applied, [1]);
+  });
+
+  it("replaces a loosely quoted original in a modification", () => {
+    const result = mergeAcceptedChanges(ORIGINAL, ENHANCED, DETAILS, [0]);
+
+    assert.equal(
+      result.content,
+      "<h2>Why chatbots</h2>\n" +
+        `${MODIFICATION.newText}\n` +
+        "<p>Compare pricing and integrations before you buy.</p>"
+    );
+    assert.deepEqual(result.applied, [0]);
+  });
+
+  it("reports changes that can't be placed", () => {
+    const details: EnhancementDetail[] = [
+      {
+        type: "modification",
+        originalText: "<p>Nothing like this was ever in the article.</p>",
+        newText: "<p>Replacement</p>",
+        reason: "x",
+      },
+      {
+        type: "addition",
+        newText: "<p>Not in the enhanced content either</p>",
+        reason: "x",
+      },
+      ADDITION,
+    ];
+
+    const result = mergeAcceptedChanges(ORIGINAL, ENHANCED, details, [0, 1, 2]);
+
+    assert.deepEqual(result.applied, [2]);
+    assert.deepEqual(result.unapplied, [0, 1]);
+    assert.equal(result.content, `${ORIGINAL}${ADDITION.newText}`);
+  });
+
+  it("reports a change overlapping one placed before it", () => {
+    const details: EnhancementDetail[] = [
+      MODIFICATION,
+      {
+        type: "modification",
+        originalText: "at any hour.",
+        newText: "at any hour of the day.",
+        reason: "x",
+      },
+    ];
+
+    const result = mergeAcceptedChanges(ORIGINAL, ENHANCED, details, [0, 1]);
+
+    assert.deepEqual(result.applied, [0]);
+    assert.deepEqual(result.unapplied, [1]);
+  });
+});
+
+describe("locateFragment", () => {
+  it("finds exact text", () => {
+    const at = locateFragment(ORIGINAL, "<p>Compare pricing");
+
+    assert.equal(ORIGINAL.slice(at!.start, at!.end), "<p>Compare pricing");
+  });
+
+  it("finds text quoted loosely, with the tags it is quoted in", () => {
+    const at = locateFragment(ORIGINAL, MODIFICATION.originalText!);
+
+    assert.equal(
+      ORIGINAL.slice(at!.start, at!.end),
+      "<p>Chatbots answer common questions at any hour.</p>"
+    );
+  });
+
+  it("finds nothing when too few words match", () => {
+    assert.equal(locateFragment(ORIGINAL, "<p>Bots cost money.</p>"), null);
+  });
+});
+
+describe("anchorDetails", () => {
+  it("points details at the new content and unanchors missing ones", () => {
+    const content = `${ORIGINAL}${ADDITION.newText}`;
+    const [modification, addition] = anchorDetails(
+      [
+        { ...MODIFICATION, startOffset: 20, endOffset: 90 },
+        { ...ADDITION, startOffset: 200, endOffset: 280 },
+      ],
+      content
+    );
+
+    assert.equal(modification.startOffset, undefined);
+    assert.equal(modification.endOffset, undefined);
+    assert.equal(
+      content.slice(addition.startOffset, addition.endOffset),
+      ADDITION.newText
+    );
+  });
+});
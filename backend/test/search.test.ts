@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { listArticlesQuerySchema } from "../src/schemas/article.schema.js";
+import { articleService } from "../src/services/article.service.js";
+import { searchService } from "../src/services/search.service.js";
+import { fakeDatabase } from "./database.js";
+
+describe("buildTsQuery", () => {
+  it("joins words with AND", () => {
+    assert.equal(
+      searchService.buildTsQuery("chatbot support"),
+      "chatbot & support"
+    );
+  });
+
+  it("supports phrases, prefixes, exclusions and OR", () => {
+    assert.equal(
+      searchService.buildTsQuery('"lead generation"'),
+      "(lead <-> generation)"
+    );
+    assert.equal(searchService.buildTsQuery("automat*"), "automat:*");
+    assert.equal(
+      searchService.buildTsQuery('chatbot -whatsapp -"spam mail"'),
+      "chatbot & !whatsapp & !(spam <-> mail)"
+    );
+    assert.equal(
+      searchService.buildTsQuery("chatbot OR assistant pricing"),
+      "(chatbot | assistant) & pricing"
+    );
+  });
+
+  it("strips tsquery operators and quotes from words", () => {
+    assert.equal(
+      searchService.buildTsQuery("a:b & c | d"),
+      "(a <-> b) & c & d"
+    );
+    assert.equal(searchService.buildTsQuery("!(x) \\ y'"), "x & y");
+    assert.equal(searchService.buildTsQuery("it's"), "(it <-> s)");
+    assert.equal(
+      searchService.buildTsQuery('"unclosed phrase'),
+      "(unclosed <-> phrase)"
+    );
+  });
+
+  it("ignores a leading OR", () => {
+    assert.equal(searchService.buildTsQuery("OR chatbot"), "chatbot");
+  });
+
+  it("returns null without any searchable word", () => {
+    assert.equal(searchService.buildTsQuery("   "), null);
+    assert.equal(searchService.buildTsQuery("!&|():*'\""), null);
+  });
+});
+
+describe("ArticleService.findAll", () => {
+  it("counts every match, however many there are", async (t) => {
+    fakeDatabase(t, 2500);
+
+    const { pagination } = await articleService.findAll(
+      listArticlesQuerySchema.parse({ search: "chatbot" })
+    );
+
+    assert.equal(pagination.total, 2500);
+    assert.equal(pagination.totalPages, 250);
+    assert.ok(pagination.nextCursor);
+  });
+
+  it("pages past the first thousand matches with LIMIT and OFFSET", async (t) => {
+    const queries = fakeDatabase(t, 2500);
+
+    const { articles, pagination } = await articleService.findAll(
+      listArticlesQuerySchema.parse({ search: "chatbot", page: "150" })
+    );
+
+    const [page] = queries;
+    assert.match(page.text, /LIMIT \$\d+\s+OFFSET \$\d+/);
+    assert.deepEqual(page.values.slice(-2), [11, 1490]);
+    assert.equal(articles.length, 10);
+    assert.ok("relevance" in articles[0]);
+    assert.equal(articles[0].relevance, 0.5);
+    assert.equal(pagination.page, 150);
+  });
+
+  it("continues from a cursor with a keyset on rank and ID", async (t) => {
+    const queries = fakeDatabase(t, 2500);
+    const first = await articleService.findAll(
+      listArticlesQuerySchema.parse({ search: "chatbot" })
+    );
+
+    await articleService.findAll(
+      listArticlesQuerySchema.parse({
+        search: "chatbot",
+        cursor: first.pagination.nextCursor,
+      })
+    );
+
+    const page = queries[2];
+    assert.match(page.text, /, "id"\) < \(\$\d+::real, \$\d+\)/);
+    assert.deepEqual(page.values.slice(-2), [11, 0]);
+  });
+});
@@ -0,0 +1,25 @@
+import type { AddressInfo } from "node:net";
+import { after, before, mock } from "node:test";
+import { app } from "../src/app.js";
+
+/**
+ * Serves the app on a free port for the tests of the calling file, with the
+ * error handler's logging silenced.
+ * @returns The base URL, once the tests start
+ */
+export function serveApp() {
+  const server = app.listen(0);
+  const target = { url: "" };
+
+  before(() => {
+    mock.method(console, "error", () => {});
+    target.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    mock.restoreAll();
+    server.close();
+  });
+
+  return target;
+}
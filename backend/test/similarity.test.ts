@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { similarityOptions, similarityReport } from "../src/lib/similarity.js";
+
+const DEFAULTS = { shingleSize: 8, threshold: 0.15 };
+
+describe("similarityOptions", () => {
+  it("defaults when unset or blank", () => {
+    assert.deepEqual(similarityOptions({}), DEFAULTS);
+    assert.deepEqual(
+      similarityOptions({
+        SIMILARITY_THRESHOLD: " ",
+        SIMILARITY_SHINGLE_SIZE: "",
+      }),
+      DEFAULTS
+    );
+  });
+
+  it("accepts a threshold from 0 to 1", () => {
+    for (const threshold of [0, 0.5, 1]) {
+      assert.equal(
+        similarityOptions({ SIMILARITY_THRESHOLD: String(threshold) })
+          .threshold,
+        threshold
+      );
+    }
+  });
+
+  it("ignores a threshold outside 0 to 1", () => {
+    for (const value of ["-0.1", "1.5", "15", "abc", "Infinity"]) {
+      assert.equal(
+        similarityOptions({ SIMILARITY_THRESHOLD: value }).threshold,
+        DEFAULTS.threshold
+      );
+    }
+  });
+
+  it("needs a shingle size of at least 1", () => {
+    assert.equal(
+      similarityOptions({ SIMILARITY_SHINGLE_SIZE: "4" }).shingleSize,
+      4
+    );
+    for (const value of ["0", "-3", "abc"]) {
+      assert.equal(
+        similarityOptions({ SIMILARITY_SHINGLE_SIZE: value }).shingleSize,
+        DEFAULTS.shingleSize
+      );
+    }
+  });
+});
+
+describe("similarityReport", () => {
+  const source = {
+    title: "Source",
+    url: "https://example.com/source",
+    content: "Chatbots answer common questions at any hour of the day.",
+  };
+
+  it("blocks any copied run at a threshold of 0", () => {
+    const enhanced =
+      "Support teams are busy. Chatbots answer common questions at any hour of the day, so people wait less and agents can focus on harder cases.";
+    const options = { shingleSize: 8, threshold: 0 };
+
+    assert.equal(
+      similarityReport(enhanced, "", [source], options).exceedsThreshold,
+      true
+    );
+    assert.equal(
+      similarityReport("Nothing in common here.", "", [source], options)
+        .exceedsThreshold,
+      false
+    );
+  });
+});
@@ -0,0 +1,154 @@
+// Load environment variables FIRST, as in index.ts
+import "dotenv/config";
+
+import { parseArgs } from "node:util";
+import { config } from "./config.js";
+import {
+  EnhancementPipeline,
+  type EnhancementServices,
+} from "./pipeline/enhancement-pipeline.js";
+import { apiService, type Article } from "./services/api.service.js";
+import { listPromptVersions } from "./lib/prompts.js";
+import { createLLMService } from "./services/llm.service.js";
+import { scraperService } from "./services/scraper.service.js";
+import { searchService } from "./services/search.service.js";
+
+/** Usage line, with the prompt versions there are to compare */
+function usage(): string {
+  return (
+    "Usage: npm run compare-prompts -- <versionA> <versionB> [--article <id>]... [--limit <n>]" +
+    ` (versions: ${listPromptVersions().join(", ")})`
+  );
+}
+
+/**
+ * Reads the command line.
+ * @throws Error with the usage line if an argument is missing or invalid
+ */
+function readArgs() {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        article: { type: "string", multiple: true },
+        limit: { type: "string", default: "5" },
+      },
+    });
+  } catch (error: any) {
+    throw new Error(`${error.message} ${usage()}`);
+  }
+
+  const { values, positionals } = parsed;
+  if (positionals.length !== 2 || positionals[0] === positionals[1]) {
+    throw new Error(usage());
+  }
+
+  const limit = Number(values.limit);
+  if (!/^\d+$/.test(values.limit) || limit < 1) {
+    throw new Error(`--limit must be a positive integer. ${usage()}`);
+  }
+
+  return { versions: positionals, articleIds: values.article, limit };
+}
+
+/** Caches an async lookup, so both runs see the same results */
+function memoize<A extends unknown[], R>(
+  fn: (...args: A) => Promise<R>
+): (...args: A) => Promise<R> {
+  const cache = new Map<string, Promise<R>>();
+  return (...args) => {
+    const key = JSON.stringify(args);
+    if (!cache.has(key)) cache.set(key, fn(...args));
+    return cache.get(key)!;
+  };
+}
+
+/** Pipeline enhancing with one prompt version, sharing search and scraping */
+function pipelineFor(
+  version: string,
+  shared: Pick<EnhancementServices, "search" | "scraper">
+) {
+  const llm = createLLMService(config.llm, version);
+
+  if (!llm.isAvailable) {
+    throw new Error(
+      "No LLM provider configured; set LLM_PROVIDER and its API key"
+    );
+  }
+
+  return new EnhancementPipeline({ ...shared, llm, api: apiService }, config);
+}
+
+/**
+ * Usage: npm run compare-prompts -- <versionA> <versionB>
+ *          [--article <id>]... [--limit <n>]
+ * Enhances the same originals with two prompt versions (directories of
+ * prompts/) and saves both results as draft versions for side-by-side
+ * review. Both runs use the same search results and scraped pages, so only
+ * the prompt differs. Versions already saved for the same inputs are reused.
+ */
+async function comparePrompts() {
+  const { versions, articleIds, limit } = readArgs();
+
+  const shared = {
+    search: { search: memoize(searchService.search.bind(searchService)) },
+    scraper: {
+      scrapeArticleContent: memoize(
+        scraperService.scrapeArticleContent.bind(scraperService)
+      ),
+    },
+  };
+  const runs = versions.map((version) => ({
+    version,
+    pipeline: pipelineFor(version, shared),
+  }));
+
+  const originals = (await apiService.getOriginalArticles())
+    .filter((article) => !articleIds || articleIds.includes(article.id))
+    .slice(0, limit);
+
+  console.log(
+    `🆚 Comparing prompt versions ${versions.join(" and ")} on ${originals.length} originals`
+  );
+
+  for (const original of originals) {
+    const versions: Array<Article | null> = [];
+
+    for (const { version, pipeline } of runs) {
+      console.log(`\n🧪 Prompt version ${version}`);
+      try {
+        const result = await pipeline.run(original);
+        versions.push(result.article);
+      } catch (error: any) {
+        console.error(`❌ Version ${version} failed: ${error.message}`);
+        versions.push(null);
+      }
+    }
+
+    console.log(`\n📊 ${original.title}`);
+    runs.forEach(({ version }, i) => {
+      const article = versions[i];
+      console.log(
+        `   Prompt ${version}: ${article ? `version ${article.version} (${article.id})` : "failed"}`
+      );
+    });
+
+    const [a, b] = versions;
+    if (a && b) {
+      const stats = await apiService.getDiffStats(a.id, b.id);
+      console.log(
+        `   Between them: +${stats.wordsAdded}/−${stats.wordsRemoved} words, ${stats.blocksChanged} paragraphs changed, ${stats.blocksAdded} added, ${stats.blocksRemoved} removed`
+      );
+    }
+  }
+
+  console.log(
+    "\n✅ Done. Open either version in the web UI and diff it against the other from the Text diff tab."
+  );
+}
+
+comparePrompts().catch((error) => {
+  console.error("❌ Prompt comparison failed:", error.message ?? error);
+  process.exitCode = 1;
+});
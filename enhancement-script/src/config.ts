@@ -0,0 +1,208 @@
+import { hostname } from "os";
+
+/** LLM backends the script can talk to */
+export const LLM_PROVIDERS = ["gemini", "openai", "fixture"] as const;
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+/** Web search backends the script can use to find competitor articles */
+export const SEARCH_PROVIDERS = [
+  "google",
+  "bing",
+  "searxng",
+  "fixture",
+] as const;
+export type SearchProviderName = (typeof SEARCH_PROVIDERS)[number];
+
+/** Settings for the search provider and result filtering */
+export interface SearchConfig {
+  provider: SearchProviderName;
+  googleApiKey?: string;
+  googleCx?: string;
+  bingApiKey?: string;
+  bingEndpoint?: string;
+  /** Base URL of a SearxNG instance, e.g. http://localhost:8888 */
+  searxngUrl?: string;
+  /** JSON file of canned results for the fixture provider */
+  fixtureFile?: string;
+  /** If non-empty, only results from these domains (or subdomains) are kept */
+  allowedDomains: string[];
+  /** Results from these domains (or subdomains) are dropped */
+  blockedDomains: string[];
+}
+
+/** Settings for the LLM provider */
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  /** Prompt templates to use, a directory of prompts/ */
+  promptVersion: string;
+  /** Gemini or OpenAI-compatible API key (local servers may not need one) */
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  temperature: number;
+  topP: number;
+  /** Token budget of a prompt; reference articles are cut down to fit */
+  maxInputTokens: number;
+  /** Longer originals are enhanced section by section to fit responses */
+  maxOutputTokens: number;
+  /** Repair prompts sent when a response fails validation */
+  maxRepairAttempts: number;
+  /** JSON file of canned responses for the fixture provider */
+  fixtureFile?: string;
+}
+
+/** Settings for the job worker */
+export interface WorkerConfig {
+  /** Identifies this process in job leases */
+  workerId: string;
+  /** How long a claimed job stays ours without a heartbeat */
+  leaseMs: number;
+  /** Pause between claims when the queue is empty (watch mode) */
+  pollIntervalMs: number;
+}
+
+/** Script configuration, read from the environment */
+export interface Config {
+  apiUrl: string;
+  apiKey?: string;
+  enableSearch: boolean;
+  enableLLM: boolean;
+  search: SearchConfig;
+  llm: LLMConfig;
+  worker: WorkerConfig;
+  /** Pauses between requests, in ms, to avoid rate limits */
+  delays: {
+    betweenArticles: number;
+    betweenSearches: number;
+    betweenScrapes: number;
+  };
+}
+
+/** Prompt templates used unless PROMPT_VERSION is set */
+const DEFAULT_PROMPT_VERSION = "3";
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: "gemini-2.0-flash",
+  openai: "gpt-4o-mini",
+  fixture: "fixture-v1",
+};
+
+/**
+ * Domains never worth citing: social and video sites, and our own blog
+ * (it would only find the article being enhanced).
+ */
+const DEFAULT_BLOCKED_DOMAINS = [
+  "youtube.com",
+  "facebook.com",
+  "twitter.com",
+  "x.com",
+  "linkedin.com",
+  "beyondchats.com",
+];
+
+/** Placeholder shipped in .env.example, treated as unset */
+const PLACEHOLDER_KEY = "your_gemini_api_key_here";
+
+function readNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined || value === "") return fallback;
+
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Expected a number but got "${value}"`);
+  }
+  return parsed;
+}
+
+/** Reads a comma-separated list, lowercased */
+function readList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function readChoice<T extends string>(
+  name: string,
+  value: string | undefined,
+  choices: readonly T[]
+): T {
+  const choice = (value || choices[0]).toLowerCase();
+
+  if (!(choices as readonly string[]).includes(choice)) {
+    throw new Error(
+      `${name} must be one of: ${choices.join(", ")} (got "${value}")`
+    );
+  }
+  return choice as T;
+}
+
+/**
+ * Builds the configuration from environment variables.
+ * @param env - Variables to read (defaults to process.env)
+ * @throws Error if a variable has an invalid value
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  const provider = readChoice(
+    "LLM_PROVIDER",
+    env.LLM_PROVIDER,
+    LLM_PROVIDERS
+  );
+  const geminiKey =
+    env.GEMINI_API_KEY !== PLACEHOLDER_KEY ? env.GEMINI_API_KEY : undefined;
+  const delay = readNumber(env.REQUEST_DELAY_MS, 1000);
+
+  return {
+    apiUrl: env.API_URL || "http://localhost:3000/api",
+    apiKey: env.API_KEY || undefined,
+    // ENABLE_GOOGLE_SEARCH is the older name for ENABLE_SEARCH
+    enableSearch:
+      (env.ENABLE_SEARCH ?? env.ENABLE_GOOGLE_SEARCH) !== "false",
+    enableLLM: env.ENABLE_LLM_ENHANCEMENT !== "false",
+    search: {
+      provider: readChoice(
+        "SEARCH_PROVIDER",
+        env.SEARCH_PROVIDER,
+        SEARCH_PROVIDERS
+      ),
+      googleApiKey: env.GOOGLE_API_KEY || undefined,
+      googleCx: env.GOOGLE_CX || undefined,
+      bingApiKey: env.BING_API_KEY || undefined,
+      bingEndpoint: env.BING_ENDPOINT || undefined,
+      searxngUrl: env.SEARXNG_URL || undefined,
+      fixtureFile: env.SEARCH_FIXTURE_FILE || undefined,
+      allowedDomains: readList(env.SEARCH_ALLOWED_DOMAINS),
+      blockedDomains:
+        env.SEARCH_BLOCKED_DOMAINS !== undefined
+          ? readList(env.SEARCH_BLOCKED_DOMAINS)
+          : DEFAULT_BLOCKED_DOMAINS,
+    },
+    llm: {
+      provider,
+      model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+      promptVersion: env.PROMPT_VERSION || DEFAULT_PROMPT_VERSION,
+      apiKey:
+        (provider === "gemini" ? geminiKey : env.LLM_API_KEY) || undefined,
+      baseUrl: env.LLM_BASE_URL || "https://api.openai.com/v1",
+      temperature: readNumber(env.LLM_TEMPERATURE, 0.7),
+      topP: readNumber(env.LLM_TOP_P, 0.8),
+      maxInputTokens: readNumber(env.LLM_MAX_INPUT_TOKENS, 32000),
+      maxOutputTokens: readNumber(env.LLM_MAX_OUTPUT_TOKENS, 8192),
+      maxRepairAttempts: readNumber(env.LLM_MAX_REPAIR_ATTEMPTS, 2),
+      fixtureFile: env.LLM_FIXTURE_FILE || undefined,
+    },
+    worker: {
+      workerId: env.WORKER_ID || `${hostname()}-${process.pid}`,
+      leaseMs: readNumber(env.JOB_LEASE_MS, 10 * 60 * 1000),
+      pollIntervalMs: readNumber(env.WORKER_POLL_INTERVAL_MS, 30_000),
+    },
+    delays: {
+      betweenArticles: delay * 3,
+      betweenSearches: delay * 2,
+      betweenScrapes: delay,
+    },
+  };
+}
+
+/** Configuration for this process */
+export const config = loadConfig();
@@ -0,0 +1,96 @@
+import type { Citation } from "../schemas/enhancement.schema.js";
+import type { CitedReference } from "../services/api.service.js";
+
+/** Inline marker the LLM puts after a claim, e.g. `[[cite:2]]` */
+const CITATION_MARKER = /\[\[cite:(\d+)\]\]/g;
+
+/** A scraped reference article, as numbered in the prompt */
+export interface CitationSource {
+  title: string;
+  url: string;
+  content: string;
+}
+
+/** Lowercase words only, so quotes survive whitespace and punctuation */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Checks the LLM's citations against the sources that were actually scraped:
+ * each must name one of them and quote text that is really in it, and every
+ * marker in the content must point at a citation.
+ * @returns Reasons to reject the output, empty if the citations are valid
+ */
+export function citationProblems(
+  content: string,
+  citations: Citation[],
+  sources: CitationSource[]
+): string[] {
+  const problems: string[] = [];
+
+  citations.forEach((citation, index) => {
+    const source = sources[citation.source - 1];
+    const quote = normalize(citation.snippet);
+
+    if (!source) {
+      problems.push(
+        `citations.${index}.source: there is no reference article ${citation.source} (${sources.length} were provided)`
+      );
+    } else if (!quote || !normalize(source.content).includes(quote)) {
+      problems.push(
+        `citations.${index}.snippet: not found in reference article ${citation.source}; quote its text exactly`
+      );
+    }
+  });
+
+  for (const [marker, number] of content.matchAll(CITATION_MARKER)) {
+    const n = Number(number);
+    if (n < 1 || n > citations.length) {
+      problems.push(
+        `content: ${marker} has no matching entry in citations (${citations.length} given)`
+      );
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Replaces `[[cite:N]]` markers with footnote links to `#cite-N`, which the
+ * frontend turns into hoverable footnotes.
+ */
+export function renderCitationMarkers(html: string): string {
+  return html.replace(
+    CITATION_MARKER,
+    (_, n: string) => `<sup><a href="#cite-${n}">[${n}]</a></sup>`
+  );
+}
+
+/**
+ * Renumbers `[[cite:N]]` markers to `[[cite:N + offset]]`, for appending
+ * one part's citations after another's.
+ */
+export function offsetCitationMarkers(html: string, offset: number): string {
+  return html.replace(
+    CITATION_MARKER,
+    (_, n: string) => `[[cite:${Number(n) + offset}]]`
+  );
+}
+
+/**
+ * Builds the article's citedReferences from the LLM's citations, in order,
+ * so footnote N is `citedReferences[N - 1]`.
+ */
+export function toCitedReferences(
+  citations: Citation[],
+  sources: CitationSource[]
+): CitedReference[] {
+  return citations.map((citation) => {
+    const source = sources[citation.source - 1];
+    return { title: source.title, url: source.url, snippet: citation.snippet };
+  });
+}
@@ -0,0 +1,4 @@
+/** Helper function to create a delay (for rate limiting) */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
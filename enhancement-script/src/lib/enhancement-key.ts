@@ -0,0 +1,43 @@
+import { createHash } from "crypto";
+import type { EnhancementFingerprint } from "../services/llm.service.js";
+
+/** Inputs that determine an enhancement's output */
+export interface EnhancementInputs extends EnhancementFingerprint {
+  originalArticleId: string;
+  /** Content hash of the original revision being enhanced */
+  originalContentHash: string;
+}
+
+/**
+ * Hashes the inputs of an enhancement run. The backend returns the existing
+ * enhanced version for a known key instead of storing a duplicate, so
+ * re-running with unchanged inputs is a no-op.
+ */
+export function enhancementKey(inputs: EnhancementInputs): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        inputs.originalArticleId,
+        inputs.originalContentHash,
+        inputs.promptVersion,
+        inputs.provider,
+        inputs.model,
+      ])
+    )
+    .digest("hex");
+}
+
+/**
+ * Fallback content hash for articles stored before the backend hashed
+ * content. Only needs to be stable, not to match the backend's hash.
+ */
+export function hashContent(article: {
+  title: string;
+  content: string;
+}): string {
+  return createHash("sha256")
+    .update(article.title)
+    .update("\n")
+    .update(article.content)
+    .digest("hex");
+}
@@ -0,0 +1,37 @@
+import * as cheerio from "cheerio";
+
+// Only the backend cleans and sanitizes HTML (backend/src/lib/html.ts). The
+// script reads text out of competitor pages and generated articles, and sends
+// generated HTML as is.
+
+/** Elements whose text is never part of an article */
+const DROPPED_TAGS =
+  "script, style, noscript, template, iframe, frame, frameset, object, " +
+  "embed, applet, form, input, button, select, textarea, nav, svg, math, " +
+  "canvas, head, link, meta, base";
+
+/** Elements that end a line of text when converting to plain text */
+const BLOCK_TAGS =
+  "p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, tr, figcaption, hr";
+
+/**
+ * Converts HTML to readable plain text.
+ * Block elements become paragraphs separated by blank lines.
+ */
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html, null, false);
+
+  $(DROPPED_TAGS).remove();
+  $("br").replaceWith("\n");
+  $(BLOCK_TAGS).each((_, el) => {
+    $(el).prepend("\n\n").append("\n\n");
+  });
+
+  return $.root()
+    .text()
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,78 @@
+/** Keywords kept for scoring */
+const MAX_KEYWORDS = 15;
+
+/** Shortest word that can be a keyword on its own */
+const MIN_KEYWORD_LENGTH = 4;
+
+/** Common English words that say nothing about an article's topic */
+const STOPWORDS = new Set(
+  `a about above after again against all also am an and any are as at be
+  because been before being below between both but by can could did do does
+  doing down during each even every few for from further get gets got had has
+  have having he her here hers herself him himself his how however i if in
+  into is it its itself just like make makes made many may me might more most
+  much must my myself new no nor not now of off often on once one only or
+  other our ours ourselves out over own really same she should since so some
+  such than that the their theirs them themselves then there these they this
+  those through to too under until up upon us use used using very want was
+  way ways we well were what when where whether which while who whom why will
+  with within without would you your yours yourself yourselves`.split(/\s+/)
+);
+
+function isKeyword(word: string): boolean {
+  return (
+    word.length >= MIN_KEYWORD_LENGTH &&
+    !STOPWORDS.has(word) &&
+    !/^\d+$/.test(word)
+  );
+}
+
+/** A text's candidate keywords: topical words and two-word phrases */
+function termsOf(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu);
+  if (!words) return [];
+
+  const terms = words.filter(isKeyword);
+  for (let i = 0; i + 1 < words.length; i++) {
+    if (isKeyword(words[i]) && isKeyword(words[i + 1])) {
+      terms.push(`${words[i]} ${words[i + 1]}`);
+    }
+  }
+  return terms;
+}
+
+/**
+ * The keywords competitor articles share: terms used by the most sources,
+ * then most often. With several sources, a term must appear in at least two,
+ * so one article's quirks don't count as the topic's vocabulary.
+ *
+ * @param sources - Scraped competitor articles (plain text)
+ */
+export function topKeywords(
+  sources: Array<{ content: string }>,
+  limit = MAX_KEYWORDS
+): string[] {
+  const documents = new Map<string, number>();
+  const occurrences = new Map<string, number>();
+
+  for (const source of sources) {
+    const terms = termsOf(source.content);
+    for (const term of terms) {
+      occurrences.set(term, (occurrences.get(term) ?? 0) + 1);
+    }
+    for (const term of new Set(terms)) {
+      documents.set(term, (documents.get(term) ?? 0) + 1);
+    }
+  }
+
+  const minDocuments = sources.length > 1 ? 2 : 1;
+
+  return [...documents]
+    .filter(([, count]) => count >= minDocuments)
+    .sort(
+      ([a, docsA], [b, docsB]) =>
+        docsB - docsA || occurrences.get(b)! - occurrences.get(a)!
+    )
+    .slice(0, limit)
+    .map(([term]) => term);
+}
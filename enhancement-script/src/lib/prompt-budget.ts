@@ -0,0 +1,195 @@
+import * as cheerio from "cheerio";
+
+/** Rough characters per token for English text and HTML */
+const CHARS_PER_TOKEN = 4;
+
+/** Shortest word used to judge a passage's relevance */
+const MIN_TERM_LENGTH = 4;
+
+/** Tags that start a new section of an article */
+const SECTION_HEADINGS = new Set(["h1", "h2"]);
+
+/**
+ * Estimates how many tokens a text takes. Providers tokenize differently,
+ * so this is only a conservative approximation by length.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cuts text to at most `maxLength` characters, at the last paragraph break
+ * before it if there is one, so passages are kept whole.
+ */
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  const cut = text.substring(0, maxLength);
+  const lastBreak = cut.lastIndexOf("\n\n");
+  return (lastBreak > 0 ? cut.substring(0, lastBreak) : cut).trimEnd();
+}
+
+/**
+ * Top-level blocks of an article, as HTML strings. Wrappers too big for
+ * `maxTokens` are opened up into their children; plain text is split into
+ * paragraphs.
+ */
+function blocksOf(html: string, maxTokens: number): string[] {
+  const $ = cheerio.load(html, null, false);
+
+  return $.root()
+    .contents()
+    .toArray()
+    .flatMap((node) => {
+      const block = $.html(node);
+      if (!block.trim()) return [];
+
+      const $node = $(node);
+      if (estimateTokens(block) > maxTokens && $node.children().length > 0) {
+        return blocksOf($node.html() ?? "", maxTokens);
+      }
+      return node.type === "text"
+        ? block.split(/\n{2,}/).filter((p) => p.trim())
+        : [block];
+    });
+}
+
+/**
+ * Splits an article into parts of at most `maxTokens`, cutting before h1/h2
+ * headings so each part holds whole sections. A section too long for one
+ * part is cut between its blocks; a single block longer than `maxTokens` is
+ * kept whole as a part of its own.
+ *
+ * @returns The parts' HTML, in order; one part if the article fits
+ */
+export function splitSections(html: string, maxTokens: number): string[] {
+  if (estimateTokens(html) <= maxTokens) return [html];
+
+  const sections: string[][] = [];
+  for (const block of blocksOf(html, maxTokens)) {
+    const tag = block.match(/^<(\w+)/)?.[1].toLowerCase();
+    if (sections.length === 0 || (tag && SECTION_HEADINGS.has(tag))) {
+      sections.push([]);
+    }
+    sections[sections.length - 1].push(block);
+  }
+
+  const parts: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+
+  const add = (block: string) => {
+    const tokens = estimateTokens(block);
+    if (current.length > 0 && size + tokens > maxTokens) {
+      parts.push(current.join("\n"));
+      current = [];
+      size = 0;
+    }
+    current.push(block);
+    size += tokens;
+  };
+
+  for (const section of sections) {
+    const tokens = estimateTokens(section.join("\n"));
+    // Start a whole section on a fresh part rather than splitting it
+    if (
+      current.length > 0 &&
+      size + tokens > maxTokens &&
+      tokens <= maxTokens
+    ) {
+      parts.push(current.join("\n"));
+      current = [];
+      size = 0;
+    }
+    section.forEach(add);
+  }
+  if (current.length > 0) parts.push(current.join("\n"));
+
+  return parts;
+}
+
+/** Lowercased words long enough to say what a text is about */
+function termsOf(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+      (word) => word.length >= MIN_TERM_LENGTH
+    )
+  );
+}
+
+/**
+ * Words of an article's title and headings, which passages of competitor
+ * articles are ranked by. Falls back to the whole text without headings.
+ */
+export function relevanceTerms(title: string, html: string): Set<string> {
+  const $ = cheerio.load(html, null, false);
+  const headings = $("h1, h2, h3, h4, h5, h6")
+    .map((_, el) => $(el).text())
+    .get()
+    .join(" ");
+
+  return termsOf(`${title} ${headings || $.root().text()}`);
+}
+
+/**
+ * Picks the paragraphs of a competitor article that share the most terms
+ * with the article being enhanced, until `maxTokens` is reached. Picked
+ * paragraphs are returned in their original order, verbatim, so citations
+ * can still quote them.
+ *
+ * @param text - Competitor article (plain text, paragraphs separated by
+ *   blank lines)
+ * @param terms - See `relevanceTerms`
+ */
+export function selectPassages(
+  text: string,
+  terms: Set<string>,
+  maxTokens: number
+): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  const paragraphs = text
+    .split(/\n{2,}/)
+    .map((paragraph, index) => {
+      let score = 0;
+      for (const term of termsOf(paragraph)) if (terms.has(term)) score++;
+      return { paragraph, index, score };
+    })
+    .filter(({ paragraph }) => paragraph.trim());
+
+  const ranked = [...paragraphs].sort(
+    (a, b) => b.score - a.score || a.index - b.index
+  );
+
+  const picked: typeof paragraphs = [];
+  let size = 0;
+  for (const candidate of ranked) {
+    const tokens = estimateTokens(candidate.paragraph);
+    if (size + tokens > maxTokens) continue;
+    picked.push(candidate);
+    size += tokens;
+  }
+
+  // Every paragraph is too long: cut the most relevant one
+  if (picked.length === 0 && ranked.length > 0) {
+    return ranked[0].paragraph.substring(0, maxTokens * CHARS_PER_TOKEN);
+  }
+
+  return picked
+    .sort((a, b) => a.index - b.index)
+    .map(({ paragraph }) => paragraph)
+    .join("\n\n");
+}
+
+/**
+ * Joins excerpts of one text, e.g. the passages of a competitor article
+ * picked for each part of a long article, keeping each paragraph once.
+ */
+export function joinExcerpts(excerpts: string[]): string {
+  const paragraphs = new Set(
+    excerpts.flatMap((excerpt) =>
+      excerpt.split(/\n{2,}/).filter((paragraph) => paragraph.trim())
+    )
+  );
+  return [...paragraphs].join("\n\n");
+}
@@ -0,0 +1,102 @@
+import { createHash } from "crypto";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { fileURLToPath } from "url";
+
+/** prompts/ at the package root, from both src/lib and dist/lib */
+export const PROMPTS_DIR = fileURLToPath(
+  new URL("../../prompts/", import.meta.url)
+);
+
+/** Each template of a prompt version, with the variables it may use */
+const TEMPLATE_VARIABLES = {
+  /** The enhancement prompt */
+  enhance: ["title", "content", "references", "part"],
+  /** One reference article, as listed in `{{references}}` */
+  reference: ["number", "title", "url", "content"],
+  /**
+   * Instructions for one part of a long article, inserted as `{{part}}`
+   * followed by a blank line
+   */
+  part: ["index", "count"],
+  /** Final pass over an article enhanced in parts */
+  stitch: ["title", "outline"],
+  /** Asks the model to fix a response that failed validation */
+  repair: ["problems", "previous", "format"],
+} as const;
+
+export type TemplateName = keyof typeof TEMPLATE_VARIABLES;
+
+/** Matches a `{{variable}}` placeholder */
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** One version of the prompt templates, read from prompts/<version>/ */
+export interface PromptTemplates {
+  version: string;
+  /** Hash of every template's text, to tell edited templates apart */
+  hash: string;
+  templates: Record<TemplateName, string>;
+}
+
+/** Versions found in the prompts directory, in name order */
+export function listPromptVersions(dir = PROMPTS_DIR): string[] {
+  return readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Reads the templates of a prompt version: one `<name>.md` file per
+ * template in prompts/<version>/.
+ * @throws Error if the version or a template is missing, or a template uses
+ *   a variable it isn't given
+ */
+export function loadPromptTemplates(
+  version: string,
+  dir = PROMPTS_DIR
+): PromptTemplates {
+  const versionDir = join(dir, version);
+  if (!existsSync(versionDir)) {
+    throw new Error(
+      `Prompt version "${version}" not found (available: ${listPromptVersions(dir).join(", ")})`
+    );
+  }
+
+  const hash = createHash("sha256");
+  const templates = {} as Record<TemplateName, string>;
+
+  for (const [name, variables] of Object.entries(TEMPLATE_VARIABLES)) {
+    const file = join(versionDir, `${name}.md`);
+    if (!existsSync(file)) {
+      throw new Error(`Prompt version "${version}" has no ${name}.md`);
+    }
+
+    const template = readFileSync(file, "utf8").trim();
+    for (const [placeholder, variable] of template.matchAll(VARIABLE)) {
+      if (!(variables as readonly string[]).includes(variable)) {
+        throw new Error(
+          `${version}/${name}.md: unknown variable ${placeholder} (allowed: ${variables.join(", ")})`
+        );
+      }
+    }
+
+    templates[name as TemplateName] = template;
+    hash.update(`${name}\n${template}\n`);
+  }
+
+  return { version, hash: hash.digest("hex").slice(0, 12), templates };
+}
+
+/**
+ * Fills a template's `{{variable}}` placeholders. Values are inserted as
+ * is; placeholders inside them are not expanded.
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string | number>
+): string {
+  return template.replace(VARIABLE, (placeholder, name: string) =>
+    name in variables ? String(variables[name]) : placeholder
+  );
+}
@@ -0,0 +1,273 @@
+import type { EnhancementDetail } from "../schemas/enhancement.schema.js";
+import { htmlToText } from "./html.js";
+
+/** Share of a fragment's words a stretch of content must have to match it */
+const MIN_MATCH_SCORE = 0.6;
+
+/** Share of a block's words a reported change must contain to cover it */
+const MIN_COVERAGE = 0.8;
+
+/** Word overlap above which an unreported block counts as modified */
+const MODIFIED_BLOCK_SIMILARITY = 0.5;
+
+/**
+ * How a reported change compares with the actual content:
+ * - verified: newText is in the enhanced content and not in the original
+ * - approximate: only a close (fuzzy) match of newText was found
+ * - unchanged: newText was already in the original, so nothing changed
+ * - not_found: nothing in the enhanced content resembles newText
+ */
+export type VerificationStatus =
+  | "verified"
+  | "approximate"
+  | "unchanged"
+  | "not_found";
+
+export interface DetailVerification {
+  status: VerificationStatus;
+  /** Share of newText's words found in the matched stretch, 0 to 1 */
+  score: number;
+  /** For modifications: whether originalText was found in the original */
+  originalTextFound?: boolean;
+}
+
+/** A reported change with its offsets located and its status checked */
+export type VerifiedDetail = EnhancementDetail & {
+  verification: DetailVerification;
+};
+
+/** A change between the two contents that no detail reports (plain text) */
+export interface UnreportedChange {
+  type: "addition" | "modification" | "removal";
+  originalText?: string;
+  newText?: string;
+}
+
+export interface VerificationResult {
+  details: VerifiedDetail[];
+  unreportedChanges: UnreportedChange[];
+}
+
+/** A word of an HTML string, outside tags, with its position */
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/** Lowercased words without punctuation; tags are skipped */
+function tokenize(html: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of html.matchAll(/<[^>]*>|[^\s<]+/g)) {
+    if (match[0].startsWith("<")) continue;
+
+    const term = match[0].toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+    if (term) {
+      tokens.push({
+        term,
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  }
+
+  return tokens;
+}
+
+function termsOf(html: string): string[] {
+  return tokenize(html).map((token) => token.term);
+}
+
+/**
+ * Finds `fragment` in `html`: exactly, or else the stretch of words sharing
+ * the most words with it.
+ * @returns Offsets into `html` and the share of words matched, or null if
+ *   no stretch matches at least MIN_MATCH_SCORE
+ */
+function locate(
+  html: string,
+  fragment: string
+): { start: number; end: number; score: number } | null {
+  const exact = html.indexOf(fragment);
+  if (exact !== -1) {
+    return { start: exact, end: exact + fragment.length, score: 1 };
+  }
+
+  const needle = termsOf(fragment);
+  const tokens = tokenize(html);
+  const size = needle.length;
+  if (size === 0 || tokens.length < size) return null;
+
+  // Slide a window of the fragment's length, tracking how many of its words
+  // the window still lacks
+  const missing = new Map<string, number>();
+  for (const term of needle) missing.set(term, (missing.get(term) ?? 0) + 1);
+
+  let shared = 0;
+  const enter = (term: string) => {
+    const count = missing.get(term);
+    if (count !== undefined) {
+      if (count > 0) shared++;
+      missing.set(term, count - 1);
+    }
+  };
+  const leave = (term: string) => {
+    const count = missing.get(term);
+    if (count !== undefined) {
+      if (count >= 0) shared--;
+      missing.set(term, count + 1);
+    }
+  };
+
+  let best = { index: 0, shared: -1 };
+  for (let i = 0; i < tokens.length; i++) {
+    enter(tokens[i].term);
+    if (i >= size) leave(tokens[i - size].term);
+    if (i >= size - 1 && shared > best.shared) {
+      best = { index: i - size + 1, shared };
+    }
+  }
+
+  const score = best.shared / size;
+  if (score < MIN_MATCH_SCORE) return null;
+
+  return {
+    start: tokens[best.index].start,
+    end: tokens[best.index + size - 1].end,
+    score,
+  };
+}
+
+/** Dice coefficient of two lists' sets of words */
+function similarity(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size + setB.size === 0) return 1;
+
+  let shared = 0;
+  for (const term of setA) if (setB.has(term)) shared++;
+
+  return (2 * shared) / (setA.size + setB.size);
+}
+
+/** Share of `block`'s distinct words that appear in `text` */
+function coverage(block: string[], text: Set<string>): number {
+  const terms = new Set(block);
+  let covered = 0;
+  for (const term of terms) if (text.has(term)) covered++;
+
+  return terms.size === 0 ? 1 : covered / terms.size;
+}
+
+/** Paragraph-level plain-text blocks, with their words */
+function blocksOf(html: string) {
+  return htmlToText(html)
+    .split(/\n{2,}/)
+    .map((text) => ({ text, terms: termsOf(text) }))
+    .filter((block) => block.terms.length > 0);
+}
+
+function checkDetail(
+  original: string,
+  enhanced: string,
+  detail: EnhancementDetail
+): VerifiedDetail {
+  const { startOffset: _start, endOffset: _end, ...rest } = detail;
+  const originalTextFound =
+    detail.originalText !== undefined
+      ? locate(original, detail.originalText) !== null
+      : undefined;
+
+  const match = locate(enhanced, detail.newText);
+  if (!match) {
+    return {
+      ...rest,
+      verification: { status: "not_found", score: 0, originalTextFound },
+    };
+  }
+
+  const status =
+    locate(original, detail.newText)?.score === 1
+      ? "unchanged"
+      : match.score === 1
+        ? "verified"
+        : "approximate";
+
+  return {
+    ...rest,
+    startOffset: match.start,
+    endOffset: match.end,
+    verification: { status, score: match.score, originalTextFound },
+  };
+}
+
+/**
+ * Checks the changes the LLM reports against the actual original and
+ * enhanced content. Each detail's newText (and originalText) is located by
+ * fuzzy matching; its offsets are set to where it was found, or dropped if
+ * it wasn't. Paragraphs that differ between the two contents but that no
+ * located detail covers are returned as unreported changes.
+ *
+ * @param original - Content of the original article
+ * @param enhanced - Enhanced content the details describe
+ */
+export function verifyEnhancementDetails(
+  original: string,
+  enhanced: string,
+  details: EnhancementDetail[]
+): VerificationResult {
+  const verified = details.map((detail) =>
+    checkDetail(original, enhanced, detail)
+  );
+
+  const located = verified.filter(
+    (d) => d.verification.status !== "not_found"
+  );
+  const reportedNew = located.map((d) => new Set(termsOf(d.newText)));
+  const reportedOld = located
+    .filter((d) => d.originalText)
+    .map((d) => new Set(termsOf(d.originalText!)));
+  const isCovered = (terms: string[], reported: Set<string>[]) =>
+    reported.some((text) => coverage(terms, text) >= MIN_COVERAGE);
+
+  const originalBlocks = blocksOf(original);
+  const enhancedBlocks = blocksOf(enhanced);
+  const key = (terms: string[]) => terms.join(" ");
+  const originalKeys = new Set(originalBlocks.map((b) => key(b.terms)));
+  const enhancedKeys = new Set(enhancedBlocks.map((b) => key(b.terms)));
+
+  const unreportedChanges: UnreportedChange[] = [];
+
+  for (const block of enhancedBlocks) {
+    if (originalKeys.has(key(block.terms))) continue;
+    if (isCovered(block.terms, reportedNew)) continue;
+
+    const closest = originalBlocks.find(
+      (b) => similarity(b.terms, block.terms) >= MODIFIED_BLOCK_SIMILARITY
+    );
+    unreportedChanges.push(
+      closest
+        ? {
+            type: "modification",
+            originalText: closest.text,
+            newText: block.text,
+          }
+        : { type: "addition", newText: block.text }
+    );
+  }
+
+  for (const block of originalBlocks) {
+    if (enhancedKeys.has(key(block.terms))) continue;
+    if (isCovered(block.terms, reportedOld)) continue;
+
+    const modified = enhancedBlocks.some(
+      (b) => similarity(b.terms, block.terms) >= MODIFIED_BLOCK_SIMILARITY
+    );
+    if (!modified) {
+      unreportedChanges.push({ type: "removal", originalText: block.text });
+    }
+  }
+
+  return { details: verified, unreportedChanges };
+}
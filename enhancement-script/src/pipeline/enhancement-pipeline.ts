@@ -0,0 +1,347 @@
+import { config, type Config } from "../config.js";
+import { delay } from "../lib/delay.js";
+import { enhancementKey, hashContent } from "../lib/enhancement-key.js";
+import {
+  renderCitationMarkers,
+  toCitedReferences,
+  type CitationSource,
+} from "../lib/citations.js";
+import { topKeywords } from "../lib/keywords.js";
+import { truncateText } from "../lib/prompt-budget.js";
+import {
+  verifyEnhancementDetails,
+  type VerificationResult,
+} from "../lib/verify.js";
+import {
+  apiService,
+  MAX_COMPETITOR_SOURCE_LENGTH,
+  type ApiService,
+  type Article,
+} from "../services/api.service.js";
+import {
+  scraperService,
+  type ScraperService,
+} from "../services/scraper.service.js";
+import {
+  searchService,
+  type SearchResult,
+  type SearchService,
+} from "../services/search.service.js";
+import {
+  llmService,
+  type EnhancedContent,
+  type LLMService,
+} from "../services/llm.service.js";
+
+/**
+ * Services the pipeline talks to. Pass stand-ins (e.g. services built on
+ * the fixture providers) to run the pipeline without network access.
+ */
+export interface EnhancementServices {
+  search: Pick<SearchService, "search">;
+  scraper: Pick<ScraperService, "scrapeArticleContent">;
+  llm: Pick<LLMService, "enhanceArticle" | "fingerprint">;
+  api: Pick<ApiService, "createEnhancedArticle" | "findEnhancedVersion">;
+}
+
+/** Feature flags and rate-limit delays used by the pipeline */
+export type PipelineOptions = Pick<
+  Config,
+  "enableSearch" | "enableLLM" | "delays"
+>;
+
+/** Steps of a run, in order */
+export const PROGRESS_STAGES = [
+  "checking",
+  "searching",
+  "scraping",
+  "enhancing",
+  "publishing",
+  "done",
+] as const;
+export type ProgressStage = (typeof PROGRESS_STAGES)[number];
+
+/** Progress update emitted as a run moves through its stages */
+export interface ProgressEvent {
+  stage: ProgressStage;
+  message: string;
+  /** Position within the stage, e.g. the source being scraped */
+  current?: number;
+  total?: number;
+}
+
+/** Per-run settings */
+export interface RunOptions {
+  /** Enhance even if a version with the same inputs already exists */
+  force?: boolean;
+  /** Called at each step; errors thrown here are ignored */
+  onProgress?: (event: ProgressEvent) => void;
+}
+
+/** Outcome of enhancing one article */
+export interface EnhancementResult {
+  /** The new enhanced version, or the existing one for the same inputs */
+  article: Article;
+  /** False if an existing version was reused */
+  created: boolean;
+}
+
+/**
+ * Enhances original articles. Used by the CLI and by the job worker, which
+ * forwards progress events to the backend for the web UI.
+ */
+export class EnhancementPipeline {
+  /**
+   * @param services - Search, scraper, LLM and API clients
+   * @param options - Feature flags and delays
+   */
+  constructor(
+    private services: EnhancementServices,
+    private options: PipelineOptions
+  ) {}
+
+  /**
+   * Enhances a single article by:
+   * 0. Skipping it if already enhanced with the same inputs (unless forced)
+   * 1. Searching the web for related competitor articles
+   * 2. Scraping competitor content
+   * 3. Using LLM to generate improved content
+   * 4. Checking the changes the LLM reports against the content
+   * 5. Citing the competitor articles the claims came from
+   * 6. Saving the enhanced version to the API as a draft for review; the
+   *    backend checks it for text copied from competitors
+   *
+   * A run that can't enhance anything (LLM disabled or not configured, or
+   * no competitor article scraped) fails rather than saving a copy of the
+   * original.
+   *
+   * @param article - The original article to enhance
+   * @param runOptions - Force flag and progress callback
+   * @returns The saved enhanced version, or the existing one
+   * @throws EnhancementRejectedError if the LLM output fails validation
+   * @throws Error if there is nothing to enhance the article with, or any
+   *   search, LLM or API error
+   */
+  async run(
+    article: Article,
+    runOptions: RunOptions = {}
+  ): Promise<EnhancementResult> {
+    const { search, scraper, llm, api } = this.services;
+    const { options } = this;
+    const report = (event: ProgressEvent) => {
+      try {
+        runOptions.onProgress?.(event);
+      } catch {
+        // Progress is informational; never fail a run over it
+      }
+    };
+
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`📝 Processing: ${article.title.substring(0, 50)}...`);
+    console.log(`${"=".repeat(60)}\n`);
+
+    if (!options.enableLLM) {
+      throw new Error(
+        "LLM enhancement is disabled (ENABLE_LLM_ENHANCEMENT=false)"
+      );
+    }
+
+    // Step 0: Key the run by original, its content, prompt and model
+    report({ stage: "checking", message: "Checking for an existing version" });
+
+    const fingerprint = llm.fingerprint;
+    const originalContentHash = article.contentHash ?? hashContent(article);
+    const key = enhancementKey({
+      originalArticleId: article.id,
+      originalContentHash,
+      ...fingerprint,
+    });
+
+    if (!runOptions.force) {
+      const existing = await api.findEnhancedVersion(article.id, key);
+
+      if (existing) {
+        console.log(
+          `⏭️ Already enhanced with the same inputs (version ${existing.version}). Use --force to redo.`
+        );
+        report({
+          stage: "done",
+          message: `Already enhanced with the same inputs (version ${existing.version})`,
+        });
+        return { article: existing, created: false };
+      }
+    }
+
+    // Step 1: Search the web for related articles
+    let searchResults: SearchResult[] = [];
+
+    if (options.enableSearch) {
+      report({
+        stage: "searching",
+        message: "Searching for related articles",
+      });
+      searchResults = await search.search(article.title, 2);
+      await delay(options.delays.betweenSearches);
+    }
+
+    // Step 2: Scrape content from search results
+    const competitorContent: CitationSource[] = [];
+
+    for (const [index, result] of searchResults.entries()) {
+      report({
+        stage: "scraping",
+        message: `Scraping ${new URL(result.url).hostname}`,
+        current: index + 1,
+        total: searchResults.length,
+      });
+
+      const page = await scraper.scrapeArticleContent(result.url);
+      if (page.text.length > 200) {
+        competitorContent.push({
+          title: result.title,
+          content: page.text,
+          url: result.url,
+        });
+      }
+      await delay(options.delays.betweenScrapes); // Rate limiting
+    }
+
+    console.log(
+      `\n📚 Scraped ${competitorContent.length} competitor articles`
+    );
+
+    if (competitorContent.length === 0) {
+      throw new Error(
+        searchResults.length === 0
+          ? "No related articles found to enhance the article with"
+          : "None of the related articles could be scraped"
+      );
+    }
+
+    // Step 3: Enhance with LLM
+    report({
+      stage: "enhancing",
+      message: `Calling ${fingerprint.provider} (${fingerprint.model}) with ${competitorContent.length} sources`,
+    });
+
+    const llmResult = await llm.enhanceArticle(
+      { title: article.title, content: article.content },
+      competitorContent
+    );
+
+    if (!llmResult) {
+      throw new Error("No LLM provider configured; set LLM_PROVIDER");
+    }
+
+    const { references, ...enhanced } = llmResult;
+    const enhancedContent: EnhancedContent = {
+      ...enhanced,
+      content: renderCitationMarkers(enhanced.content),
+      enhancementDetails: enhanced.enhancementDetails.map((detail) => ({
+        ...detail,
+        newText: renderCitationMarkers(detail.newText),
+      })),
+    };
+
+    // Step 4: Check the reported changes against the actual content
+    let verification: VerificationResult | null = null;
+
+    if (enhancedContent.enhancementDetails.length > 0) {
+      verification = verifyEnhancementDetails(
+        article.content,
+        enhancedContent.content,
+        enhancedContent.enhancementDetails
+      );
+
+      const confirmed = verification.details.filter((d) =>
+        ["verified", "approximate"].includes(d.verification.status)
+      ).length;
+      console.log(
+        `🔎 ${confirmed}/${verification.details.length} reported changes found in the content, ${verification.unreportedChanges.length} unreported`
+      );
+    }
+
+    // Step 5: Cite the claims' sources; footnote N is citations[N - 1].
+    // Without inline citations, list every source that was used.
+    const citations =
+      enhancedContent.citations.length > 0
+        ? toCitedReferences(enhancedContent.citations, competitorContent)
+        : competitorContent.map((c) => ({ title: c.title, url: c.url }));
+
+    // Step 6: Save enhanced article to backend API, as a draft for review.
+    // The backend measures text copied from what the prompts showed of the
+    // competitor articles and won't publish a version over its threshold
+    report({
+      stage: "publishing",
+      message: "Saving the enhanced version for review",
+    });
+
+    const result = await api.createEnhancedArticle(
+      {
+        title: enhancedContent.title,
+        content: enhancedContent.content,
+        excerpt: enhancedContent.excerpt,
+        author: article.author,
+        publishedAt: new Date(),
+        sourceUrl: article.sourceUrl,
+        tags: [...article.tags, "enhanced"],
+        originalArticleId: article.id,
+        originalRevision: article.revision,
+        isEnhanced: true,
+        citedReferences: citations,
+        enhancementDetails:
+          verification?.details ?? enhancedContent.enhancementDetails,
+        unreportedChanges: verification?.unreportedChanges,
+        enhancementKey: key,
+        enhancementMetadata: {
+          ...fingerprint,
+          originalContentHash,
+          // Competitor vocabulary the backend scores keyword coverage against
+          keywords: topKeywords(competitorContent),
+        },
+        competitorSources: references.map((reference) => ({
+          ...reference,
+          content: truncateText(
+            reference.content,
+            MAX_COMPETITOR_SOURCE_LENGTH
+          ),
+        })),
+      },
+      runOptions.force
+    );
+
+    if (result.created) {
+      console.log(
+        `\n✅ Enhanced version ${result.article.version} saved as a draft for review!`
+      );
+
+      const similarity = result.article.enhancementMetadata?.similarity as
+        | { maxSourceOverlap: number; exceedsThreshold: boolean }
+        | undefined;
+      if (similarity?.exceedsThreshold) {
+        console.warn(
+          `⚠️ ${Math.round(similarity.maxSourceOverlap * 100)}% of the text matches a competitor source; it can't be published until revised`
+        );
+      }
+    } else {
+      console.log(`\n⏭️ Another run already saved these inputs`);
+    }
+
+    report({
+      stage: "done",
+      message: `Saved version ${result.article.version} as a draft`,
+    });
+    return result;
+  }
+}
+
+/** Singleton pipeline using the real services and config */
+export const enhancementPipeline = new EnhancementPipeline(
+  {
+    search: searchService,
+    scraper: scraperService,
+    llm: llmService,
+    api: apiService,
+  },
+  config
+);
@@ -0,0 +1,71 @@
+import type { LLMProvider } from "./types.js";
+
+/** Marks the content the fixture adds, so tests can find it */
+const FIXTURE_SECTION_HEADING = "Key Takeaways";
+
+/**
+ * Deterministic offline provider for tests and dry runs.
+ *
+ * Given canned responses, returns them in order (repeating the last one).
+ * Otherwise it echoes the original article found in the prompt back as a
+ * valid enhancement with one added "Key Takeaways" section, so the whole
+ * pipeline can run without network access.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = "fixture";
+  readonly model: string;
+  /** Every prompt received, in order */
+  readonly prompts: string[] = [];
+
+  constructor(
+    private responses: string[] = [],
+    model = "fixture-v1"
+  ) {
+    this.model = model;
+  }
+
+  async generate(prompt: string) {
+    this.prompts.push(prompt);
+
+    if (this.responses.length > 0) {
+      const index = Math.min(this.prompts.length, this.responses.length) - 1;
+      return this.responses[index];
+    }
+
+    return JSON.stringify(this.echo(prompt));
+  }
+
+  /**
+   * Builds an enhancement of the prompt's original article (or of the
+   * outline, for the stitching pass of an article enhanced in parts)
+   */
+  private echo(prompt: string) {
+    const match = prompt.match(
+      /## (?:Original Article|Article Outline):\s*\nTitle: (.*)\n([\s\S]*?)\n## /
+    );
+    const title = match?.[1].trim() || "Untitled";
+    const content = match?.[2].trim() || "";
+    const text = content
+      .replace(/<[^>]*>/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+    const firstSentence = text.match(/^.*?[.!?](\s|$)/)?.[0].trim() || text;
+
+    const addition =
+      `<h2>${FIXTURE_SECTION_HEADING}</h2>\n` +
+      `<p>${firstSentence.substring(0, 300)}</p>`;
+
+    return {
+      title,
+      content: `${content}\n${addition}`,
+      excerpt: text.substring(0, 200),
+      enhancementDetails: [
+        {
+          type: "addition",
+          newText: addition,
+          reason: "Added a summary of the main point for skimming readers",
+        },
+      ],
+    };
+  }
+}
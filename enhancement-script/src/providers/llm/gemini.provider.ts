@@ -0,0 +1,44 @@
+import {
+  GoogleGenerativeAI,
+  type GenerativeModel,
+} from "@google/generative-ai";
+import type { LLMConfig } from "../../config.js";
+import type { GenerateOptions, LLMProvider } from "./types.js";
+
+/**
+ * Google Gemini provider.
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  readonly model: string;
+  private client: GenerativeModel;
+
+  constructor(config: LLMConfig & { apiKey: string }) {
+    this.model = config.model;
+    this.client = new GoogleGenerativeAI(config.apiKey).getGenerativeModel({
+      model: config.model,
+      generationConfig: {
+        temperature: config.temperature,
+        topP: config.topP,
+        maxOutputTokens: config.maxOutputTokens,
+      },
+    });
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}) {
+    const result = await this.client.generateContent({
+      contents: [{ role: "user", parts: [{ text: prompt }] }],
+      generationConfig: {
+        ...(options.temperature !== undefined && {
+          temperature: options.temperature,
+        }),
+        ...(options.topP !== undefined && { topP: options.topP }),
+        ...(options.maxOutputTokens !== undefined && {
+          maxOutputTokens: options.maxOutputTokens,
+        }),
+      },
+    });
+
+    return result.response.text();
+  }
+}
@@ -0,0 +1,42 @@
+import { readFileSync } from "fs";
+import type { LLMConfig } from "../../config.js";
+import { FixtureProvider } from "./fixture.provider.js";
+import { GeminiProvider } from "./gemini.provider.js";
+import { OpenAICompatibleProvider } from "./openai-compatible.provider.js";
+import type { LLMProvider } from "./types.js";
+
+export type { GenerateOptions, LLMProvider } from "./types.js";
+export { FixtureProvider, GeminiProvider, OpenAICompatibleProvider };
+
+/**
+ * Reads canned fixture responses: a JSON array whose items are either
+ * response strings or objects (sent as their JSON).
+ */
+function loadFixtureResponses(file: string): string[] {
+  const parsed: unknown = JSON.parse(readFileSync(file, "utf8"));
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+
+  return items.map((item) =>
+    typeof item === "string" ? item : JSON.stringify(item)
+  );
+}
+
+/**
+ * Creates the provider selected in config.
+ * @returns The provider, or null if it needs an API key that isn't set
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider | null {
+  switch (config.provider) {
+    case "gemini":
+      return config.apiKey
+        ? new GeminiProvider({ ...config, apiKey: config.apiKey })
+        : null;
+    case "openai":
+      return new OpenAICompatibleProvider(config);
+    case "fixture":
+      return new FixtureProvider(
+        config.fixtureFile ? loadFixtureResponses(config.fixtureFile) : [],
+        config.model
+      );
+  }
+}
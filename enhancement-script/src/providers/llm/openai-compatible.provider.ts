@@ -0,0 +1,50 @@
+import axios, { type AxiosInstance } from "axios";
+import type { LLMConfig } from "../../config.js";
+import type { GenerateOptions, LLMProvider } from "./types.js";
+
+/** Subset of an OpenAI chat completion response that we read */
+interface ChatCompletionResponse {
+  choices: Array<{ message: { content: string | null } }>;
+}
+
+/**
+ * Provider for any server implementing the OpenAI chat completions API:
+ * OpenAI itself, or local model servers such as Ollama, vLLM or LM Studio.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  readonly model: string;
+  private client: AxiosInstance;
+
+  constructor(private config: LLMConfig) {
+    this.model = config.model;
+    this.client = axios.create({
+      baseURL: config.baseUrl.replace(/\/+$/, ""),
+      // Local models can be slow on long articles
+      timeout: 300000,
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+    });
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}) {
+    const response = await this.client.post<ChatCompletionResponse>(
+      "/chat/completions",
+      {
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: options.temperature ?? this.config.temperature,
+        top_p: options.topP ?? this.config.topP,
+        max_tokens: options.maxOutputTokens ?? this.config.maxOutputTokens,
+      }
+    );
+
+    const content = response.data.choices[0]?.message.content;
+    if (!content) {
+      throw new Error(`${this.model} returned an empty completion`);
+    }
+    return content;
+  }
+}
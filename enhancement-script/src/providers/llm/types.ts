@@ -0,0 +1,23 @@
+/** Generation settings a caller may override per request */
+export interface GenerateOptions {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+/**
+ * A text-generation backend.
+ * Implementations send a single prompt and return the raw model text.
+ */
+export interface LLMProvider {
+  /** Provider name, e.g. "gemini" */
+  readonly name: string;
+  /** Model identifier sent to the provider */
+  readonly model: string;
+
+  /**
+   * Generates a completion for a prompt.
+   * @throws Error if the request fails
+   */
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+}
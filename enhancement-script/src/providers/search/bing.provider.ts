@@ -0,0 +1,52 @@
+import axios from "axios";
+import type { SearchProvider, SearchResult } from "./types.js";
+
+/** Page in a Bing Web Search API response */
+interface BingWebPage {
+  name?: string;
+  url?: string;
+  snippet?: string;
+}
+
+/**
+ * Bing Web Search API (v7) provider.
+ * Needs a subscription key from the Azure portal in BING_API_KEY.
+ */
+export class BingSearchProvider implements SearchProvider {
+  readonly name = "bing";
+
+  constructor(
+    private apiKey: string,
+    private endpoint = "https://api.bing.microsoft.com/v7.0/search"
+  ) {}
+
+  async search(query: string, numResults: number): Promise<SearchResult[]> {
+    try {
+      const response = await axios.get<{
+        webPages?: { value?: BingWebPage[] };
+      }>(this.endpoint, {
+        params: {
+          q: query,
+          count: Math.min(numResults, 50),
+          responseFilter: "Webpages",
+        },
+        headers: { "Ocp-Apim-Subscription-Key": this.apiKey },
+        timeout: 15000,
+      });
+
+      return (response.data.webPages?.value || []).map((page) => ({
+        title: page.name || "",
+        url: page.url || "",
+        snippet: page.snippet || "",
+      }));
+    } catch (error: any) {
+      if (error.response?.status === 401) {
+        throw new Error("Invalid Bing subscription key");
+      }
+      if (error.response?.status === 429) {
+        throw new Error("Bing rate limit or quota exceeded");
+      }
+      throw error;
+    }
+  }
+}
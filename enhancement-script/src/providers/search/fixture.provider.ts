@@ -0,0 +1,35 @@
+import type { SearchProvider, SearchResult } from "./types.js";
+
+/**
+ * Canned results: either one list used for every query, or lists keyed
+ * by query (case-insensitive), with `"*"` as the fallback key.
+ */
+export type SearchFixtures =
+  | SearchResult[]
+  | Record<string, SearchResult[]>;
+
+/**
+ * Offline provider returning canned results, for tests and dry runs.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = "fixture";
+  /** Every query received, in order */
+  readonly queries: string[] = [];
+
+  constructor(private fixtures: SearchFixtures = []) {}
+
+  async search(query: string, numResults: number): Promise<SearchResult[]> {
+    this.queries.push(query);
+
+    if (Array.isArray(this.fixtures)) {
+      return this.fixtures.slice(0, numResults);
+    }
+
+    const key = Object.keys(this.fixtures).find(
+      (k) => k.toLowerCase() === query.toLowerCase()
+    );
+    const results = this.fixtures[key ?? "*"] ?? [];
+
+    return results.slice(0, numResults);
+  }
+}
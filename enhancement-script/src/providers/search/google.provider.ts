@@ -0,0 +1,60 @@
+import axios from "axios";
+import type { SearchProvider, SearchResult } from "./types.js";
+
+/** Item in a Custom Search API response */
+interface GoogleItem {
+  title?: string;
+  link?: string;
+  snippet?: string;
+}
+
+/**
+ * Google Custom Search provider.
+ *
+ * To use it, you need:
+ * 1. Create a Custom Search Engine at https://programmablesearchengine.google.com/
+ * 2. Get an API Key from https://console.cloud.google.com/apis/credentials
+ * 3. Enable "Custom Search API" in Google Cloud Console
+ * 4. Set GOOGLE_API_KEY and GOOGLE_CX in your .env file
+ */
+export class GoogleSearchProvider implements SearchProvider {
+  readonly name = "google";
+
+  constructor(
+    private apiKey: string,
+    private cx: string
+  ) {}
+
+  async search(query: string, numResults: number): Promise<SearchResult[]> {
+    try {
+      const response = await axios.get<{ items?: GoogleItem[] }>(
+        "https://www.googleapis.com/customsearch/v1",
+        {
+          params: {
+            key: this.apiKey,
+            cx: this.cx,
+            // Steer results toward articles rather than product pages
+            q: `${query} blog article`,
+            // The API returns at most 10 results per request
+            num: Math.min(numResults, 10),
+          },
+          timeout: 15000,
+        }
+      );
+
+      return (response.data.items || []).map((item) => ({
+        title: item.title || "",
+        url: item.link || "",
+        snippet: item.snippet || "",
+      }));
+    } catch (error: any) {
+      if (error.response?.status === 403) {
+        throw new Error("API quota exceeded or invalid API key");
+      }
+      if (error.response?.status === 400) {
+        throw new Error("Invalid Custom Search Engine ID (CX)");
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { readFileSync } from "fs";
+import type { SearchConfig } from "../../config.js";
+import { BingSearchProvider } from "./bing.provider.js";
+import {
+  FixtureSearchProvider,
+  type SearchFixtures,
+} from "./fixture.provider.js";
+import { GoogleSearchProvider } from "./google.provider.js";
+import { SearxngSearchProvider } from "./searxng.provider.js";
+import type { SearchProvider } from "./types.js";
+
+export type { SearchProvider, SearchResult } from "./types.js";
+export type { SearchFixtures } from "./fixture.provider.js";
+export {
+  BingSearchProvider,
+  FixtureSearchProvider,
+  GoogleSearchProvider,
+  SearxngSearchProvider,
+};
+
+/**
+ * Creates the provider selected in config.
+ * @returns The provider, or null if its credentials aren't set
+ */
+export function createSearchProvider(
+  config: SearchConfig
+): SearchProvider | null {
+  switch (config.provider) {
+    case "google":
+      return config.googleApiKey && config.googleCx
+        ? new GoogleSearchProvider(config.googleApiKey, config.googleCx)
+        : null;
+    case "bing":
+      return config.bingApiKey
+        ? new BingSearchProvider(config.bingApiKey, config.bingEndpoint)
+        : null;
+    case "searxng":
+      return config.searxngUrl
+        ? new SearxngSearchProvider(config.searxngUrl)
+        : null;
+    case "fixture": {
+      const fixtures: SearchFixtures = config.fixtureFile
+        ? JSON.parse(readFileSync(config.fixtureFile, "utf8"))
+        : [];
+      return new FixtureSearchProvider(fixtures);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import axios from "axios";
+import type { SearchProvider, SearchResult } from "./types.js";
+
+/** Result in a SearxNG JSON response */
+interface SearxngResult {
+  title?: string;
+  url?: string;
+  content?: string;
+}
+
+/**
+ * Provider for a self-hosted SearxNG metasearch instance.
+ * The instance must have the `json` format enabled in its settings.yml.
+ */
+export class SearxngSearchProvider implements SearchProvider {
+  readonly name = "searxng";
+
+  constructor(private baseUrl: string) {}
+
+  async search(query: string, numResults: number): Promise<SearchResult[]> {
+    try {
+      const response = await axios.get<{ results?: SearxngResult[] }>(
+        `${this.baseUrl.replace(/\/+$/, "")}/search`,
+        {
+          params: { q: query, format: "json", categories: "general" },
+          timeout: 15000,
+        }
+      );
+
+      return (response.data.results || [])
+        .slice(0, numResults)
+        .map((result) => ({
+          title: result.title || "",
+          url: result.url || "",
+          snippet: result.content || "",
+        }));
+    } catch (error: any) {
+      if (error.response?.status === 403) {
+        throw new Error("SearxNG instance does not allow the json format");
+      }
+      throw error;
+    }
+  }
+}
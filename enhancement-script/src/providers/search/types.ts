@@ -0,0 +1,23 @@
+/** A web search hit, normalized across providers */
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+/**
+ * A web search backend.
+ * Implementations map their API's response onto `SearchResult`.
+ */
+export interface SearchProvider {
+  /** Provider name, e.g. "google" */
+  readonly name: string;
+
+  /**
+   * Searches the web.
+   * @param query - Search query string
+   * @param numResults - Maximum number of results to return
+   * @throws Error if the request fails
+   */
+  search(query: string, numResults: number): Promise<SearchResult[]>;
+}
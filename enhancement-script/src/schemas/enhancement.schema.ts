@@ -0,0 +1,58 @@
+import { z } from "zod";
+
+/**
+ * A single change the LLM reports having made to the article.
+ * Mirrors `enhancementDetailSchema` in backend/src/schemas/article.schema.ts.
+ */
+export const enhancementDetailSchema = z
+  .object({
+    type: z.enum(["addition", "modification"]),
+    originalText: z.string().optional(),
+    newText: z.string().min(1, "newText must not be empty"),
+    reason: z.string().min(1, "reason must not be empty"),
+    /** Character offsets of newText inside the enhanced content */
+    startOffset: z.number().int().nonnegative().optional(),
+    endOffset: z.number().int().nonnegative().optional(),
+  })
+  .refine(
+    (d) => (d.startOffset === undefined) === (d.endOffset === undefined),
+    "startOffset and endOffset must be provided together"
+  );
+
+/**
+ * Source the LLM cites for a claim. The content marks the claim with
+ * `[[cite:N]]`, N being the citation's 1-based position in `citations`.
+ */
+export const citationSchema = z.object({
+  /** 1-based number of the reference article in the prompt */
+  source: z.number().int().positive(),
+  /** Text from the source that supports the claim, quoted exactly */
+  snippet: z.string().trim().min(1, "snippet must not be empty").max(500),
+});
+
+/** Enhanced article as the LLM must return it */
+export const enhancedContentSchema = z.object({
+  title: z.string().trim().min(1, "title must not be empty").max(500),
+  content: z
+    .string()
+    .min(1, "content must not be empty")
+    .refine(
+      (html) => /<(p|h[1-6]|ul|ol)\b/i.test(html),
+      "content must be HTML with paragraphs or headings"
+    ),
+  excerpt: z.string().trim().min(1, "excerpt must not be empty").max(1000),
+  enhancementDetails: z
+    .array(enhancementDetailSchema)
+    .min(1, "enhancementDetails must list at least one change"),
+  citations: z.array(citationSchema).default([]),
+});
+
+/** Title and excerpt written for an article enhanced in parts */
+export const articleSummarySchema = enhancedContentSchema.pick({
+  title: true,
+  excerpt: true,
+});
+
+export type EnhancementDetail = z.infer<typeof enhancementDetailSchema>;
+export type Citation = z.infer<typeof citationSchema>;
+export type EnhancedContent = z.infer<typeof enhancedContentSchema>;
@@ -1,18 +1,107 @@
 import axios, { type AxiosInstance } from "axios";
+import { config } from "../config.js";
+import type { EnhancementDetail } from "./llm.service.js";
+import type { CitationSource } from "../lib/citations.js";
+import type { UnreportedChange, VerifiedDetail } from "../lib/verify.js";
+import type { ProgressEvent } from "../pipeline/enhancement-pipeline.js";
+
+/**
+ * Longest competitor excerpt the backend stores, in characters (see
+ * `competitorSourceSchema` in the backend)
+ */
+export const MAX_COMPETITOR_SOURCE_LENGTH = 20_000;
+
+/** A source an enhanced article cites; footnote N links to the N-th one */
+export interface CitedReference {
+  title: string;
+  url: string;
+  /** Text from the source supporting the cited claim */
+  snippet?: string;
+}
 
 /** Article data structure from the backend API */
 export interface Article {
   id: string;
   title: string;
   content: string;
+  contentText: string | null;
   excerpt: string | null;
   author: string;
   publishedAt: string;
   sourceUrl: string;
   tags: string[];
   originalArticleId: string | null;
+  originalRevision: number | null;
+  /** 0 for originals; enhanced versions are numbered from 1 */
+  version: number;
+  enhancementKey: string | null;
+  enhancementMetadata: Record<string, unknown> | null;
+  revision: number;
+  contentHash: string | null;
   isEnhanced: boolean;
-  citedReferences: Array<{ title: string; url: string }> | null;
+  citedReferences: CitedReference[] | null;
+  enhancementDetails: EnhancementDetail[] | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Enhanced version to store, linked to its original */
+export interface NewEnhancedArticle {
+  title: string;
+  content: string;
+  excerpt: string;
+  author: string;
+  publishedAt: Date;
+  sourceUrl: string;
+  tags: string[];
+  originalArticleId: string;
+  originalRevision?: number;
+  isEnhanced: boolean;
+  citedReferences: CitedReference[];
+  enhancementDetails?: Array<EnhancementDetail | VerifiedDetail>;
+  /** Changes found in the content that no detail reports */
+  unreportedChanges?: UnreportedChange[];
+  /** Identifies the enhancement inputs, see `enhancementKey()` */
+  enhancementKey: string;
+  enhancementMetadata: Record<string, unknown>;
+  /**
+   * What the prompts showed of each competitor article, which the backend
+   * checks for copied text; each at most `MAX_COMPETITOR_SOURCE_LENGTH`
+   */
+  competitorSources: CitationSource[];
+}
+
+/** Counts of a text diff between two versions of an article */
+export interface DiffStats {
+  blocksUnchanged: number;
+  blocksAdded: number;
+  blocksRemoved: number;
+  blocksChanged: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+/** Lifecycle of an enhancement job */
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/** Enhancement job from the backend queue */
+export interface EnhancementJob {
+  id: string;
+  articleId: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  /** Enhance even if a version with the same inputs already exists */
+  force: boolean;
+  lastError: string | null;
+  runAfter: string;
+  lockedBy: string | null;
+  lockedUntil: string | null;
+  resultArticleId: string | null;
+  /** Latest progress reported by the worker */
+  progress: ProgressEvent | null;
+  startedAt: string | null;
+  finishedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -43,12 +132,17 @@ export interface ArticleResponse {
 export class ApiService {
   private client: AxiosInstance;
 
-  constructor(baseUrl: string = "http://localhost:3000/api") {
+  /**
+   * @param baseUrl - Backend API base URL
+   * @param apiKey - Key sent as a Bearer token; writes need an editor key
+   */
+  constructor(baseUrl: string = "http://localhost:3000/api", apiKey?: string) {
     this.client = axios.create({
       baseURL: baseUrl,
       timeout: 30000,
       headers: {
         "Content-Type": "application/json",
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
       },
     });
   }
@@ -73,40 +167,143 @@ export class ApiService {
   }
 
   /**
-   * Creates a new enhanced article linked to an original.
+   * Finds an original's enhanced version built from the given inputs.
+   * Versions in any review status count, so drafts aren't enhanced twice.
+   * @param enhancementKey - Key from `enhancementKey()`
+   * @returns The newest matching version, or null if there is none
+   */
+  async findEnhancedVersion(
+    originalArticleId: string,
+    enhancementKey: string
+  ): Promise<Article | null> {
+    const response = await this.client.get<ArticleListResponse>("/articles", {
+      params: { originalArticleId, enhancementKey, status: "all", limit: 1 },
+    });
+    return response.data.data[0] ?? null;
+  }
+
+  /**
+   * Compares two versions of an original with the backend's text diff.
+   * @returns Paragraph and word counts of the changes from `id` to `otherId`
+   */
+  async getDiffStats(id: string, otherId: string): Promise<DiffStats> {
+    const response = await this.client.get<{ data: { stats: DiffStats } }>(
+      `/articles/${id}/diff/${otherId}`
+    );
+    return response.data.data.stats;
+  }
+
+  /**
+   * Creates a new enhanced version of an original. If a version with the
+   * same enhancementKey exists, the backend returns it instead, unless forced.
    * @param article - Enhanced article data with originalArticleId
-   * @returns Created article
+   * @param force - Create a new version even if the key already exists
+   * @returns The article, and whether it was newly created
    */
-  async createEnhancedArticle(article: {
-    title: string;
-    content: string;
-    excerpt: string;
-    author: string;
-    publishedAt: Date;
-    sourceUrl: string;
-    tags: string[];
-    originalArticleId: string;
-    isEnhanced: boolean;
-    citedReferences: Array<{ title: string; url: string }>;
-    enhancementDetails?: Array<{
-      type: "addition" | "modification";
-      originalText?: string;
-      newText: string;
-      reason: string;
-    }>;
-  }): Promise<Article> {
+  async createEnhancedArticle(
+    article: NewEnhancedArticle,
+    force = false
+  ): Promise<{ article: Article; created: boolean }> {
     try {
-      const response = await this.client.post<ArticleResponse>("/articles", {
-        ...article,
-        publishedAt: article.publishedAt.toISOString(),
-      });
-      return response.data.data;
+      const response = await this.client.post<ArticleResponse>(
+        "/articles",
+        { ...article, publishedAt: article.publishedAt.toISOString() },
+        { params: force ? { force: "true" } : undefined }
+      );
+      return {
+        article: response.data.data,
+        created: response.status === 201,
+      };
     } catch (error) {
       console.error("Failed to create enhanced article:", error);
       throw error;
     }
   }
 
+  /**
+   * Queues an enhancement job for every original. Originals that already have
+   * a queued or running job are skipped.
+   * @param force - Re-enhance even originals already enhanced with the same
+   *   inputs
+   * @returns The newly queued jobs
+   */
+  async enqueueAllJobs(force = false): Promise<EnhancementJob[]> {
+    const response = await this.client.post<{ data: EnhancementJob[] }>(
+      "/jobs",
+      { all: true, force }
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Claims the next runnable job, together with its original article.
+   * @returns The job, or null if none is runnable right now
+   */
+  async claimJob(
+    workerId: string,
+    leaseMs: number
+  ): Promise<(EnhancementJob & { article: Article }) | null> {
+    const response = await this.client.post<{
+      data: (EnhancementJob & { article: Article }) | null;
+    }>("/jobs/claim", { workerId, leaseMs });
+    return response.data.data;
+  }
+
+  /** Extends this worker's lease on a job */
+  async heartbeatJob(
+    id: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<void> {
+    await this.client.post(`/jobs/${id}/heartbeat`, { workerId, leaseMs });
+  }
+
+  /** Records the pipeline's latest progress on a job */
+  async reportJobProgress(
+    id: string,
+    workerId: string,
+    progress: ProgressEvent
+  ): Promise<void> {
+    await this.client.post(`/jobs/${id}/progress`, { workerId, progress });
+  }
+
+  /** Marks a job as succeeded */
+  async completeJob(
+    id: string,
+    workerId: string,
+    resultArticleId?: string
+  ): Promise<EnhancementJob> {
+    const response = await this.client.post<{ data: EnhancementJob }>(
+      `/jobs/${id}/complete`,
+      { workerId, resultArticleId }
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Records a failed attempt.
+   * @returns The job, queued again for a retry or marked failed
+   */
+  async failJob(
+    id: string,
+    workerId: string,
+    error: string
+  ): Promise<EnhancementJob> {
+    const response = await this.client.post<{ data: EnhancementJob }>(
+      `/jobs/${id}/fail`,
+      { workerId, error }
+    );
+    return response.data.data;
+  }
+
+  /** Counts jobs with the given status */
+  async countJobs(status: JobStatus): Promise<number> {
+    const response = await this.client.get<{
+      pagination: { total: number };
+    }>("/jobs", { params: { status, limit: 1 } });
+    return response.data.pagination.total;
+  }
+
   /**
    * Checks if the backend API is reachable.
    * @returns true if API responds, false otherwise
@@ -121,7 +318,5 @@ export class ApiService {
   }
 }
 
-/** Singleton instance with URL from environment */
-export const apiService = new ApiService(
-  process.env.API_URL || "http://localhost:3000/api"
-);
+/** Singleton instance with URL and key from config */
+export const apiService = new ApiService(config.apiUrl, config.apiKey);
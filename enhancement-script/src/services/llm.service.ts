@@ -1,213 +1,573 @@
+import type { z, ZodError } from "zod";
+import { config, type LLMConfig } from "../config.js";
 import {
-  GoogleGenerativeAI,
-  type GenerativeModel,
-} from "@google/generative-ai";
-
-/** Structure for enhanced article content */
-export interface EnhancedContent {
-  title: string;
-  content: string;
-  excerpt: string;
-  enhancementDetails?: Array<{
-    type: "addition" | "modification";
-    originalText?: string;
-    newText: string;
-    reason: string;
-  }>;
-}
+  createLLMProvider,
+  type LLMProvider,
+} from "../providers/llm/index.js";
+import {
+  articleSummarySchema,
+  enhancedContentSchema,
+  type EnhancedContent,
+} from "../schemas/enhancement.schema.js";
+import {
+  citationProblems,
+  offsetCitationMarkers,
+  type CitationSource,
+} from "../lib/citations.js";
+import {
+  estimateTokens,
+  joinExcerpts,
+  relevanceTerms,
+  selectPassages,
+  splitSections,
+} from "../lib/prompt-budget.js";
+import {
+  loadPromptTemplates,
+  renderTemplate,
+  type PromptTemplates,
+} from "../lib/prompts.js";
+
+export type {
+  Citation,
+  EnhancedContent,
+  EnhancementDetail,
+} from "../schemas/enhancement.schema.js";
 
 /**
- * Service for enhancing articles using Google Gemini AI.
- * Takes original content and competitor articles as context.
+ * Sampling parameters sent with every request, and the token budget
+ * prompts and responses are fitted to
  */
-export class LLMService {
-  private model: GenerativeModel | null = null;
-  private isInitialized = false;
+export type GenerationSettings = Pick<
+  LLMConfig,
+  "temperature" | "topP" | "maxInputTokens" | "maxOutputTokens"
+>;
 
+/** Enhanced content and what the prompts showed of each competitor */
+export type LLMEnhancement = EnhancedContent & {
   /**
-   * Initializes the Gemini client with an API key.
-   * @param apiKey - Google Gemini API key
+   * The competitor articles as fitted into the prompts, in the order given:
+   * the only text of theirs the model saw
    */
-  initialize(apiKey: string) {
-    if (!apiKey || apiKey === "your_gemini_api_key_here") {
-      console.warn("⚠️ Gemini API key not configured. LLM features disabled.");
-      return;
-    }
+  references: CitationSource[];
+};
 
-    try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      this.model = genAI.getGenerativeModel({
-        model: "gemini-2.0-flash",
-        generationConfig: {
-          temperature: 0.7,
-          topP: 0.8,
-          maxOutputTokens: 8192, // Increased for larger detailed response
-        },
-      });
-      this.isInitialized = true;
-      console.log("✅ Gemini AI initialized");
-    } catch (error) {
-      console.error("❌ Failed to initialize Gemini:", error);
+/** Identifies what produced an enhancement, for idempotency and metadata */
+export interface EnhancementFingerprint {
+  /** Prompt templates used, see src/lib/prompts.ts */
+  promptVersion: string;
+  /** Hash of the templates' text, which changes if they are edited */
+  promptHash: string;
+  provider: string;
+  model: string;
+  generation: GenerationSettings;
+}
+
+/** Longest previous response echoed back in a repair prompt */
+const MAX_REPAIR_ECHO_LENGTH = 20000;
+
+/**
+ * Response tokens needed per token of original: the enhanced content is
+ * longer than the original, and enhancementDetails repeat much of it.
+ */
+const OUTPUT_EXPANSION = 3;
+
+/** Prompt tokens taken by each reference article's heading and URL */
+const REFERENCE_OVERHEAD_TOKENS = 50;
+
+/** Shape of an enhancement response, restated in repair prompts */
+const ENHANCED_CONTENT_FORMAT = `{
+  "title": "Non-empty article title",
+  "content": "The full enhanced article in HTML, with <h2>/<h3> headings and <p> paragraphs",
+  "excerpt": "A 2-3 sentence summary (plain text)",
+  "enhancementDetails": [
+    {
+      "type": "addition" | "modification",
+      "originalText": "For modifications only: the original paragraph",
+      "newText": "The added or modified HTML fragment, exactly as it appears in content",
+      "reason": "Why this change was made"
+    }
+  ],
+  "citations": [
+    {
+      "source": "Number of the reference article, 1-based",
+      "snippet": "Passage quoted word for word from that reference article"
     }
+  ]
+}
+Content markers [[cite:N]] refer to the N-th entry of "citations".`;
+
+/** Shape of a stitching response, restated in repair prompts */
+const ARTICLE_SUMMARY_FORMAT = `{
+  "title": "Non-empty article title",
+  "excerpt": "A 2-3 sentence summary of the whole article (plain text)"
+}`;
+
+/**
+ * Thrown when the LLM's output still fails validation after every repair
+ * attempt. The article must not be published.
+ */
+export class EnhancementRejectedError extends Error {
+  constructor(public reasons: string[]) {
+    super(`LLM output rejected: ${reasons.join("; ")}`);
+    this.name = "EnhancementRejectedError";
+  }
+}
+
+/** Outcome of validating one LLM response */
+type ParseResult<T> =
+  { success: true; data: T } | { success: false; reasons: string[] };
+
+/** Position of a part in an article enhanced part by part */
+type PartPosition = {
+  index: number;
+  count: number;
+};
+
+/** Flattens zod issues into "path: message" reasons */
+function formatIssues(error: ZodError): string[] {
+  return error.issues.map(
+    (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+  );
+}
+
+/** Text of an HTML fragment's h2 and h3 headings */
+function headingsOf(html: string): string[] {
+  return [...html.matchAll(/<h[23]\b[^>]*>([\s\S]*?)<\/h[23]>/gi)].map(
+    ([, inner]) => inner.replace(/<[^>]*>/g, "").trim()
+  );
+}
+
+/**
+ * Service for enhancing articles with an LLM.
+ * Takes original content and competitor articles as context; the model
+ * itself comes from a pluggable provider (see src/providers/llm).
+ */
+export class LLMService {
+  /**
+   * @param provider - Backend to generate with; null disables enhancement
+   * @param maxRepairAttempts - Repair prompts sent after invalid output
+   * @param settings - Sampling parameters and token budget
+   * @param prompts - Prompt templates to render
+   */
+  constructor(
+    private provider: LLMProvider | null,
+    private maxRepairAttempts = 2,
+    private settings: GenerationSettings = {
+      temperature: 0.7,
+      topP: 0.8,
+      maxInputTokens: 32000,
+      maxOutputTokens: 8192,
+    },
+    private prompts: PromptTemplates = loadPromptTemplates(
+      config.llm.promptVersion
+    )
+  ) {}
+
+  /** True if a provider is configured */
+  get isAvailable(): boolean {
+    return this.provider !== null;
+  }
+
+  /** Name and model of the configured provider, for logs */
+  get description(): string {
+    return this.provider
+      ? `${this.provider.name} (${this.provider.model})`
+      : "none";
+  }
+
+  /** Prompt templates, provider, model and settings used for enhancements */
+  get fingerprint(): EnhancementFingerprint {
+    return {
+      promptVersion: this.prompts.version,
+      promptHash: this.prompts.hash,
+      provider: this.provider?.name ?? "none",
+      model: this.provider?.model ?? "none",
+      generation: { ...this.settings },
+    };
   }
 
   /**
    * Enhances an article using competitor content as reference.
-   * Uses Gemini to generate improved, more comprehensive content.
+   * Asks the provider for improved, more comprehensive content.
+   *
+   * Prompts are fitted to the token budget: each reference article is cut
+   * down to its passages most relevant to the original's headings. An
+   * original whose enhancement wouldn't fit in one response is enhanced
+   * section by section, then a final pass titles and summarizes the joined
+   * parts.
+   *
+   * Each response must match `enhancedContentSchema`, and its citations must
+   * quote the competitor articles given (see `citationProblems`). Invalid
+   * output is sent back with the list of problems for up to
+   * `maxRepairAttempts` repairs; every failure reason is logged.
    *
    * @param originalArticle - The article to enhance
    * @param competitorContent - Array of competitor articles for reference
-   * @returns Enhanced content or null if LLM is unavailable
+   * @returns Enhanced content with the reference excerpts used, or null if
+   *   no LLM provider is configured
+   * @throws EnhancementRejectedError if the output is still invalid
    */
   async enhanceArticle(
     originalArticle: {
       title: string;
       content: string;
     },
-    competitorContent: Array<{
-      title: string;
-      content: string;
-      url: string;
-    }>
-  ): Promise<EnhancedContent | null> {
-    if (!this.isInitialized || !this.model) {
-      console.warn("⚠️ LLM not initialized. Returning original content.");
+    competitorContent: CitationSource[]
+  ): Promise<LLMEnhancement | null> {
+    if (!this.provider) {
+      console.warn("⚠️ No LLM provider configured.");
       return null;
     }
 
-    console.log(`🤖 Enhancing article with Gemini...`);
+    console.log(`🤖 Enhancing article with ${this.description}...`);
 
-    const prompt = this.buildEnhancementPrompt(
-      originalArticle,
-      competitorContent
+    const parts = splitSections(
+      originalArticle.content,
+      Math.floor(
+        Math.min(
+          this.settings.maxOutputTokens / OUTPUT_EXPANSION,
+          this.settings.maxInputTokens / 2
+        )
+      )
     );
 
     try {
-      const result = await this.model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-
-      const enhanced = this.parseEnhancedContent(text, originalArticle);
+      const enhanced =
+        parts.length === 1
+          ? await this.enhancePart(originalArticle, competitorContent)
+          : await this.enhanceInParts(
+              originalArticle,
+              parts,
+              competitorContent
+            );
 
       console.log(`✅ Article enhanced successfully`);
       return enhanced;
     } catch (error: any) {
       console.error(`❌ LLM enhancement failed: ${error.message}`);
-      // return null;
       throw error;
     }
   }
 
   /**
-   * Builds the prompt for article enhancement.
+   * Enhances a whole article, or one part of it when `position` is given.
+   * Citations are numbered from 1 within the part.
+   */
+  private async enhancePart(
+    article: { title: string; content: string },
+    competitors: CitationSource[],
+    position?: PartPosition
+  ): Promise<LLMEnhancement> {
+    const references = this.fitReferences(article, competitors, position);
+    const prompt = this.buildEnhancementPrompt(article, references, position);
+
+    const enhanced = await this.generateValidated(
+      prompt,
+      (text) => this.parseEnhancedContent(text, competitors),
+      ENHANCED_CONTENT_FORMAT
+    );
+    return { ...enhanced, references };
+  }
+
+  /**
+   * Enhances a long article part by part and joins the results in order,
+   * renumbering each part's citations after the previous parts'. A final
+   * stitching pass writes the title and excerpt of the whole article.
+   */
+  private async enhanceInParts(
+    original: { title: string; content: string },
+    parts: string[],
+    competitors: CitationSource[]
+  ): Promise<LLMEnhancement> {
+    console.log(
+      `🧩 Article is too long for one response; enhancing it in ${parts.length} parts`
+    );
+
+    const enhanced: LLMEnhancement[] = [];
+    for (const [index, content] of parts.entries()) {
+      console.log(`🧩 Enhancing part ${index + 1}/${parts.length}...`);
+      const part = { title: original.title, content };
+      const position = { index: index + 1, count: parts.length };
+      enhanced.push(await this.enhancePart(part, competitors, position));
+    }
+
+    const joined: Omit<EnhancedContent, "title" | "excerpt"> = {
+      content: "",
+      enhancementDetails: [],
+      citations: [],
+    };
+    for (const part of enhanced) {
+      const offset = joined.citations.length;
+      joined.content += `${offsetCitationMarkers(part.content, offset)}\n`;
+      joined.enhancementDetails.push(
+        ...part.enhancementDetails.map((detail) => ({
+          ...detail,
+          newText: offsetCitationMarkers(detail.newText, offset),
+        }))
+      );
+      joined.citations.push(...part.citations);
+    }
+
+    console.log(`🧵 Stitching ${parts.length} parts...`);
+    const summary = await this.generateValidated(
+      this.buildStitchPrompt(original.title, enhanced),
+      (text) => this.parseJson(text, articleSummarySchema),
+      ARTICLE_SUMMARY_FORMAT
+    );
+
+    const references = competitors.map((competitor, i) => ({
+      ...competitor,
+      content: joinExcerpts(enhanced.map((part) => part.references[i].content)),
+    }));
+
+    return {
+      ...summary,
+      ...joined,
+      content: joined.content.trim(),
+      references,
+    };
+  }
+
+  /**
+   * Sends a prompt and validates the response with `parse`, asking for
+   * repairs while it is invalid.
+   * @param format - Expected response shape, restated in repair prompts
+   * @throws EnhancementRejectedError if the output is still invalid
+   */
+  private async generateValidated<T>(
+    prompt: string,
+    parse: (text: string) => ParseResult<T>,
+    format: string
+  ): Promise<T> {
+    const { temperature, topP, maxOutputTokens } = this.settings;
+    const options = { temperature, topP, maxOutputTokens };
+
+    let text = await this.provider!.generate(prompt, options);
+    let result = parse(text);
+
+    for (
+      let attempt = 1;
+      !result.success && attempt <= this.maxRepairAttempts;
+      attempt++
+    ) {
+      this.logRejection(result.reasons);
+      console.log(
+        `🔧 Asking for a repair (attempt ${attempt}/${this.maxRepairAttempts})...`
+      );
+      text = await this.provider!.generate(
+        this.buildRepairPrompt(text, result.reasons, format),
+        options
+      );
+      result = parse(text);
+    }
+
+    if (!result.success) {
+      this.logRejection(result.reasons);
+      throw new EnhancementRejectedError(result.reasons);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Cuts the reference articles down to what fits in the prompt's token
+   * budget next to the article, keeping each one's passages most relevant
+   * to the article's title and headings. Short references keep all their
+   * text; the budget they leave is shared among the longer ones.
+   */
+  private fitReferences(
+    article: { title: string; content: string },
+    competitors: CitationSource[],
+    position?: PartPosition
+  ): CitationSource[] {
+    const fixed = estimateTokens(
+      this.buildEnhancementPrompt(article, [], position)
+    );
+    let remaining =
+      this.settings.maxInputTokens -
+      fixed -
+      competitors.length * REFERENCE_OVERHEAD_TOKENS;
+
+    if (remaining <= 0 && competitors.length > 0) {
+      console.warn(
+        `⚠️ No room left for reference articles within ${this.settings.maxInputTokens} input tokens`
+      );
+    }
+
+    const terms = relevanceTerms(article.title, article.content);
+    const fitted = [...competitors];
+    const shortestFirst = competitors
+      .map((competitor, index) => ({ competitor, index }))
+      .sort(
+        (a, b) => a.competitor.content.length - b.competitor.content.length
+      );
+
+    shortestFirst.forEach(({ competitor, index }, k) => {
+      const share = Math.floor(
+        Math.max(0, remaining) / (shortestFirst.length - k)
+      );
+      const content = selectPassages(competitor.content, terms, share);
+      fitted[index] = { ...competitor, content };
+      remaining -= estimateTokens(content);
+    });
+
+    return fitted;
+  }
+
+  private logRejection(reasons: string[]) {
+    console.warn(`⚠️ LLM output failed validation:`);
+    reasons.forEach((reason) => console.warn(`   - ${reason}`));
+  }
+
+  /**
+   * Builds the prompt for article enhancement from the `enhance` template.
    * Includes original article and competitor content as context.
    */
   private buildEnhancementPrompt(
     original: { title: string; content: string },
-    competitors: Array<{ title: string; content: string; url: string }>
+    competitors: CitationSource[],
+    position?: PartPosition
   ): string {
-    const competitorTexts = competitors
-      .map(
-        (c, i) => `
-### Reference Article ${i + 1}: "${c.title}"
-URL: ${c.url}
-
-${c.content.substring(0, 2000)}
-`
+    const { templates } = this.prompts;
+    const references = competitors
+      .map((c, i) =>
+        renderTemplate(templates.reference, {
+          number: i + 1,
+          title: c.title,
+          url: c.url,
+          content: c.content,
+        })
       )
-      .join("\n---\n");
-
-    return `
-You are an expert content writer and SEO specialist. Your task is to enhance an existing article to make it more comprehensive, engaging, and competitive with top-ranking articles on the same topic.
-
-## Instructions:
-1. Analyze the original article and the reference articles from competitors
-2. Improve the original article by:
-   - Making the content more comprehensive and detailed
-   - Improving the structure and readability
-   - Adding relevant information from competitors (without copying)
-   - Making the tone more engaging
-   - Ensuring good SEO practices (headings, keywords)
-3. Keep the original author's voice and perspective
-4. Do NOT copy content directly from competitors
-5. The enhanced article should be clearly better than the original
-
-## CRITICAL REQUIREMENT:
-You must provide a detailed breakdown of the enhancements you made. Identify specific blocks of text you added or modified and explain WHY you made those changes (e.g., "Added latest statistics," "Clarified technical term," "Included missing step").
-
-## Original Article:
-Title: ${original.title}
-
-${original.content}
-
-## Reference Articles (Top Ranking Competitors):
-${competitorTexts}
-
-## Output Format:
-Respond with a JSON object containing:
-{
-  "title": "Enhanced title (keep similar to original or improve)",
-  "content": "The full enhanced article content in HTML format with proper headings (h2, h3), paragraphs, and lists",
-  "excerpt": "A compelling 2-3 sentence summary of the article",
-  "enhancementDetails": [
-    {
-      "type": "addition" | "modification",
-      "newText": "The actual text you added or the specific paragraph you modified (HTML fragment)",
-      "reason": "Clear explanation of why this was added/changed"
-    },
-    ...
-  ]
-}
+      .join("\n\n---\n\n");
+
+    return renderTemplate(templates.enhance, {
+      title: original.title,
+      content: original.content,
+      references,
+      part: position ? `${renderTemplate(templates.part, position)}\n\n` : "",
+    });
+  }
+
+  /**
+   * Builds a prompt asking the model to fix its previous response.
+   * Lists every validation problem and restates the required shape.
+   */
+  private buildRepairPrompt(
+    previous: string,
+    reasons: string[],
+    format: string
+  ): string {
+    return renderTemplate(this.prompts.templates.repair, {
+      problems: reasons.map((reason) => `- ${reason}`).join("\n"),
+      previous: previous.substring(0, MAX_REPAIR_ECHO_LENGTH),
+      format,
+    });
+  }
+
+  /**
+   * Builds the final prompt for an article enhanced in parts from the
+   * `stitch` template, asking for the title and excerpt of the whole article
+   * from its parts' outlines.
+   */
+  private buildStitchPrompt(title: string, parts: EnhancedContent[]): string {
+    const outline = parts
+      .map((part, i) => {
+        const headings = headingsOf(part.content);
+        return `Part ${i + 1}${
+          headings.length > 0 ? ` (${headings.join(" / ")})` : ""
+        }: ${part.excerpt}`;
+      })
+      .join("\n\n");
 
-Important: 
-- Return ONLY the JSON object, no additional text or markdown code blocks.
-- Ensure 'enhancementDetails' contains at least 3-5 key significant changes.
-- The 'newText' in details should match sections in the full 'content'.
-`;
+    return renderTemplate(this.prompts.templates.stitch, { title, outline });
   }
 
   /**
-   * Parses LLM response into structured enhanced content.
-   * Handles JSON parsing and provides fallback for malformed responses.
+   * Parses an LLM response and validates it against `enhancedContentSchema`
+   * and the sources it may cite.
+   * @returns The content, or every reason it was rejected
    */
   private parseEnhancedContent(
     response: string,
-    original: { title: string; content: string }
-  ): EnhancedContent {
-    try {
-      let jsonStr = response.trim();
+    sources: CitationSource[]
+  ): ParseResult<EnhancedContent> {
+    const result = this.parseJson(response, enhancedContentSchema);
+    if (!result.success) return result;
 
-      // Remove markdown code blocks if present
-      if (jsonStr.startsWith("```")) {
-        jsonStr = jsonStr
-          .replace(/^```(json)?\n?/, "")
-          .replace(/```$/, "")
-          .trim();
-      }
+    const problems = citationProblems(
+      result.data.content,
+      result.data.citations,
+      sources
+    );
 
-      const parsed = JSON.parse(jsonStr);
+    return problems.length === 0
+      ? result
+      : { success: false, reasons: problems };
+  }
 
-      return {
-        title: parsed.title || original.title,
-        content: parsed.content || original.content,
-        excerpt: parsed.excerpt || original.content.substring(0, 200),
-        enhancementDetails: parsed.enhancementDetails || [],
-      };
-    } catch (error) {
-      console.warn(
-        "⚠️ Failed to parse LLM response as JSON, using text directly"
-      );
+  /**
+   * Parses the JSON object in an LLM response and validates it.
+   * Tolerates markdown code fences and text around the JSON object.
+   * @returns The data, or every reason it was rejected
+   */
+  private parseJson<T>(
+    response: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  ): ParseResult<T> {
+    let jsonStr = response.trim();
+
+    // Remove markdown code blocks if present
+    const fenced = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced) {
+      jsonStr = fenced[1].trim();
+    }
 
-      // Fallback: use response as content
+    // Otherwise take the outermost object, ignoring any chatter around it
+    const start = jsonStr.indexOf("{");
+    const end = jsonStr.lastIndexOf("}");
+    if (start > 0 || (end !== -1 && end < jsonStr.length - 1)) {
+      jsonStr = jsonStr.slice(Math.max(start, 0), end + 1);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(jsonStr);
+    } catch (error: any) {
       return {
-        title: original.title + " (Enhanced)",
-        content: response,
-        excerpt: response.substring(0, 200),
-        enhancementDetails: [],
+        success: false,
+        reasons: [`Response is not valid JSON: ${error.message}`],
       };
     }
+
+    const result = schema.safeParse(parsed);
+
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, reasons: formatIssues(result.error) };
   }
 }
 
-/** Singleton instance of LLMService */
-export const llmService = new LLMService();
+/**
+ * Creates a service using the provider and settings in `llmConfig`.
+ * @param promptVersion - Prompt templates to use instead of the configured
+ *   ones
+ */
+export function createLLMService(
+  llmConfig: LLMConfig,
+  promptVersion = llmConfig.promptVersion
+): LLMService {
+  return new LLMService(
+    createLLMProvider(llmConfig),
+    llmConfig.maxRepairAttempts,
+    {
+      temperature: llmConfig.temperature,
+      topP: llmConfig.topP,
+      maxInputTokens: llmConfig.maxInputTokens,
+      maxOutputTokens: llmConfig.maxOutputTokens,
+    },
+    loadPromptTemplates(promptVersion)
+  );
+}
+
+/** Singleton instance using the provider chosen in config */
+export const llmService = createLLMService(config.llm);
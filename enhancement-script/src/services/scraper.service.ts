@@ -0,0 +1,102 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { htmlToText } from "../lib/html.js";
+import { truncateText } from "../lib/prompt-budget.js";
+
+/**
+ * Longest text kept from a page, in characters. Prompts only include the
+ * passages that fit their token budget (see src/lib/prompt-budget.ts), so
+ * this just keeps enough to choose from without holding whole sites.
+ */
+export const MAX_SCRAPED_LENGTH = 50_000;
+
+/** Scraped competitor page, as plain text */
+export interface ScrapedPage {
+  text: string;
+}
+
+/**
+ * Service for scraping competitor articles found by search.
+ */
+export class ScraperService {
+  /** Rotate user agents for scraping */
+  private userAgents = [
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  ];
+
+  private getRandomUserAgent(): string {
+    return this.userAgents[Math.floor(Math.random() * this.userAgents.length)];
+  }
+
+  /**
+   * Scrapes article content from a URL.
+   * Removes nav, ads, and other non-content elements, then converts the
+   * article to plain text, cut to `MAX_SCRAPED_LENGTH` at a paragraph break.
+   *
+   * @param url - URL to scrape
+   * @returns Article text (empty on failure)
+   */
+  async scrapeArticleContent(url: string): Promise<ScrapedPage> {
+    console.log(`📄 Scraping: ${url.substring(0, 60)}...`);
+
+    try {
+      const response = await axios.get(url, {
+        headers: {
+          "User-Agent": this.getRandomUserAgent(),
+          Accept: "text/html,application/xhtml+xml",
+        },
+        timeout: 15000,
+      });
+
+      const $ = cheerio.load(response.data);
+
+      // Remove non-content elements
+      $(
+        "script, style, nav, header, footer, aside, .sidebar, .comments, .advertisement, .related-posts"
+      ).remove();
+
+      // Try common content selectors
+      let text = "";
+      const contentSelectors = [
+        "article",
+        '[role="main"]',
+        ".post-content",
+        ".entry-content",
+        ".article-content",
+        ".blog-content",
+        "main",
+        ".content",
+      ];
+
+      for (const selector of contentSelectors) {
+        const element = $(selector).first();
+        if (element.length) {
+          text = htmlToText(element.html() ?? "");
+          if (text.length > 500) break;
+        }
+      }
+
+      // Fallback: get all paragraphs
+      if (text.length < 500) {
+        text = htmlToText(
+          $("p")
+            .map((_, el) => $.html(el))
+            .get()
+            .join("\n")
+        );
+      }
+
+      text = truncateText(text, MAX_SCRAPED_LENGTH);
+
+      console.log(`   ✅ Scraped ${text.length} characters`);
+      return { text };
+    } catch (error: any) {
+      console.error(`❌ Failed to scrape ${url}: ${error.message}`);
+      return { text: "" };
+    }
+  }
+}
+
+/** Singleton instance of ScraperService */
+export const scraperService = new ScraperService();
@@ -0,0 +1,116 @@
+import { config, type SearchConfig } from "../config.js";
+import {
+  createSearchProvider,
+  type SearchProvider,
+  type SearchResult,
+} from "../providers/search/index.js";
+
+export type { SearchResult } from "../providers/search/index.js";
+
+/** Extra results requested so filtering still leaves enough */
+const OVERFETCH_FACTOR = 3;
+
+/** True if `hostname` is `domain` or one of its subdomains */
+function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Service for finding competitor articles on the web.
+ * Delegates the search to a pluggable provider (see src/providers/search)
+ * and applies the configured domain allowlist and blocklist to the results.
+ */
+export class SearchService {
+  /**
+   * @param provider - Backend to search with; null disables search
+   * @param filters - Domain allowlist and blocklist
+   */
+  constructor(
+    private provider: SearchProvider | null,
+    private filters: Pick<SearchConfig, "allowedDomains" | "blockedDomains">
+  ) {}
+
+  /** Name of the configured provider, for logs */
+  get description(): string {
+    return this.provider?.name ?? "none";
+  }
+
+  /**
+   * Searches for articles related to a query.
+   * Provider errors are logged and yield no results.
+   *
+   * @param query - Search query string
+   * @param numResults - Number of results to return (default: 3)
+   * @returns Filtered, de-duplicated results with title, URL, and snippet
+   */
+  async search(query: string, numResults: number = 3): Promise<SearchResult[]> {
+    if (!this.provider) {
+      console.log("⚠️  No search provider configured; skipping search.");
+      console.log(
+        "   Set SEARCH_PROVIDER (google, bing, searxng or fixture) and its credentials in .env"
+      );
+      return [];
+    }
+
+    console.log(
+      `🔍 Searching ${this.provider.name} for: "${query.substring(0, 50)}..."`
+    );
+
+    try {
+      const raw = await this.provider.search(
+        query,
+        numResults * OVERFETCH_FACTOR
+      );
+      const results = this.filter(raw).slice(0, numResults);
+
+      console.log(
+        `   ✅ Found ${results.length} results (${raw.length - results.length} filtered out)`
+      );
+      return results;
+    } catch (error: any) {
+      console.error(
+        `❌ ${this.provider.name} search failed: ${error.message}`
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Drops results with invalid URLs, duplicates, blocked domains and,
+   * when an allowlist is set, domains not on it.
+   */
+  filter(results: SearchResult[]): SearchResult[] {
+    const { allowedDomains, blockedDomains } = this.filters;
+    const seen = new Set<string>();
+
+    return results.filter((result) => {
+      let url: URL;
+      try {
+        url = new URL(result.url);
+      } catch {
+        return false;
+      }
+
+      if (url.protocol !== "http:" && url.protocol !== "https:") return false;
+
+      const hostname = url.hostname.toLowerCase().replace(/^www\./, "");
+      const key = `${hostname}${url.pathname.replace(/\/+$/, "")}`;
+
+      if (seen.has(key)) return false;
+      seen.add(key);
+
+      if (blockedDomains.some((d) => matchesDomain(hostname, d))) return false;
+
+      return (
+        allowedDomains.length === 0 ||
+        allowedDomains.some((d) => matchesDomain(hostname, d))
+      );
+    });
+  }
+}
+
+/** Singleton instance using the provider and filters from config */
+export const searchService = new SearchService(
+  createSearchProvider(config.search),
+  config.search
+);
@@ -0,0 +1,174 @@
+import axios from "axios";
+import { config, type WorkerConfig } from "./config.js";
+import { delay } from "./lib/delay.js";
+import {
+  enhancementPipeline,
+  type EnhancementPipeline,
+  type ProgressEvent,
+} from "./pipeline/enhancement-pipeline.js";
+import { apiService, type ApiService } from "./services/api.service.js";
+import { EnhancementRejectedError } from "./services/llm.service.js";
+
+/** Options for a worker run */
+export interface WorkerOptions extends WorkerConfig {
+  /** Keep polling when the queue is empty instead of returning */
+  watch: boolean;
+  /** Pause between jobs, to avoid rate limits */
+  betweenJobsMs: number;
+  /** Stops the worker after the current job */
+  signal?: AbortSignal;
+}
+
+/** Counts from a worker run */
+export interface WorkerSummary {
+  processed: number;
+  succeeded: number;
+  /** Already enhanced with the same inputs */
+  skipped: number;
+  failed: number;
+}
+
+type JobApi = Pick<
+  ApiService,
+  "claimJob" | "heartbeatJob" | "reportJobProgress" | "completeJob" | "failJob"
+>;
+
+/** Best description of an error, including the backend's message if any */
+function describeError(error: unknown): string {
+  if (error instanceof EnhancementRejectedError) {
+    return `Rejected: ${error.reasons.join("; ")}`;
+  }
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    return `${error.message}: ${error.response.data.error}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Processes enhancement jobs from the backend queue until it is empty
+ * (or, in watch mode, until stopped).
+ *
+ * Each claimed job holds a lease that is renewed while the article is being
+ * enhanced, and pipeline progress is forwarded to the backend, where the web
+ * UI follows it. If the process is killed mid-job, the lease runs out and the
+ * job is claimed again by the next worker; nothing else is lost. Failures are
+ * reported to the backend, which schedules retries with backoff.
+ *
+ * @param options - Worker identity, lease and polling settings
+ * @param api - Backend client (defaults to the real one)
+ * @param pipeline - Enhancement pipeline (defaults to the real one)
+ */
+export async function runWorker(
+  options: WorkerOptions,
+  api: JobApi = apiService,
+  pipeline: Pick<EnhancementPipeline, "run"> = enhancementPipeline
+): Promise<WorkerSummary> {
+  const { workerId, leaseMs, signal } = options;
+  const summary: WorkerSummary = {
+    processed: 0,
+    succeeded: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  // Only jobs that called out to search and LLM APIs need rate limiting
+  let rateLimited = false;
+
+  console.log(`👷 Worker ${workerId} started`);
+
+  while (!signal?.aborted) {
+    const job = await api.claimJob(workerId, leaseMs);
+
+    if (!job) {
+      if (!options.watch) break;
+      await delay(options.pollIntervalMs);
+      continue;
+    }
+
+    // Rate-limit between jobs, but don't wait after the last one
+    if (rateLimited) {
+      console.log(
+        `\n⏳ Waiting ${options.betweenJobsMs / 1000}s before next job...`
+      );
+      await delay(options.betweenJobsMs);
+    }
+
+    summary.processed++;
+    console.log(
+      `\n🎫 Job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`
+    );
+
+    // Renew the lease well before it runs out
+    const heartbeat = setInterval(() => {
+      api.heartbeatJob(job.id, workerId, leaseMs).catch((error) => {
+        console.warn(`⚠️ Heartbeat failed: ${describeError(error)}`);
+      });
+    }, leaseMs / 3);
+
+    // Send progress in order, without holding up the pipeline
+    let reporting = Promise.resolve();
+    const onProgress = (event: ProgressEvent) => {
+      reporting = reporting
+        .then(() => api.reportJobProgress(job.id, workerId, event))
+        .catch((error) => {
+          console.warn(
+            `⚠️ Progress update failed: ${describeError(error)}`
+          );
+        });
+    };
+
+    try {
+      const result = await pipeline.run(job.article, {
+        force: job.force,
+        onProgress,
+      });
+      await reporting;
+      await api.completeJob(job.id, workerId, result.article.id);
+      rateLimited = result.created;
+      if (result.created) {
+        summary.succeeded++;
+      } else {
+        summary.skipped++;
+      }
+    } catch (error) {
+      await reporting;
+      rateLimited = true;
+      summary.failed++;
+      const message = describeError(error);
+      console.error(`❌ Job failed: ${message}`);
+
+      try {
+        const updated = await api.failJob(job.id, workerId, message);
+
+        if (updated.status === "queued") {
+          console.log(
+            `🔁 Will retry after ${new Date(updated.runAfter).toLocaleString()}`
+          );
+        } else {
+          console.log(`🛑 Giving up after ${updated.attempts} attempt(s)`);
+        }
+      } catch (reportError) {
+        // The lease will expire and the job will be retried anyway
+        console.error(
+          `⚠️ Could not report failure: ${describeError(reportError)}`
+        );
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  return summary;
+}
+
+/** Worker options from config */
+export function workerOptionsFromConfig(
+  watch: boolean,
+  signal?: AbortSignal
+): WorkerOptions {
+  return {
+    ...config.worker,
+    watch,
+    betweenJobsMs: config.delays.betweenArticles,
+    signal,
+  };
+}
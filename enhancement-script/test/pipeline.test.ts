@@ -0,0 +1,246 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import {
+  EnhancementPipeline,
+  type PipelineOptions,
+} from "../src/pipeline/enhancement-pipeline.js";
+import { FixtureProvider } from "../src/providers/llm/fixture.provider.js";
+import { FixtureSearchProvider } from "../src/providers/search/fixture.provider.js";
+import type { SearchResult } from "../src/providers/search/types.js";
+import {
+  MAX_COMPETITOR_SOURCE_LENGTH,
+  type Article,
+  type NewEnhancedArticle,
+} from "../src/services/api.service.js";
+import { LLMService } from "../src/services/llm.service.js";
+import { SearchService } from "../src/services/search.service.js";
+
+const ORIGINAL: Article = {
+  id: "7c1e3a52-0d6f-4b8e-9a51-2f4d6c8b1e90",
+  title: "Choosing a Chatbot for Customer Support",
+  content:
+    "<h2>Why chatbots</h2>\n<p>Chatbots answer common questions at any " +
+    "hour. They let support teams focus on harder cases.</p>\n" +
+    "<h2>What to compare</h2>\n<p>Compare pricing, integrations and how " +
+    "easily the bot hands a conversation over to a person.</p>",
+  contentText: null,
+  excerpt: null,
+  author: "Support Team",
+  publishedAt: "2024-01-15T00:00:00.000Z",
+  sourceUrl: "https://blog.example.com/choosing-a-chatbot",
+  tags: ["chatbots"],
+  originalArticleId: null,
+  originalRevision: null,
+  version: 0,
+  enhancementKey: null,
+  enhancementMetadata: null,
+  revision: 1,
+  contentHash: "3b5d9f1c",
+  isEnhanced: false,
+  citedReferences: null,
+  enhancementDetails: null,
+  createdAt: "2024-01-15T00:00:00.000Z",
+  updatedAt: "2024-01-15T00:00:00.000Z",
+};
+
+const SEARCH_RESULTS: SearchResult[] = [
+  {
+    title: "Support Chatbots Compared",
+    url: "https://reviews.example.org/support-chatbots",
+    snippet: "A comparison of support chatbots",
+  },
+  {
+    title: "Handing Chats Over to Agents",
+    url: "https://help.example.net/handover",
+    snippet: "When a bot should hand over",
+  },
+];
+
+/** Scraped text of each search result, long enough to be used */
+const PAGES: Record<string, string> = {
+  "https://reviews.example.org/support-chatbots":
+    "Support chatbots differ most in their integrations. A bot that " +
+    "connects to the help desk can open tickets on its own.\n\n" +
+    "Pricing is usually per conversation or per seat, and per " +
+    "conversation pricing gets expensive for busy support teams.",
+  "https://help.example.net/handover":
+    "A good handover passes the whole conversation to the agent, so the " +
+    "customer never repeats the question.\n\n" +
+    "Bots should hand over as soon as they fail to understand a question " +
+    "twice, rather than looping through the same answers.",
+};
+
+const OPTIONS: PipelineOptions = {
+  enableSearch: true,
+  enableLLM: true,
+  delays: { betweenArticles: 0, betweenSearches: 0, betweenScrapes: 0 },
+};
+
+/** In-memory stand-in for the backend API */
+function fakeApi() {
+  const saved: NewEnhancedArticle[] = [];
+  const articles: Article[] = [];
+
+  return {
+    saved,
+    async findEnhancedVersion(originalArticleId: string, key: string) {
+      return (
+        articles.find(
+          (a) =>
+            a.originalArticleId === originalArticleId &&
+            a.enhancementKey === key
+        ) ?? null
+      );
+    },
+    async createEnhancedArticle(article: NewEnhancedArticle) {
+      saved.push(article);
+      const stored: Article = {
+        ...ORIGINAL,
+        ...article,
+        id: `enhanced-${saved.length}`,
+        publishedAt: article.publishedAt.toISOString(),
+        originalRevision: article.originalRevision ?? null,
+        version: saved.length,
+        contentHash: null,
+        isEnhanced: true,
+      };
+      articles.push(stored);
+      return { article: stored, created: true };
+    },
+  };
+}
+
+/** Pipeline on the fixture LLM and search providers, with no network */
+function offlinePipeline(
+  results: SearchResult[] = SEARCH_RESULTS,
+  options: PipelineOptions = OPTIONS,
+  pages: Record<string, string> = PAGES
+) {
+  const provider = new FixtureProvider();
+  const searchProvider = new FixtureSearchProvider(results);
+  const api = fakeApi();
+
+  const pipeline = new EnhancementPipeline(
+    {
+      search: new SearchService(searchProvider, {
+        allowedDomains: [],
+        blockedDomains: [],
+      }),
+      scraper: {
+        scrapeArticleContent: async (url) => ({ text: pages[url] ?? "" }),
+      },
+      llm: new LLMService(provider),
+      api,
+    },
+    options
+  );
+
+  return { pipeline, provider, searchProvider, api };
+}
+
+describe("EnhancementPipeline", () => {
+  // The pipeline logs every step; keep that out of the test runner's output
+  before(() => {
+    for (const method of ["log", "warn", "error"] as const) {
+      mock.method(console, method, () => {});
+    }
+  });
+
+  after(() => mock.restoreAll());
+
+  it("enhances an article end to end without network access", async () => {
+    const { pipeline, provider, searchProvider, api } = offlinePipeline();
+    const stages: string[] = [];
+
+    const result = await pipeline.run(ORIGINAL, {
+      onProgress: (event) => stages.push(event.stage),
+    });
+
+    assert.equal(result.created, true);
+    assert.deepEqual(searchProvider.queries, [ORIGINAL.title]);
+    assert.equal(provider.prompts.length, 1);
+    assert.match(provider.prompts[0], /hand over as soon as they fail/);
+
+    assert.equal(api.saved.length, 1);
+    const [saved] = api.saved;
+    assert.equal(saved.originalArticleId, ORIGINAL.id);
+    assert.equal(saved.isEnhanced, true);
+    assert.match(saved.content, /<h2>Key Takeaways<\/h2>/);
+    assert.deepEqual(
+      saved.competitorSources.map((source) => source.url),
+      SEARCH_RESULTS.map((result) => result.url)
+    );
+    assert.deepEqual(
+      saved.citedReferences.map((reference) => reference.url),
+      SEARCH_RESULTS.map((result) => result.url)
+    );
+    assert.equal(saved.enhancementMetadata.provider, "fixture");
+    assert.deepEqual(
+      saved.enhancementDetails?.map((detail) =>
+        "verification" in detail ? detail.verification.status : undefined
+      ),
+      ["verified"]
+    );
+
+    assert.deepEqual(stages, [
+      "checking",
+      "searching",
+      "scraping",
+      "scraping",
+      "enhancing",
+      "publishing",
+      "done",
+    ]);
+  });
+
+  it("sends only capped excerpts of long competitor articles", async () => {
+    const url = SEARCH_RESULTS[0].url;
+    const filler = Array.from(
+      { length: 2000 },
+      (_, i) => `Paragraph ${i} is about something else entirely.`
+    );
+    const { pipeline, provider, api } = offlinePipeline(
+      SEARCH_RESULTS,
+      OPTIONS,
+      { ...PAGES, [url]: [PAGES[url], ...filler].join("\n\n") }
+    );
+
+    await pipeline.run(ORIGINAL);
+
+    const [saved] = api.saved;
+    const [long, short] = saved.competitorSources;
+    assert.ok(long.content.length <= MAX_COMPETITOR_SOURCE_LENGTH);
+    assert.ok(provider.prompts[0].includes(long.content.split("\n\n")[0]));
+    assert.equal(short.content, PAGES[SEARCH_RESULTS[1].url]);
+  });
+
+  it("reuses the version saved for the same inputs", async () => {
+    const { pipeline, provider, api } = offlinePipeline();
+
+    const first = await pipeline.run(ORIGINAL);
+    const second = await pipeline.run(ORIGINAL);
+
+    assert.equal(second.created, false);
+    assert.equal(second.article.id, first.article.id);
+    assert.equal(api.saved.length, 1);
+    assert.equal(provider.prompts.length, 1);
+  });
+
+  it("fails without saving when no competitor article is found", async () => {
+    const { pipeline, provider, api } = offlinePipeline([]);
+
+    await assert.rejects(pipeline.run(ORIGINAL), /No related articles/);
+    assert.equal(provider.prompts.length, 0);
+    assert.equal(api.saved.length, 0);
+  });
+
+  it("fails without saving when LLM enhancement is disabled", async () => {
+    const { pipeline, api } = offlinePipeline(SEARCH_RESULTS, {
+      ...OPTIONS,
+      enableLLM: false,
+    });
+
+    await assert.rejects(pipeline.run(ORIGINAL), /disabled/);
+    assert.equal(api.saved.length, 0);
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { EnhancementDetail } from "../src/services/llm.service.js";
+import { verifyEnhancementDetails } from "../src/lib/verify.js";
+
+const ORIGINAL =
+  "<p>Chatbots answer common questions at any hour.</p>\n" +
+  "<p>Compare pricing before you buy.</p>";
+
+const TAKEAWAYS = "<p>Pick a bot that hands chats over to people well.</p>";
+
+const ENHANCED =
+  "<p>Chatbots answer common customer questions at any hour of the day.</p>\n" +
+  "<p>Compare pricing before you buy.</p>\n" +
+  `<h2>Key Takeaways</h2>\n${TAKEAWAYS}`;
+
+/** Verifies a single addition against ORIGINAL and ENHANCED */
+function verifyAddition(newText: string) {
+  const { details } = verifyEnhancementDetails(ORIGINAL, ENHANCED, [
+    { type: "addition", newText, reason: "test" },
+  ]);
+  return details[0];
+}
+
+describe("verifyEnhancementDetails", () => {
+  it("verifies a change found word for word, with its offsets", () => {
+    const detail = verifyAddition(TAKEAWAYS);
+
+    assert.deepEqual(detail.verification, {
+      status: "verified",
+      score: 1,
+      originalTextFound: undefined,
+    });
+    assert.equal(
+      ENHANCED.slice(detail.startOffset, detail.endOffset),
+      TAKEAWAYS
+    );
+  });
+
+  it("ignores case, punctuation and markup when matching words", () => {
+    const detail = verifyAddition(
+      "<li>PICK a bot, that hands chats over to people... well!</li>"
+    );
+
+    assert.equal(detail.verification.status, "verified");
+    assert.equal(detail.verification.score, 1);
+    assert.equal(
+      ENHANCED.slice(detail.startOffset, detail.endOffset),
+      "Pick a bot that hands chats over to people well."
+    );
+  });
+
+  it("marks a close match approximate, with its share of words", () => {
+    // 7 of the 10 words are in the content
+    const detail = verifyAddition(
+      "<p>Pick a bot that passes chats over to staff smoothly.</p>"
+    );
+
+    assert.equal(detail.verification.status, "approximate");
+    assert.equal(detail.verification.score, 0.7);
+    assert.notEqual(detail.startOffset, undefined);
+  });
+
+  it("finds nothing below the match threshold", () => {
+    // 4 of the 10 words, under the 60% needed
+    const detail = verifyAddition(
+      "<p>Pick a bot that routes tickets into queues by topic.</p>"
+    );
+
+    assert.deepEqual(detail.verification, {
+      status: "not_found",
+      score: 0,
+      originalTextFound: undefined,
+    });
+    assert.equal(detail.startOffset, undefined);
+    assert.equal(detail.endOffset, undefined);
+  });
+
+  it("drops offsets reported for text that isn't there", () => {
+    const { details } = verifyEnhancementDetails(ORIGINAL, ENHANCED, [
+      {
+        type: "addition",
+        newText: "<p>Nothing like this is in the article.</p>",
+        reason: "test",
+        startOffset: 0,
+        endOffset: 10,
+      },
+    ]);
+
+    assert.equal(details[0].verification.status, "not_found");
+    assert.equal(details[0].startOffset, undefined);
+  });
+
+  it("marks text the original already had as unchanged", () => {
+    const detail = verifyAddition("<p>Compare pricing before you buy.</p>");
+
+    assert.equal(detail.verification.status, "unchanged");
+  });
+
+  it("checks a modification's original text loosely", () => {
+    const details: EnhancementDetail[] = [
+      {
+        type: "modification",
+        originalText: "<p>Chatbots answer common questions at all hours.</p>",
+        newText:
+          "<p>Chatbots answer common customer questions at any hour of the day.</p>",
+        reason: "test",
+      },
+      {
+        type: "modification",
+        originalText: "<p>Bots are expensive to run.</p>",
+        newText: "<p>Compare pricing before you buy.</p>",
+        reason: "test",
+      },
+    ];
+
+    const { details: verified } = verifyEnhancementDetails(
+      ORIGINAL,
+      ENHANCED,
+      details
+    );
+
+    assert.equal(verified[0].verification.status, "verified");
+    assert.equal(verified[0].verification.originalTextFound, true);
+    assert.equal(verified[1].verification.originalTextFound, false);
+  });
+
+  it("reports changes no detail covers", () => {
+    const { unreportedChanges } = verifyEnhancementDetails(ORIGINAL, ENHANCED, [
+      { type: "addition", newText: TAKEAWAYS, reason: "test" },
+    ]);
+
+    assert.deepEqual(unreportedChanges, [
+      {
+        type: "modification",
+        originalText: "Chatbots answer common questions at any hour.",
+        newText:
+          "Chatbots answer common customer questions at any hour of the day.",
+      },
+      { type: "addition", newText: "Key Takeaways" },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { apiService } from "../services/api";
+
+/**
+ * Header control for the API key sent with requests.
+ * Editors need a key to trigger enhancements; the key is kept in
+ * localStorage so it survives reloads.
+ */
+export function ApiKeyControl() {
+  const [open, setOpen] = useState(false);
+  const [saved, setSaved] = useState(() => apiService.getApiKey());
+  const [draft, setDraft] = useState(saved ?? "");
+
+  const save = (apiKey: string | null) => {
+    apiService.setApiKey(apiKey);
+    setSaved(apiKey);
+    setDraft(apiKey ?? "");
+    setOpen(false);
+  };
+
+  return (
+    <div className="api-key-control">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className={saved ? "active" : ""}
+        title={saved ? "API key set" : "Set an API key"}
+      >
+        🔑 {saved ? "Key set" : "API key"}
+      </button>
+
+      {open && (
+        <form
+          className="api-key-form"
+          onSubmit={(event) => {
+            event.preventDefault();
+            save(draft.trim() || null);
+          }}
+        >
+          <input
+            type="password"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            placeholder="Paste an editor API key"
+            autoFocus
+          />
+          <button type="submit" className="btn btn-primary">
+            Save
+          </button>
+          {saved && (
+            <button
+              type="button"
+              onClick={() => save(null)}
+              className="btn btn-secondary"
+            >
+              Clear
+            </button>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ interface ArticleCardProps {
 /**
  * Card component for displaying an article in the grid.
  * Shows badge (original/enhanced), title, excerpt, tags, and author info.
+ * For search hits, shows the highlighted title and matching snippet instead.
  * Links to the article detail page.
  */
 export function ArticleCard({ article }: ArticleCardProps) {
@@ -44,11 +45,27 @@ export function ArticleCard({ article }: ArticleCardProps) {
         {article.isEnhanced ? "✨ Enhanced" : "📄 Original"}
       </span>
 
-      <h3 className="article-title">{article.title}</h3>
+      {/* Highlight markup is HTML-escaped by the API apart from <mark> */}
+      {article.highlight ? (
+        <>
+          <h3
+            className="article-title"
+            dangerouslySetInnerHTML={{ __html: article.highlight.title }}
+          />
+          <p
+            className="article-excerpt search-snippet"
+            dangerouslySetInnerHTML={{ __html: article.highlight.snippet }}
+          />
+        </>
+      ) : (
+        <>
+          <h3 className="article-title">{article.title}</h3>
 
-      <p className="article-excerpt">
-        {article.excerpt || article.content.substring(0, 150) + "..."}
-      </p>
+          <p className="article-excerpt">
+            {article.excerpt || article.content.substring(0, 150) + "..."}
+          </p>
+        </>
+      )}
 
       {/* Tags (max 3 shown) */}
       {article.tags.length > 0 && (
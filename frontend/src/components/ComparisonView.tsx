@@ -0,0 +1,380 @@
+import { useState } from "react";
+import {
+  apiService,
+  errorMessage,
+  type Article,
+  type DetailDecision,
+  type DetailVerification,
+  type EnhancementDetail,
+} from "../services/api";
+import { DiffView } from "./DiffView";
+import { Scorecard } from "./Scorecard";
+
+const DECISION_BUTTONS: Array<{ decision: DetailDecision; label: string }> = [
+  { decision: "accepted", label: "✓ Accept" },
+  { decision: "rejected", label: "✗ Reject" },
+];
+
+/** How each verification status is shown next to a change */
+const VERIFICATION_LABELS: Record<
+  DetailVerification["status"],
+  { label: string; title: string }
+> = {
+  verified: { label: "✓ Verified", title: "Found in the enhanced content" },
+  approximate: {
+    label: "≈ Approximate",
+    title: "Only a close match was found in the enhanced content",
+  },
+  unchanged: {
+    label: "⚠ No change",
+    title: "This text was already in the original",
+  },
+  not_found: {
+    label: "⚠ Not found",
+    title: "Nothing in the enhanced content matches this change",
+  },
+};
+
+/** "Version 2 (prompt 3)", to tell versions from different prompts apart */
+function versionLabel(version: Article): string {
+  const prompt = version.enhancementMetadata?.promptVersion;
+  return `version ${version.version}${prompt ? ` (prompt ${prompt})` : ""}`;
+}
+
+interface ComparisonViewProps {
+  /** Enhanced version to analyse */
+  article: Article;
+  /** Its original, diffed against the enhanced content */
+  original: Article | null;
+  /**
+   * Enables accepting and rejecting each change while the article is in
+   * review; called with the article after decisions or a merge.
+   */
+  onArticleChange?: (article: Article) => void;
+}
+
+/**
+ * Detailed enhancement analysis for an enhanced version.
+ * Lists each change with its reasoning, or shows a text diff against the
+ * original. Reviewers can decide on each change and build the final article
+ * from the accepted ones.
+ */
+export function ComparisonView({
+  article,
+  original,
+  onArticleChange,
+}: ComparisonViewProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [unapplied, setUnapplied] = useState<number[]>([]);
+
+  const details = article.enhancementDetails ?? [];
+  const unreported = article.unreportedChanges ?? [];
+  const [view, setView] = useState<"changes" | "diff" | "scores">(
+    details.length > 0 ? "changes" : "diff"
+  );
+  const reviewing =
+    onArticleChange !== undefined &&
+    (article.status === "draft" || article.status === "in_review");
+  const decisions = details.map(
+    (_, index) =>
+      article.enhancementDecisions?.find((d) => d.detailIndex === index)
+        ?.decision
+  );
+  const accepted = decisions.filter((d) => d === "accepted").length;
+  const rejected = decisions.filter((d) => d === "rejected").length;
+
+  const decide = async (index: number, decision: DetailDecision | null) => {
+    try {
+      setSaving(true);
+      setError(null);
+      const updated = await apiService.saveDecisions(article.id, [
+        { index, decision },
+      ]);
+      onArticleChange?.(updated);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to save decision"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const merge = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const result = await apiService.mergeAcceptedChanges(article.id);
+      setUnapplied(result.unapplied);
+      onArticleChange?.(result.article);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to build the final article"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8 mb-12">
+      <div className="bg-dark-700 rounded-2xl p-6 border border-neutral-600/20">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl text-white m-0">
+            🔍 Detailed Enhancement Analysis
+          </h3>
+          <div className="text-sm text-neutral-400">
+            Showing <span className="text-green-400 font-bold">Additions</span>{" "}
+            and <span className="text-blue-400 font-bold">Reasoning</span>
+          </div>
+        </div>
+
+        {original && (
+          <div className="flex gap-2 mb-6">
+            {details.length > 0 && (
+              <button
+                onClick={() => setView("changes")}
+                className={`decision-button ${view === "changes" ? "active" : ""}`}
+              >
+                📋 Reported changes
+              </button>
+            )}
+            <button
+              onClick={() => setView("diff")}
+              className={`decision-button ${view === "diff" ? "active" : ""}`}
+            >
+              🔀 Text diff
+            </button>
+            <button
+              onClick={() => setView("scores")}
+              className={`decision-button ${view === "scores" ? "active" : ""}`}
+            >
+              📊 Scorecard
+            </button>
+          </div>
+        )}
+
+        {reviewing && details.length > 0 && (
+          <div className="decision-bar">
+            <span className="text-sm text-neutral-400">
+              <span className="text-green-400">{accepted} accepted</span> •{" "}
+              <span className="text-red-400">{rejected} rejected</span> •{" "}
+              {details.length - accepted - rejected} undecided
+            </span>
+            <button
+              onClick={merge}
+              disabled={saving}
+              className="btn btn-primary"
+            >
+              🧩 Build Final Article
+            </button>
+          </div>
+        )}
+
+        {article.finalContentAt && (
+          <p className="text-sm text-neutral-400 mb-6">
+            Final article built from the accepted changes on{" "}
+            {new Date(article.finalContentAt).toLocaleString()}
+            {unapplied.length > 0 &&
+              `; change(s) ${unapplied.map((i) => `#${i + 1}`).join(", ")} ` +
+                "couldn't be placed in the original and were left out"}
+            .
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-400 mb-6">❌ {error}</p>}
+
+        {original && view === "scores" ? (
+          <Scorecard articleId={article.id} />
+        ) : original && (view === "diff" || details.length === 0) ? (
+          <DiffView
+            fromId={original.id}
+            toId={article.id}
+            sources={[
+              { id: original.id, label: "the original" },
+              ...(original.enhancedVersions ?? [])
+                .filter((version) => version.id !== article.id)
+                .map((version) => ({
+                  id: version.id,
+                  label: versionLabel(version),
+                })),
+            ]}
+          />
+        ) : details.length > 0 ? (
+          <div className="space-y-6">
+            {details.map((detail: EnhancementDetail, index: number) => (
+              <div
+                key={index}
+                className={`bg-dark-800 rounded-xl p-5 border border-neutral-600/30 relative overflow-hidden group decision-${
+                  decisions[index] ?? "pending"
+                }`}
+              >
+                <div
+                  className={`absolute top-0 left-0 bottom-0 w-1 ${
+                    detail.type === "addition" ? "bg-green-500" : "bg-blue-500"
+                  }`}
+                ></div>
+
+                <div className="flex flex-col md:flex-row gap-6">
+                  {/* The Content */}
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-3">
+                      <span
+                        className={`text-xs font-bold uppercase tracking-wider px-2 py-1 rounded ${
+                          detail.type === "addition"
+                            ? "bg-green-500/20 text-green-400"
+                            : "bg-blue-500/20 text-blue-400"
+                        }`}
+                      >
+                        {detail.type}
+                      </span>
+                      <span className="text-xs text-neutral-500">
+                        #{index + 1}
+                      </span>
+                      {detail.verification && (
+                        <span
+                          className={`verification-badge ${detail.verification.status}`}
+                          title={`${
+                            VERIFICATION_LABELS[detail.verification.status]
+                              .title
+                          } (${Math.round(detail.verification.score * 100)}% of words matched)`}
+                        >
+                          {VERIFICATION_LABELS[detail.verification.status].label}
+                        </span>
+                      )}
+                      {decisions[index] && (
+                        <span className={`decision-badge ${decisions[index]}`}>
+                          {decisions[index]}
+                        </span>
+                      )}
+                      {reviewing && (
+                        <div className="ml-auto flex gap-2">
+                          {DECISION_BUTTONS.map(({ decision, label }) => (
+                            <button
+                              key={decision}
+                              // Clicking the current decision clears it
+                              onClick={() =>
+                                decide(
+                                  index,
+                                  decisions[index] === decision
+                                    ? null
+                                    : decision
+                                )
+                              }
+                              disabled={saving}
+                              className={`decision-button ${
+                                decisions[index] === decision ? decision : ""
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    {detail.verification?.originalTextFound === false && (
+                      <p className="text-xs text-yellow-400 mb-2">
+                        ⚠ The original text below wasn't found in the original
+                        article.
+                      </p>
+                    )}
+
+                    {detail.originalText && (
+                      <div className="mb-4 p-3 bg-red-900/10 border-l-2 border-red-500/30 rounded text-neutral-400 text-sm">
+                        <div className="text-xs text-red-400/70 mb-1 uppercase font-semibold">
+                          Original:
+                        </div>
+                        <div
+                          dangerouslySetInnerHTML={{
+                            __html: detail.originalText,
+                          }}
+                        />
+                      </div>
+                    )}
+
+                    <div className="prose prose-invert max-w-none">
+                      <div
+                        className="text-neutral-200 p-4 rounded-lg border-l-4"
+                        style={{
+                          backgroundColor:
+                            detail.type === "addition"
+                              ? "rgba(34, 197, 94, 0.3)"
+                              : "rgba(59, 130, 246, 0.3)",
+                          borderColor:
+                            detail.type === "addition" ? "#22c55e" : "#3b82f6",
+                        }}
+                        dangerouslySetInnerHTML={{
+                          __html: detail.newText,
+                        }}
+                      />
+                    </div>
+                  </div>
+
+                  {/* The Reasoning */}
+                  <div className="md:w-1/3 min-w-[250px] bg-dark-600/50 p-4 rounded-lg border border-white/5 h-fit">
+                    <div className="flex items-start gap-2 mb-2">
+                      <span className="text-lg">💡</span>
+                      <span className="font-semibold text-neutral-300 text-sm">
+                        Why this was changed:
+                      </span>
+                    </div>
+                    <p className="text-sm text-neutral-400 italic leading-relaxed">
+                      "{detail.reason}"
+                    </p>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            {unreported.length > 0 && (
+              <div className="unreported-changes">
+                <h4 className="text-white m-0 mb-2">
+                  🕵️ Unreported changes ({unreported.length})
+                </h4>
+                <p className="text-sm text-neutral-400 mb-4">
+                  Paragraphs that differ from the original but aren't covered
+                  by any change listed above.
+                </p>
+                <ul className="space-y-3">
+                  {unreported.map((change, index) => (
+                    <li key={index} className="text-sm">
+                      <span className="text-xs font-bold uppercase tracking-wider text-yellow-400 mr-2">
+                        {change.type}
+                      </span>
+                      {change.originalText && (
+                        <span className="diff-removed">
+                          {change.originalText}
+                        </span>
+                      )}
+                      {change.originalText && change.newText && " → "}
+                      {change.newText && (
+                        <span className="diff-added">{change.newText}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ) : (
+          // Fallback when the original isn't available to diff against
+          <div className="comparison-container">
+            <div className="comparison-panel">
+              <h3 className="text-accent">📄 Original Content</h3>
+              <p className="text-sm text-neutral-400 p-4 bg-dark-600 rounded-lg">
+                Original content not available.
+              </p>
+            </div>
+            <div className="comparison-panel">
+              <h3 className="text-green-400">✨ Enhanced Content</h3>
+              <div
+                className="text-sm text-neutral-400 max-h-96 overflow-auto p-4 bg-dark-600 rounded-lg custom-scrollbar"
+                dangerouslySetInnerHTML={{
+                  __html: article.content,
+                }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
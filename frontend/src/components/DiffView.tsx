@@ -0,0 +1,200 @@
+import { useEffect, useState, type ReactNode } from "react";
+import {
+  apiService,
+  errorMessage,
+  type ArticleDiff,
+  type DiffBlock,
+  type DiffSpan,
+} from "../services/api";
+
+type DiffLayout = "inline" | "side-by-side";
+
+const HEADING_TAGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+
+interface DiffViewProps {
+  /** Version to diff from, usually the original */
+  fromId: string;
+  /** Version to diff to, usually an enhanced version */
+  toId: string;
+  /** Versions that can be picked to diff from instead, fromId included */
+  sources?: Array<{ id: string; label: string }>;
+}
+
+/** Spans of one side: "from" hides additions, "to" hides removals */
+function Spans({ spans, side }: { spans: DiffSpan[]; side?: "from" | "to" }) {
+  return (
+    <>
+      {spans
+        .filter(
+          (span) =>
+            !(side === "from" && span.type === "added") &&
+            !(side === "to" && span.type === "removed")
+        )
+        .map((span, index) => (
+          <span key={index} className={`diff-${span.type}`}>
+            {span.text}
+          </span>
+        ))}
+    </>
+  );
+}
+
+/** One block's text, with its tag shown as a heading or list marker */
+function Block({
+  tag,
+  className,
+  children,
+}: {
+  tag: string;
+  className: string;
+  children: ReactNode;
+}) {
+  const kind = HEADING_TAGS.has(tag) ? "heading" : tag === "li" ? "item" : "";
+  return <div className={`diff-block ${kind} ${className}`}>{children}</div>;
+}
+
+/** A block as one row of the inline layout */
+function InlineRow({ block }: { block: DiffBlock }) {
+  if (block.type === "changed") {
+    return (
+      <Block tag={block.tag} className="changed">
+        <Spans spans={block.spans} />
+      </Block>
+    );
+  }
+
+  return (
+    <Block tag={block.tag} className={block.type}>
+      <span className={`diff-${block.type}`}>{block.text}</span>
+    </Block>
+  );
+}
+
+/** A block as a pair of cells, before and after */
+function SideBySideRow({ block }: { block: DiffBlock }) {
+  if (block.type === "changed") {
+    return (
+      <>
+        <Block tag={block.fromTag} className="changed">
+          <Spans spans={block.spans} side="from" />
+        </Block>
+        <Block tag={block.tag} className="changed">
+          <Spans spans={block.spans} side="to" />
+        </Block>
+      </>
+    );
+  }
+
+  const cell = <span className={`diff-${block.type}`}>{block.text}</span>;
+  return (
+    <>
+      <Block tag={block.tag} className={block.type}>
+        {block.type !== "added" && cell}
+      </Block>
+      <Block tag={block.tag} className={block.type}>
+        {block.type !== "removed" && cell}
+      </Block>
+    </>
+  );
+}
+
+/**
+ * Text diff between two versions of an article, computed by the backend
+ * paragraph by paragraph and word by word. Shown inline, or side by side
+ * with each paragraph lined up against its counterpart.
+ */
+export function DiffView({ fromId, toId, sources = [] }: DiffViewProps) {
+  const [diff, setDiff] = useState<ArticleDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [layout, setLayout] = useState<DiffLayout>("inline");
+  const [from, setFrom] = useState(fromId);
+
+  useEffect(() => {
+    async function fetchDiff() {
+      try {
+        setError(null);
+        setDiff(await apiService.getArticleDiff(from, toId));
+      } catch (err: unknown) {
+        setError(errorMessage(err, "Failed to load the diff"));
+      }
+    }
+
+    fetchDiff();
+  }, [from, toId]);
+
+  if (error) {
+    return <p className="text-sm text-red-400">❌ {error}</p>;
+  }
+
+  if (!diff) {
+    return <p className="text-sm text-neutral-400">Computing diff...</p>;
+  }
+
+  const { stats } = diff;
+  const titleChanged = diff.title.some((span) => span.type !== "equal");
+
+  return (
+    <div className="diff-view">
+      <div className="diff-toolbar">
+        <span className="text-sm text-neutral-400">
+          <span className="text-green-400">+{stats.wordsAdded} words</span> •{" "}
+          <span className="text-red-400">−{stats.wordsRemoved} words</span> •{" "}
+          {stats.blocksChanged} changed, {stats.blocksAdded} added,{" "}
+          {stats.blocksRemoved} removed, {stats.blocksUnchanged} unchanged
+          paragraphs
+        </span>
+        <div className="flex gap-2">
+          {sources.length > 1 && (
+            <select
+              className="diff-select"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              aria-label="Version to diff from"
+            >
+              {sources.map((source) => (
+                <option key={source.id} value={source.id}>
+                  From {source.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {(["inline", "side-by-side"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setLayout(option)}
+              className={`decision-button ${layout === option ? "active" : ""}`}
+            >
+              {option === "inline" ? "Inline" : "Side by side"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {titleChanged && (
+        <div className="diff-block heading changed mb-4">
+          <Spans spans={diff.title} />
+        </div>
+      )}
+
+      {layout === "inline" ? (
+        <div className="diff-inline custom-scrollbar">
+          {diff.blocks.map((block, index) => (
+            <InlineRow key={index} block={block} />
+          ))}
+        </div>
+      ) : (
+        <div className="diff-side-by-side custom-scrollbar">
+          <h4>
+            {diff.from.isEnhanced ? `Version ${diff.from.version}` : "Original"}
+          </h4>
+          <h4>
+            {diff.to.isEnhanced ? `Version ${diff.to.version}` : "Original"}
+          </h4>
+          {diff.blocks.map((block, index) => (
+            <SideBySideRow key={index} block={block} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
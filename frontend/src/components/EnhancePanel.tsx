@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { apiService, errorMessage, type EnhancementJob } from "../services/api";
+
+/** Pipeline stages reported by the worker, in order */
+const STAGES = [
+  { stage: "checking", label: "Checking for an existing version" },
+  { stage: "searching", label: "Searching for related sources" },
+  { stage: "scraping", label: "Scraping sources" },
+  { stage: "enhancing", label: "Calling the LLM" },
+  { stage: "publishing", label: "Saving the enhanced version for review" },
+];
+
+interface EnhancePanelProps {
+  articleId: string;
+}
+
+/**
+ * "Enhance this article" action for originals.
+ * Queues an enhancement job, follows its progress over Server-Sent Events
+ * and links to the new enhanced version once it is published.
+ */
+export function EnhancePanel({ articleId }: EnhancePanelProps) {
+  const [force, setForce] = useState(false);
+  const [job, setJob] = useState<EnhancementJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+  const stream = useRef<AbortController | null>(null);
+
+  // Stop following the job when leaving the page
+  useEffect(() => () => stream.current?.abort(), []);
+
+  const follow = async (jobId: string) => {
+    stream.current?.abort();
+    const controller = new AbortController();
+    stream.current = controller;
+
+    try {
+      await apiService.followJob(
+        jobId,
+        (event) => {
+          if (event.type === "error") setError(event.error);
+          else setJob(event.job);
+        },
+        controller.signal
+      );
+    } catch (err: unknown) {
+      if (!controller.signal.aborted) {
+        setError(errorMessage(err, "Lost connection to the job"));
+      }
+    }
+  };
+
+  const start = async () => {
+    try {
+      setStarting(true);
+      setError(null);
+      const queued = await apiService.enhanceArticle(articleId, force);
+      setJob(queued);
+      follow(queued.id);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to start enhancement"));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const finished = job?.status === "succeeded" || job?.status === "failed";
+  const busy = starting || (job !== null && !finished);
+  const currentIndex = STAGES.findIndex(
+    (s) => s.stage === job?.progress?.stage
+  );
+
+  return (
+    <div className="enhance-panel">
+      <div className="flex justify-between items-center flex-wrap gap-4">
+        <div>
+          <h4 className="text-white text-base mb-1">✨ Enhance this article</h4>
+          <p className="text-sm text-neutral-400 m-0">
+            Researches related sources and drafts a new enhanced version for
+            review.
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-neutral-400">
+            <input
+              type="checkbox"
+              checked={force}
+              onChange={(event) => setForce(event.target.checked)}
+              disabled={busy}
+            />
+            Force
+          </label>
+          <button onClick={start} disabled={busy} className="btn btn-primary">
+            {busy ? "Enhancing..." : "✨ Enhance"}
+          </button>
+        </div>
+      </div>
+
+      {!apiService.getApiKey() && !job && (
+        <p className="text-sm text-yellow-500 mt-4 mb-0">
+          Enhancing requires an editor API key; set one with 🔑 in the header.
+        </p>
+      )}
+
+      {job?.status === "queued" && (
+        <p className="text-sm text-neutral-400 mt-4 mb-0">
+          ⏳ Waiting for a worker to pick up the job
+          {job.attempts > 0 && ` (retry ${job.attempts + 1})`}. Workers are
+          started with <code>npm run worker</code>.
+        </p>
+      )}
+
+      {job && job.status !== "queued" && (
+        <ul className="enhance-stages">
+          {STAGES.map(({ stage, label }, index) => {
+            const done =
+              job.status === "succeeded" ||
+              job.progress?.stage === "done" ||
+              index < currentIndex;
+            const active = !done && index === currentIndex;
+            const progress = active ? job.progress : null;
+
+            return (
+              <li
+                key={stage}
+                className={`enhance-stage ${done ? "done" : ""} ${
+                  active ? "active" : ""
+                }`}
+              >
+                <span>{done ? "✓" : active ? "●" : "○"}</span>
+                {progress?.message ?? label}
+                {progress?.total !== undefined && progress.total > 0 && (
+                  <>
+                    {" "}
+                    ({progress.current ?? 0}/{progress.total})
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {job?.status === "succeeded" && job.resultArticleId && (
+        <div className="mt-4">
+          <Link
+            to={`/article/${job.resultArticleId}`}
+            className="btn btn-primary"
+          >
+            ✨ View Enhanced Version
+          </Link>
+        </div>
+      )}
+
+      {job?.status === "failed" && (
+        <p className="text-sm text-red-400 mt-4 mb-0">
+          ❌ Enhancement failed after {job.attempts} attempt(s)
+          {job.lastError && `: ${job.lastError}`}
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-400 mt-4 mb-0">❌ {error}</p>}
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import { Link, useLocation } from "react-router-dom";
+import { ApiKeyControl } from "./ApiKeyControl";
 
 /**
  * Header component with navigation.
- * Displays logo and nav links (Articles, external blog link).
+ * Displays logo, nav links (Articles, review queue, external blog link) and
+ * the API key control.
  * Uses React Router's useLocation for active link highlighting.
  */
 export function Header() {
@@ -26,6 +28,14 @@ export function Header() {
                 Articles
               </Link>
             </li>
+            <li>
+              <Link
+                to="/review"
+                className={location.pathname === "/review" ? "active" : ""}
+              >
+                Review
+              </Link>
+            </li>
             <li>
               <a
                 href="https://beyondchats.com/blogs/"
@@ -35,6 +45,9 @@ export function Header() {
                 BeyondChats Blog ↗
               </a>
             </li>
+            <li>
+              <ApiKeyControl />
+            </li>
           </ul>
         </nav>
       </div>
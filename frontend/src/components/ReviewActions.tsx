@@ -0,0 +1,143 @@
+import { useState } from "react";
+import {
+  apiService,
+  errorMessage,
+  type Article,
+  type ArticleStatus,
+} from "../services/api";
+import { STATUS_LABELS } from "../lib/status";
+
+/**
+ * Actions available from each status, mirroring the backend's transitions.
+ * The backend checks the key's role; reviewer-only actions fail with 403
+ * for editor keys.
+ */
+const ACTIONS: Record<
+  ArticleStatus,
+  Array<{ status: ArticleStatus; label: string; primary?: boolean }>
+> = {
+  draft: [{ status: "in_review", label: "Submit for review", primary: true }],
+  in_review: [
+    { status: "approved", label: "✓ Approve", primary: true },
+    { status: "rejected", label: "✗ Reject" },
+    { status: "draft", label: "Back to draft" },
+  ],
+  approved: [
+    { status: "published", label: "🚀 Publish", primary: true },
+    { status: "in_review", label: "Reopen review" },
+  ],
+  rejected: [{ status: "draft", label: "Back to draft", primary: true }],
+  published: [{ status: "approved", label: "Unpublish" }],
+};
+
+interface ReviewActionsProps {
+  article: Article;
+  /** Called with the article after its status changed */
+  onChange: (article: Article) => void;
+}
+
+/**
+ * Review status, notes and workflow buttons for an enhanced article.
+ */
+export function ReviewActions({ article, onChange }: ReviewActionsProps) {
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const similarity = article.enhancementMetadata?.similarity;
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+  const move = async (status: ArticleStatus) => {
+    try {
+      setSaving(true);
+      setError(null);
+      const updated = await apiService.updateArticleStatus(
+        article.id,
+        status,
+        notes.trim() || undefined
+      );
+      setNotes("");
+      onChange(updated);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to update status"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="review-actions">
+      <div className="flex items-center gap-3 flex-wrap">
+        <span className={`status-badge status-${article.status}`}>
+          {STATUS_LABELS[article.status]}
+        </span>
+        {article.reviewedBy && article.reviewedAt && (
+          <span className="text-sm text-neutral-400">
+            Reviewed by {article.reviewedBy} on{" "}
+            {new Date(article.reviewedAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      {!similarity && (
+        <div className="copy-warning">
+          <p className="m-0">
+            ⚠️ This version hasn't been checked for copied text, so it can't
+            be published. Enhance the original again instead.
+          </p>
+        </div>
+      )}
+
+      {similarity?.exceedsThreshold && (
+        <div className="copy-warning">
+          <p className="m-0">
+            ⚠️ {percent(similarity.maxSourceOverlap)} of this version matches
+            a competitor source (limit {percent(similarity.threshold)}), so it
+            can't be published.
+          </p>
+          {similarity.sources
+            .filter((source) => source.overlap > similarity.threshold)
+            .map((source) => (
+              <details key={source.url}>
+                <summary>
+                  {percent(source.overlap)} from {source.title}
+                </summary>
+                <ul>
+                  {source.passages.map((passage, index) => (
+                    <li key={index}>“{passage}”</li>
+                  ))}
+                </ul>
+              </details>
+            ))}
+        </div>
+      )}
+
+      {article.reviewNotes && (
+        <p className="review-notes">💬 {article.reviewNotes}</p>
+      )}
+
+      <textarea
+        value={notes}
+        onChange={(event) => setNotes(event.target.value)}
+        placeholder="Reviewer notes (required when rejecting)"
+        rows={2}
+        disabled={saving}
+      />
+
+      <div className="flex gap-3 flex-wrap">
+        {ACTIONS[article.status].map(({ status, label, primary }) => (
+          <button
+            key={status}
+            onClick={() => move(status)}
+            disabled={saving}
+            className={`btn ${primary ? "btn-primary" : "btn-secondary"}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-400 m-0">❌ {error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import {
+  apiService,
+  errorMessage,
+  type QualityScore,
+  type Scorecard as ScorecardData,
+} from "../services/api";
+
+interface ScorecardProps {
+  /** Enhanced version to score against its original */
+  articleId: string;
+}
+
+interface Metric {
+  label: string;
+  value: (score: QualityScore) => number;
+  /** Which direction is an improvement; neither for plain counts */
+  better?: "higher" | "lower";
+  format?: (value: number) => string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const METRICS: Metric[] = [
+  { label: "Words", value: (s) => s.wordCount },
+  { label: "Sentences", value: (s) => s.sentenceCount },
+  {
+    label: "Reading ease",
+    value: (s) => s.fleschReadingEase,
+    better: "higher",
+  },
+  {
+    label: "Grade level",
+    value: (s) => s.fleschKincaidGrade,
+    better: "lower",
+  },
+  {
+    label: "Headings",
+    value: (s) => s.headings.counts.reduce((sum, n) => sum + n, 0),
+  },
+  {
+    label: "Skipped heading levels",
+    value: (s) => s.headings.skippedLevels,
+    better: "lower",
+  },
+  {
+    label: "Duplicate headings",
+    value: (s) => s.headings.duplicates.length,
+    better: "lower",
+  },
+  { label: "Internal links", value: (s) => s.links.internal },
+  {
+    label: "External links",
+    value: (s) => s.links.external,
+    better: "higher",
+  },
+  {
+    label: "Keyword coverage",
+    value: (s) => s.keywordCoverage?.ratio ?? 0,
+    better: "higher",
+    format: percent,
+  },
+];
+
+function Delta({ metric, change }: { metric: Metric; change: number }) {
+  if (change === 0) return <span className="text-neutral-500">—</span>;
+
+  const improved = metric.better === "higher" ? change > 0 : change < 0;
+  const className = !metric.better
+    ? "text-neutral-300"
+    : improved
+      ? "text-green-400"
+      : "text-red-400";
+  const magnitude = metric.format
+    ? metric.format(Math.abs(change))
+    : Math.round(Math.abs(change) * 10) / 10;
+
+  return (
+    <span className={className}>
+      {change > 0 ? "+" : "−"}
+      {magnitude}
+    </span>
+  );
+}
+
+/**
+ * Before/after table of an enhanced version's readability and SEO scores
+ * against its original's, with improvements in green and regressions in red.
+ */
+export function Scorecard({ articleId }: ScorecardProps) {
+  const [scorecard, setScorecard] = useState<ScorecardData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchScorecard() {
+      try {
+        setError(null);
+        setScorecard(await apiService.getScorecard(articleId));
+      } catch (err: unknown) {
+        setError(errorMessage(err, "Failed to load the scorecard"));
+      }
+    }
+
+    fetchScorecard();
+  }, [articleId]);
+
+  if (error) {
+    return <p className="text-sm text-red-400">❌ {error}</p>;
+  }
+
+  if (!scorecard) {
+    return <p className="text-sm text-neutral-400">Scoring...</p>;
+  }
+
+  const before = scorecard.original.score;
+  const after = scorecard.enhanced.score;
+  const missing = after.keywordCoverage?.missing ?? [];
+  const duplicates = after.headings.duplicates;
+
+  return (
+    <div className="scorecard">
+      <table>
+        <thead>
+          <tr>
+            <th>Metric</th>
+            <th>Original</th>
+            <th>Version {scorecard.enhanced.version}</th>
+            <th>Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {METRICS.map((metric) => {
+            const from = metric.value(before);
+            const to = metric.value(after);
+            const format = metric.format ?? String;
+            return (
+              <tr key={metric.label}>
+                <td>{metric.label}</td>
+                <td>{format(from)}</td>
+                <td>{format(to)}</td>
+                <td>
+                  <Delta metric={metric} change={to - from} />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {scorecard.keywords.length === 0 && (
+        <p className="text-sm text-neutral-500">
+          No competitor keywords were recorded for this version, so keyword
+          coverage isn't measured.
+        </p>
+      )}
+      {missing.length > 0 && (
+        <p className="text-sm text-neutral-400">
+          <span className="text-yellow-400">Missing keywords:</span>{" "}
+          {missing.join(", ")}
+        </p>
+      )}
+      {duplicates.length > 0 && (
+        <p className="text-sm text-neutral-400">
+          <span className="text-yellow-400">Duplicate headings:</span>{" "}
+          {duplicates.map((heading) => `“${heading}”`).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import type { FacetBucket } from "../services/api";
+
+interface TagSidebarProps {
+  tags: FacetBucket[];
+  selected: string[];
+  onToggle: (tag: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Sidebar listing tags with the number of matching articles.
+ * Selecting several tags shows articles having any of them.
+ */
+export function TagSidebar({
+  tags,
+  selected,
+  onToggle,
+  onClear,
+}: TagSidebarProps) {
+  return (
+    <aside className="tag-sidebar">
+      <div className="tag-sidebar-header">
+        <h3>Tags</h3>
+        {selected.length > 0 && (
+          <button className="tag-sidebar-clear" onClick={onClear}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      {tags.length === 0 ? (
+        <p className="text-sm text-neutral-500">No tags</p>
+      ) : (
+        <ul className="tag-facets">
+          {tags.map((tag) => (
+            <li key={tag.value}>
+              <button
+                className={`tag-facet ${
+                  selected.includes(tag.value) ? "active" : ""
+                }`}
+                onClick={() => onToggle(tag.value)}
+              >
+                <span className="truncate">{tag.value}</span>
+                <span className="tag-facet-count">{tag.count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,50 @@
+import type { CitedReference } from "../services/api";
+
+/**
+ * Prepares article content for rendering.
+ * Articles scraped before HTML was preserved are plain text, so those are
+ * escaped and split into paragraphs on blank lines.
+ */
+export function toDisplayHtml(content: string): string {
+  if (/<([a-z][a-z0-9]*)\b[^>]*>/i.test(content)) return content;
+
+  return content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map(
+      (paragraph) =>
+        `<p>${paragraph
+          .replace(/&/g, "&amp;")
+          .replace(/</g, "&lt;")
+          .replace(/>/g, "&gt;")}</p>`
+    )
+    .join("");
+}
+
+/**
+ * Turns the enhancer's footnote links (`<a href="#cite-N">`) into hoverable
+ * citation markers showing the N-th reference's title and supporting quote.
+ * Markers pointing at no reference are left as they are.
+ */
+export function withCitationTooltips(
+  html: string,
+  references: CitedReference[] | null | undefined
+): string {
+  if (!references?.length || !html.includes("#cite-")) return html;
+
+  const doc = new DOMParser().parseFromString(html, "text/html");
+
+  doc.querySelectorAll<HTMLAnchorElement>('a[href^="#cite-"]').forEach((a) => {
+    const reference = references[Number(a.hash.slice("#cite-".length)) - 1];
+    if (!reference) return;
+
+    a.classList.add("citation-marker");
+    a.dataset.tooltip = reference.snippet
+      ? `${reference.title}: “${reference.snippet}”`
+      : reference.title;
+    a.setAttribute("aria-label", `Source: ${reference.title}`);
+  });
+
+  return doc.body.innerHTML;
+}
@@ -0,0 +1,10 @@
+import type { ArticleStatus } from "../services/api";
+
+/** Display names for review statuses */
+export const STATUS_LABELS: Record<ArticleStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  approved: "Approved",
+  rejected: "Rejected",
+  published: "Published",
+};
@@ -4,12 +4,18 @@
  * - Original/Enhanced badges
  * - Navigation between versions
  * - Cited references for enhanced articles
- * - Side-by-side comparison view
+ * - Side-by-side comparison view, with per-change accept/reject
+ * - Enhancing originals with live progress
+ * - Review workflow actions for enhanced versions (with an API key)
  */
 
 import { useState, useEffect } from "react";
 import { useParams, Link } from "react-router-dom";
 import { apiService, type Article } from "../services/api";
+import { toDisplayHtml, withCitationTooltips } from "../lib/html";
+import { ComparisonView } from "../components/ComparisonView";
+import { EnhancePanel } from "../components/EnhancePanel";
+import { ReviewActions } from "../components/ReviewActions";
 
 export function ArticlePage() {
   const { id } = useParams<{ id: string }>();
@@ -140,13 +146,40 @@ export function ArticlePage() {
               <div className="version-info">
                 <h4 className="text-green-400">
                   ✨ This is an AI-Enhanced Version
+                  {article.version > 0 && <> (v{article.version})</>}
                 </h4>
                 <p>
                   Enhanced from:{" "}
                   <strong className="text-white">
                     {article.original.title}
                   </strong>
+                  {article.originalRevision && (
+                    <> (revision {article.originalRevision})</>
+                  )}
                 </p>
+                {article.enhancementMetadata?.promptVersion && (
+                  <p className="text-sm">
+                    Prompt {article.enhancementMetadata.promptVersion}
+                    {article.enhancementMetadata.model && (
+                      <> · {article.enhancementMetadata.model}</>
+                    )}
+                    {article.enhancementMetadata.generation?.temperature !==
+                      undefined && (
+                      <>
+                        {" "}
+                        · temperature{" "}
+                        {article.enhancementMetadata.generation.temperature}
+                      </>
+                    )}
+                  </p>
+                )}
+                {article.originalRevision &&
+                  article.original.revision > article.originalRevision && (
+                    <p className="text-yellow-500">
+                      The original has been updated since (now revision{" "}
+                      {article.original.revision}).
+                    </p>
+                  )}
               </div>
               <div className="flex gap-3 flex-wrap">
                 <Link
@@ -176,142 +209,43 @@ export function ArticlePage() {
                   <h4 className="text-accent">
                     📄 This is the Original Article
                   </h4>
-                  <p>An AI-enhanced version is available</p>
+                  <p>
+                    {article.enhancedVersions.length === 1
+                      ? "An AI-enhanced version is available"
+                      : `${article.enhancedVersions.length} AI-enhanced versions are available`}
+                  </p>
                 </div>
                 <Link
                   to={`/article/${article.enhancedVersions[0].id}`}
                   className="btn btn-primary"
                 >
-                  ✨ View Enhanced Version
+                  ✨ View Latest Enhanced Version
                 </Link>
               </div>
             )}
 
-          {/* Smart Diff / Detailed Comparison View */}
-          {showComparison && (
-            <div className="space-y-8 mb-12">
-              <div className="bg-dark-700 rounded-2xl p-6 border border-neutral-600/20">
-                <div className="flex items-center justify-between mb-6">
-                  <h3 className="text-xl text-white m-0">
-                    🔍 Detailed Enhancement Analysis
-                  </h3>
-                  <div className="text-sm text-neutral-400">
-                    Showing{" "}
-                    <span className="text-green-400 font-bold">Additions</span>{" "}
-                    and{" "}
-                    <span className="text-blue-400 font-bold">Reasoning</span>
-                  </div>
-                </div>
-
-                {article.enhancementDetails &&
-                article.enhancementDetails.length > 0 ? (
-                  <div className="space-y-6">
-                    {article.enhancementDetails.map(
-                      (detail: any, index: number) => (
-                        <div
-                          key={index}
-                          className="bg-dark-800 rounded-xl p-5 border border-neutral-600/30 relative overflow-hidden group"
-                        >
-                          <div
-                            className={`absolute top-0 left-0 bottom-0 w-1 ${
-                              detail.type === "addition"
-                                ? "bg-green-500"
-                                : "bg-blue-500"
-                            }`}
-                          ></div>
-
-                          <div className="flex flex-col md:flex-row gap-6">
-                            {/* The Content */}
-                            <div className="flex-1">
-                              <div className="flex items-center gap-2 mb-3">
-                                <span
-                                  className={`text-xs font-bold uppercase tracking-wider px-2 py-1 rounded ${
-                                    detail.type === "addition"
-                                      ? "bg-green-500/20 text-green-400"
-                                      : "bg-blue-500/20 text-blue-400"
-                                  }`}
-                                >
-                                  {detail.type}
-                                </span>
-                              </div>
-
-                              {detail.originalText && (
-                                <div className="mb-4 p-3 bg-red-900/10 border-l-2 border-red-500/30 rounded text-neutral-400 text-sm">
-                                  <div className="text-xs text-red-400/70 mb-1 uppercase font-semibold">
-                                    Original:
-                                  </div>
-                                  <div
-                                    dangerouslySetInnerHTML={{
-                                      __html: detail.originalText,
-                                    }}
-                                  />
-                                </div>
-                              )}
+          {/* Review Workflow - Enhanced Article */}
+          {article.isEnhanced && apiService.getApiKey() && (
+            <ReviewActions
+              article={article}
+              onChange={(updated) => setArticle({ ...article, ...updated })}
+            />
+          )}
 
-                              <div className="prose prose-invert max-w-none">
-                                <div
-                                  className="text-neutral-200 p-4 rounded-lg border-l-4"
-                                  style={{
-                                    backgroundColor:
-                                      detail.type === "addition"
-                                        ? "rgba(34, 197, 94, 0.3)"
-                                        : "rgba(59, 130, 246, 0.3)",
-                                    borderColor:
-                                      detail.type === "addition"
-                                        ? "#22c55e"
-                                        : "#3b82f6",
-                                  }}
-                                  dangerouslySetInnerHTML={{
-                                    __html: detail.newText,
-                                  }}
-                                />
-                              </div>
-                            </div>
+          {/* Enhance Action - Original Article */}
+          {!article.isEnhanced && <EnhancePanel articleId={article.id} />}
 
-                            {/* The Reasoning */}
-                            <div className="md:w-1/3 min-w-[250px] bg-dark-600/50 p-4 rounded-lg border border-white/5 h-fit">
-                              <div className="flex items-start gap-2 mb-2">
-                                <span className="text-lg">💡</span>
-                                <span className="font-semibold text-neutral-300 text-sm">
-                                  Why this was changed:
-                                </span>
-                              </div>
-                              <p className="text-sm text-neutral-400 italic leading-relaxed">
-                                "{detail.reason}"
-                              </p>
-                            </div>
-                          </div>
-                        </div>
-                      )
-                    )}
-                  </div>
-                ) : (
-                  // Fallback for older articles without detailed data
-                  <div className="comparison-container">
-                    <div className="comparison-panel">
-                      <h3 className="text-accent">📄 Original Content</h3>
-                      <div
-                        className="text-sm text-neutral-400 max-h-96 overflow-auto p-4 bg-dark-600 rounded-lg custom-scrollbar"
-                        dangerouslySetInnerHTML={{
-                          __html:
-                            originalArticle?.content ||
-                            "Original content not available.",
-                        }}
-                      />
-                    </div>
-                    <div className="comparison-panel">
-                      <h3 className="text-green-400">✨ Enhanced Content</h3>
-                      <div
-                        className="text-sm text-neutral-400 max-h-96 overflow-auto p-4 bg-dark-600 rounded-lg custom-scrollbar"
-                        dangerouslySetInnerHTML={{
-                          __html: article.content,
-                        }}
-                      />
-                    </div>
-                  </div>
-                )}
-              </div>
-            </div>
+          {/* Smart Diff / Detailed Comparison View */}
+          {showComparison && (
+            <ComparisonView
+              article={article}
+              original={originalArticle}
+              onArticleChange={
+                apiService.getApiKey()
+                  ? (updated) => setArticle({ ...article, ...updated })
+                  : undefined
+              }
+            />
           )}
 
           {/* Citations Section */}
@@ -328,10 +262,19 @@ export function ArticlePage() {
                 </p>
                 <div>
                   {article.citedReferences.map((ref, index) => (
-                    <div key={index} className="citation-card">
-                      <div className="citation-icon">🔗</div>
+                    <div
+                      key={index}
+                      id={`cite-${index + 1}`}
+                      className="citation-card"
+                    >
+                      <div className="citation-icon">[{index + 1}]</div>
                       <div className="citation-content">
                         <div className="citation-title">{ref.title}</div>
+                        {ref.snippet && (
+                          <div className="citation-snippet">
+                            “{ref.snippet}”
+                          </div>
+                        )}
                         <div className="citation-url">
                           {(() => {
                             try {
@@ -366,10 +309,21 @@ export function ArticlePage() {
               </div>
             )}
 
-          {/* Article Content */}
+          {/* Article Content - the merged final article, once built */}
+          {article.finalContent && (
+            <p className="text-sm text-neutral-400 mb-4">
+              🧩 Showing the final article: the original plus the changes a
+              reviewer accepted.
+            </p>
+          )}
           <div
             className="article-content"
-            dangerouslySetInnerHTML={{ __html: article.content }}
+            dangerouslySetInnerHTML={{
+              __html: withCitationTooltips(
+                toDisplayHtml(article.finalContent ?? article.content),
+                article.citedReferences
+              ),
+            }}
           />
 
           {/* Source Link */}
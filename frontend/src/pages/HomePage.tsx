@@ -1,28 +1,92 @@
 /**
  * Home Page - Article Listing
- * Displays all articles with filter tabs
+ * Displays all articles with a search box and filter tabs
  */
 
 import { useState, useEffect } from "react";
-import { apiService, type Article } from "../services/api";
+import {
+  apiService,
+  type Article,
+  type ArticleFacets,
+  type ArticleListOptions,
+  type Pagination,
+} from "../services/api";
 import { ArticleCard } from "../components/ArticleCard";
+import { TagSidebar } from "../components/TagSidebar";
 
 type FilterType = "all" | "original" | "enhanced";
 
+/** Sort choices; "default" lets the API pick (relevance when searching) */
+const SORT_OPTIONS: Array<{
+  value: string;
+  label: string;
+  options: Pick<ArticleListOptions, "sort" | "order">;
+}> = [
+  { value: "default", label: "Newest", options: {} },
+  {
+    value: "createdAt:asc",
+    label: "Oldest",
+    options: { sort: "createdAt", order: "asc" },
+  },
+  {
+    value: "publishedAt:desc",
+    label: "Recently published",
+    options: { sort: "publishedAt", order: "desc" },
+  },
+  {
+    value: "updatedAt:desc",
+    label: "Recently updated",
+    options: { sort: "updatedAt", order: "desc" },
+  },
+  {
+    value: "title:asc",
+    label: "Title A–Z",
+    options: { sort: "title", order: "asc" },
+  },
+  {
+    value: "title:desc",
+    label: "Title Z–A",
+    options: { sort: "title", order: "desc" },
+  },
+];
+
 export function HomePage() {
   const [articles, setArticles] = useState<Article[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState<FilterType>("all");
+  const [sortKey, setSortKey] = useState("default");
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [facets, setFacets] = useState<ArticleFacets | null>(null);
+
+  const sortOptions =
+    SORT_OPTIONS.find((o) => o.value === sortKey)?.options ?? {};
+
+  // Debounce typing so we only query once the user pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
 
-  // Fetch articles when component mounts or filter changes
+  // Fetch the first page when component mounts, filter, sort or search changes
   useEffect(() => {
     async function fetchArticles() {
       try {
         setLoading(true);
         setError(null);
-        const data = await apiService.getArticles(filter);
-        setArticles(data);
+        const options = SORT_OPTIONS.find(
+          (o) => o.value === sortKey
+        )?.options;
+        const data = await apiService.getArticles(filter, search, {
+          ...options,
+          tags: selectedTags,
+        });
+        setArticles(data.articles);
+        setPagination(data.pagination);
       } catch (err: unknown) {
         const message =
           err instanceof Error ? err.message : "Failed to fetch articles";
@@ -33,11 +97,59 @@ export function HomePage() {
     }
 
     fetchArticles();
-  }, [filter]);
+  }, [filter, search, sortKey, selectedTags]);
 
-  // Count articles by type
-  const originalCount = articles.filter((a) => !a.isEnhanced).length;
-  const enhancedCount = articles.filter((a) => a.isEnhanced).length;
+  // Facet counts don't depend on sort order, so refetch them separately
+  useEffect(() => {
+    apiService
+      .getFacets(filter, search, selectedTags)
+      .then(setFacets)
+      .catch(() => setFacets(null));
+  }, [filter, search, selectedTags]);
+
+  // Append the next page, continuing from the last article shown
+  async function loadMore() {
+    if (!pagination?.nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      const data = await apiService.getArticles(filter, search, {
+        ...sortOptions,
+        tags: selectedTags,
+        cursor: pagination.nextCursor,
+      });
+      setArticles((current) => [...current, ...data.articles]);
+      setPagination(data.pagination);
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error ? err.message : "Failed to fetch articles";
+      setError(message);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  /** Tab label count from the facets; status counts ignore the active tab */
+  const countFor = (tab: FilterType) => {
+    if (!facets) return "";
+    const { original, enhanced } = facets.isEnhanced;
+    const count =
+      tab === "all"
+        ? original + enhanced
+        : tab === "original"
+          ? original
+          : enhanced;
+    return ` (${count})`;
+  };
+
+  const isFiltered = Boolean(search) || selectedTags.length > 0;
+
+  const toggleTag = (tag: string) =>
+    setSelectedTags((current) =>
+      current.includes(tag)
+        ? current.filter((t) => t !== tag)
+        : [...current, tag]
+    );
 
   return (
     <div className="page">
@@ -50,71 +162,144 @@ export function HomePage() {
           </p>
         </div>
 
-        {/* Filter Tabs */}
-        <div className="filter-tabs">
-          <button
-            className={`filter-tab ${filter === "all" ? "active" : ""}`}
-            onClick={() => setFilter("all")}
-          >
-            All Articles ({articles.length})
-          </button>
-          <button
-            className={`filter-tab ${filter === "original" ? "active" : ""}`}
-            onClick={() => setFilter("original")}
-          >
-            📄 Original ({originalCount})
-          </button>
-          <button
-            className={`filter-tab ${filter === "enhanced" ? "active" : ""}`}
-            onClick={() => setFilter("enhanced")}
-          >
-            ✨ Enhanced ({enhancedCount})
-          </button>
+        {/* Search */}
+        <div className="search-bar">
+          <span className="search-icon">🔍</span>
+          <input
+            type="search"
+            className="search-input"
+            placeholder='Search articles… try "lead generation" or automat*'
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
         </div>
 
-        {/* Loading State */}
-        {loading && (
-          <div className="loading">
-            <div className="spinner"></div>
-            <p>Loading articles...</p>
-          </div>
-        )}
-
-        {/* Error State */}
-        {error && (
-          <div className="empty-state">
-            <div className="empty-state-icon">⚠️</div>
-            <h3>Failed to Load Articles</h3>
-            <p>{error}</p>
-            <p className="mt-4 text-sm">
-              Make sure the backend is running at{" "}
-              <code className="bg-dark-600 px-2 py-1 rounded">
-                http://localhost:3000
-              </code>
-            </p>
+        {/* Filter Tabs and Sort */}
+        <div className="list-controls">
+          <div className="filter-tabs">
+            <button
+              className={`filter-tab ${filter === "all" ? "active" : ""}`}
+              onClick={() => setFilter("all")}
+            >
+              All Articles{countFor("all")}
+            </button>
+            <button
+              className={`filter-tab ${filter === "original" ? "active" : ""}`}
+              onClick={() => setFilter("original")}
+            >
+              📄 Original{countFor("original")}
+            </button>
+            <button
+              className={`filter-tab ${filter === "enhanced" ? "active" : ""}`}
+              onClick={() => setFilter("enhanced")}
+            >
+              ✨ Enhanced{countFor("enhanced")}
+            </button>
           </div>
-        )}
-
-        {/* Empty State */}
-        {!loading && !error && articles.length === 0 && (
-          <div className="empty-state">
-            <div className="empty-state-icon">📚</div>
-            <h3>No Articles Found</h3>
-            <p>Run the scraper script to fetch articles from BeyondChats.</p>
-            <code className="block mt-4 p-4 bg-dark-600 rounded-lg">
-              cd backend && npm run scrape
-            </code>
-          </div>
-        )}
 
-        {/* Articles Grid */}
-        {!loading && !error && articles.length > 0 && (
-          <div className="articles-grid">
-            {articles.map((article) => (
-              <ArticleCard key={article.id} article={article} />
+          <select
+            className="sort-select"
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value)}
+            aria-label="Sort articles"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.value === "default" && search
+                  ? "Most relevant"
+                  : option.label}
+              </option>
             ))}
+          </select>
+        </div>
+
+        <div className="home-layout">
+          {/* Tag Sidebar */}
+          {facets && (facets.tags.length > 0 || selectedTags.length > 0) && (
+            <TagSidebar
+              tags={facets.tags}
+              selected={selectedTags}
+              onToggle={toggleTag}
+              onClear={() => setSelectedTags([])}
+            />
+          )}
+
+          <div className="home-main">
+            {/* Loading State */}
+            {loading && (
+              <div className="loading">
+                <div className="spinner"></div>
+                <p>Loading articles...</p>
+              </div>
+            )}
+
+            {/* Error State */}
+            {error && (
+              <div className="empty-state">
+                <div className="empty-state-icon">⚠️</div>
+                <h3>Failed to Load Articles</h3>
+                <p>{error}</p>
+                <p className="mt-4 text-sm">
+                  Make sure the backend is running at{" "}
+                  <code className="bg-dark-600 px-2 py-1 rounded">
+                    http://localhost:3000
+                  </code>
+                </p>
+              </div>
+            )}
+
+            {/* No Search Results */}
+            {!loading && !error && articles.length === 0 && isFiltered && (
+              <div className="empty-state">
+                <div className="empty-state-icon">🔎</div>
+                <h3>No Matches</h3>
+                <p>
+                  {search
+                    ? `No articles match "${search}".`
+                    : "No articles match the selected tags."}
+                </p>
+              </div>
+            )}
+
+            {/* Empty State */}
+            {!loading && !error && articles.length === 0 && !isFiltered && (
+              <div className="empty-state">
+                <div className="empty-state-icon">📚</div>
+                <h3>No Articles Found</h3>
+                <p>
+                  Run the scraper script to fetch articles from BeyondChats.
+                </p>
+                <code className="block mt-4 p-4 bg-dark-600 rounded-lg">
+                  cd backend && npm run scrape
+                </code>
+              </div>
+            )}
+
+            {/* Articles Grid */}
+            {!loading && !error && articles.length > 0 && (
+              <div className="articles-grid">
+                {articles.map((article) => (
+                  <ArticleCard key={article.id} article={article} />
+                ))}
+              </div>
+            )}
+
+            {/* Load More */}
+            {!loading && !error && pagination?.nextCursor && (
+              <div className="load-more">
+                <button
+                  className="btn btn-secondary"
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                >
+                  {loadingMore
+                    ? "Loading..."
+                    : `Load more (${articles.length} of ${pagination.total})`}
+                </button>
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
     </div>
   );
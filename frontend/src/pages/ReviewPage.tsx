@@ -0,0 +1,211 @@
+/**
+ * Review Queue Page
+ * Lists enhanced articles awaiting a decision, with the comparison view
+ * against their original and the review workflow actions.
+ * Needs an editor or reviewer API key.
+ */
+
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import {
+  apiService,
+  errorMessage,
+  type Article,
+  type ArticleStatus,
+  type Pagination,
+} from "../services/api";
+import { ComparisonView } from "../components/ComparisonView";
+import { ReviewActions } from "../components/ReviewActions";
+import { STATUS_LABELS } from "../lib/status";
+
+/** Queue tabs; published articles are on the home page */
+const QUEUE_STATUSES: ArticleStatus[] = [
+  "draft",
+  "in_review",
+  "approved",
+  "rejected",
+];
+
+/** One queued article, with its original loaded for comparison */
+function ReviewItem({
+  article,
+  onChange,
+}: {
+  article: Article;
+  onChange: (article: Article) => void;
+}) {
+  const [original, setOriginal] = useState<Article | null>(null);
+  const [showComparison, setShowComparison] = useState(false);
+
+  const toggleComparison = async () => {
+    if (!showComparison && !original && article.originalArticleId) {
+      try {
+        setOriginal(await apiService.getArticle(article.originalArticleId));
+      } catch {
+        // Compare without the original
+      }
+    }
+    setShowComparison(!showComparison);
+  };
+
+  return (
+    <div className="review-item">
+      <div className="flex justify-between items-start gap-4 flex-wrap">
+        <div>
+          <h3 className="text-lg mb-1">
+            <Link to={`/article/${article.id}`} className="text-white">
+              {article.title}
+            </Link>
+          </h3>
+          <p className="text-sm text-neutral-400 m-0">
+            Version {article.version} • Updated{" "}
+            {new Date(article.updatedAt).toLocaleString()}
+          </p>
+        </div>
+        <button onClick={toggleComparison} className="btn btn-secondary">
+          {showComparison ? "Hide Comparison" : "⚖️ Compare"}
+        </button>
+      </div>
+
+      {showComparison && (
+        <div className="mt-6">
+          <ComparisonView
+            article={article}
+            original={original}
+            onArticleChange={onChange}
+          />
+        </div>
+      )}
+
+      <ReviewActions article={article} onChange={onChange} />
+    </div>
+  );
+}
+
+export function ReviewPage() {
+  const [status, setStatus] = useState<ArticleStatus>("draft");
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const hasApiKey = Boolean(apiService.getApiKey());
+
+  useEffect(() => {
+    async function fetchQueue() {
+      if (!hasApiKey) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await apiService.getArticles("enhanced", undefined, {
+          status: [status],
+          sort: "updatedAt",
+          order: "asc",
+          limit: 50,
+        });
+        setArticles(data.articles);
+        setPagination(data.pagination);
+      } catch (err: unknown) {
+        setError(errorMessage(err, "Failed to fetch the review queue"));
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchQueue();
+  }, [status, hasApiKey]);
+
+  // A moved article leaves this tab
+  const handleChange = (updated: Article) => {
+    if (updated.status === status) {
+      setArticles((current) =>
+        current.map((a) => (a.id === updated.id ? updated : a))
+      );
+      return;
+    }
+
+    setArticles((current) => current.filter((a) => a.id !== updated.id));
+    setPagination((current) =>
+      current ? { ...current, total: current.total - 1 } : current
+    );
+  };
+
+  return (
+    <div className="page">
+      <div className="container">
+        <div className="text-center mb-12">
+          <h1>Review Queue</h1>
+          <p className="text-neutral-400 mt-4 text-lg">
+            Enhanced versions are listed publicly once they are published
+          </p>
+        </div>
+
+        <div className="list-controls">
+          <div className="filter-tabs">
+            {QUEUE_STATUSES.map((s) => (
+              <button
+                key={s}
+                className={`filter-tab ${status === s ? "active" : ""}`}
+                onClick={() => setStatus(s)}
+              >
+                {STATUS_LABELS[s]}
+                {status === s && pagination && ` (${pagination.total})`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {!hasApiKey && (
+          <div className="empty-state">
+            <div className="empty-state-icon">🔑</div>
+            <h3>API Key Required</h3>
+            <p>
+              Set an editor or reviewer API key with 🔑 in the header to see the
+              review queue.
+            </p>
+          </div>
+        )}
+
+        {loading && (
+          <div className="loading">
+            <div className="spinner"></div>
+            <p>Loading review queue...</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="empty-state">
+            <div className="empty-state-icon">⚠️</div>
+            <h3>Failed to Load Review Queue</h3>
+            <p>{error}</p>
+          </div>
+        )}
+
+        {hasApiKey && !loading && !error && articles.length === 0 && (
+          <div className="empty-state">
+            <div className="empty-state-icon">✅</div>
+            <h3>Nothing Here</h3>
+            <p>
+              No enhanced articles are {STATUS_LABELS[status].toLowerCase()}.
+            </p>
+          </div>
+        )}
+
+        {!loading && !error && articles.length > 0 && (
+          <div className="space-y-6">
+            {articles.map((article) => (
+              <ReviewItem
+                key={article.id}
+                article={article}
+                onChange={handleChange}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,40 +1,249 @@
 import axios, { type AxiosInstance } from "axios";
 
+/** A single change made by the enhancer, with optional offsets into content */
+export interface EnhancementDetail {
+  type: "addition" | "modification";
+  originalText?: string;
+  newText: string;
+  reason: string;
+  startOffset?: number;
+  endOffset?: number;
+  /** How the change compares with the actual content */
+  verification?: DetailVerification;
+}
+
+/** Result of checking a reported change against the content */
+export interface DetailVerification {
+  status: "verified" | "approximate" | "unchanged" | "not_found";
+  /** Share of newText's words found in the content, 0 to 1 */
+  score: number;
+  /** For modifications: whether originalText was found in the original */
+  originalTextFound?: boolean;
+}
+
+/** A change found in the content that no detail reports (plain text) */
+export interface UnreportedChange {
+  type: "addition" | "modification" | "removal";
+  originalText?: string;
+  newText?: string;
+}
+
+/**
+ * A source an enhanced article cites. Footnote markers in the content link
+ * to `#cite-N` for the N-th reference.
+ */
+export interface CitedReference {
+  title: string;
+  url: string;
+  /** Text from the source supporting the cited claim */
+  snippet?: string;
+}
+
+/** Copied-text check of an enhanced version against its competitor sources */
+export interface SimilarityReport {
+  shingleSize: number;
+  threshold: number;
+  /** Share of the enhanced text also found in the original, 0 to 1 */
+  originalOverlap: number;
+  /** Highest share found in any one competitor source, 0 to 1 */
+  maxSourceOverlap: number;
+  /** True if the version copies too much to be published */
+  exceedsThreshold: boolean;
+  sources: Array<{
+    title: string;
+    url: string;
+    overlap: number;
+    /** Longest copied runs of text */
+    passages: string[];
+  }>;
+}
+
+/** How an enhanced version was produced */
+export interface EnhancementMetadata {
+  /** Prompt templates used (a directory of enhancement-script/prompts) */
+  promptVersion?: string;
+  /** Changes whenever the templates' text is edited */
+  promptHash?: string;
+  provider?: string;
+  model?: string;
+  generation?: {
+    temperature?: number;
+    topP?: number;
+    maxInputTokens?: number;
+    maxOutputTokens?: number;
+  };
+  similarity?: SimilarityReport;
+  /** Top keywords of the competitor articles */
+  keywords?: string[];
+}
+
+/** Readability and SEO measurements of an article's content */
+export interface QualityScore {
+  wordCount: number;
+  sentenceCount: number;
+  /** Flesch reading ease: higher is easier */
+  fleschReadingEase: number;
+  /** Flesch-Kincaid grade: US school grade needed to follow the text */
+  fleschKincaidGrade: number;
+  headings: {
+    /** Headings at each level, h1 to h6 */
+    counts: number[];
+    /** Headings more than one level below the previous one */
+    skippedLevels: number;
+    /** Heading texts used more than once */
+    duplicates: string[];
+  };
+  links: { internal: number; external: number };
+  keywordCoverage?: {
+    keywords: string[];
+    covered: string[];
+    missing: string[];
+    /** Share of keywords used, 0 to 1 */
+    ratio: number;
+  };
+}
+
+/** Scores of an enhanced version and its original, before and after */
+export interface Scorecard {
+  keywords: string[];
+  original: { id: string; title: string; score: QualityScore };
+  enhanced: { id: string; title: string; version: number; score: QualityScore };
+}
+
+/** A reviewer's verdict on one change */
+export type DetailDecision = "accepted" | "rejected";
+
+/** Decision on the enhancementDetails item at `detailIndex` */
+export interface EnhancementDecision {
+  id: string;
+  detailIndex: number;
+  decision: DetailDecision;
+  note: string | null;
+  /** Name of the API key that made the decision */
+  decidedBy: string;
+  updatedAt: string;
+}
+
+/** Review workflow state; only published articles are listed publicly */
+export type ArticleStatus =
+  | "draft"
+  | "in_review"
+  | "approved"
+  | "rejected"
+  | "published";
+
 /** Article data structure from the API */
 export interface Article {
   id: string;
   title: string;
+  /** Article HTML (older scraped articles may be plain text) */
   content: string;
+  /** Plain-text version of content */
+  contentText?: string | null;
   excerpt: string | null;
   author: string;
   publishedAt: string;
   sourceUrl: string;
   tags: string[];
   originalArticleId: string | null;
+  /** Revision of the original this enhanced version was built from */
+  originalRevision?: number | null;
+  /** 0 for originals; enhanced versions are numbered from 1 */
+  version: number;
+  revision: number;
   isEnhanced: boolean;
-  citedReferences?: Array<{ title: string; url: string; snippet?: string }>;
-  enhancementDetails?: Array<{
-    type: "addition" | "modification";
-    originalText?: string;
-    newText: string;
-    reason: string;
-  }>;
+  enhancementMetadata?: EnhancementMetadata | null;
+  qualityScore?: QualityScore | null;
+  status: ArticleStatus;
+  statusChangedAt?: string | null;
+  submittedAt?: string | null;
+  reviewedAt?: string | null;
+  /** Name of the API key that approved or rejected the article */
+  reviewedBy?: string | null;
+  reviewNotes?: string | null;
+  /** When the article went live */
+  releasedAt?: string | null;
+  citedReferences?: CitedReference[] | null;
+  enhancementDetails?: EnhancementDetail[] | null;
+  unreportedChanges?: UnreportedChange[] | null;
+  enhancementDecisions?: EnhancementDecision[];
+  /** Original plus only the accepted changes, once built by a reviewer */
+  finalContent?: string | null;
+  finalContentAt?: string | null;
   original?: Article | null;
   enhancedVersions?: Article[];
+  /** Present on search hits: rank from 0 to 1 */
+  relevance?: number;
+  /** Present on search hits: escaped HTML with matches wrapped in <mark> */
+  highlight?: {
+    title: string;
+    snippet: string;
+  };
   createdAt: string;
   updatedAt: string;
 }
 
+/** Fields the article list can be sorted by */
+export type ArticleSort =
+  | "createdAt"
+  | "publishedAt"
+  | "updatedAt"
+  | "title"
+  | "relevance";
+
+/** Pagination metadata for an article list page */
+export interface Pagination {
+  /** Null when the page was requested by cursor */
+  page: number | null;
+  limit: number;
+  total: number;
+  totalPages: number;
+  /** Opaque token for the following page, or null on the last page */
+  nextCursor: string | null;
+  /** Opaque token for the preceding page, or null on the first page */
+  prevCursor: string | null;
+}
+
 /** Paginated article list response */
 export interface ArticleListResponse {
   success: boolean;
   data: Article[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
+  pagination: Pagination;
+}
+
+/** Sorting, paging and extra filters for the article list */
+export interface ArticleListOptions {
+  sort?: ArticleSort;
+  order?: "asc" | "desc";
+  /** Cursor from a previous page's pagination */
+  cursor?: string;
+  limit?: number;
+  /** Only articles with any of these tags */
+  tags?: string[];
+  /** Review statuses to include (default: published; others need a key) */
+  status?: ArticleStatus[];
+}
+
+/** Number of matching articles for one facet value */
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+/** Article counts for the current search and filters */
+export interface ArticleFacets {
+  total: number;
+  isEnhanced: { original: number; enhanced: number };
+  tags: FacetBucket[];
+  authors: FacetBucket[];
+  /** "YYYY-MM", newest first */
+  publishedMonths: FacetBucket[];
+}
+
+/** Facets endpoint response */
+export interface ArticleFacetsResponse {
+  success: boolean;
+  data: ArticleFacets;
 }
 
 /** Single article response */
@@ -43,6 +252,105 @@ export interface ArticleResponse {
   data: Article;
 }
 
+/** A run of text in both compared versions, or only in one */
+export interface DiffSpan {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+/** A paragraph-level block compared across two versions */
+export type DiffBlock =
+  | { type: DiffSpan["type"]; tag: string; text: string }
+  | { type: "changed"; tag: string; fromTag: string; spans: DiffSpan[] };
+
+export interface DiffStats {
+  blocksUnchanged: number;
+  blocksAdded: number;
+  blocksRemoved: number;
+  blocksChanged: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+/** Side of a diff, as returned by GET /articles/:id/diff/:otherId */
+export interface DiffVersion {
+  id: string;
+  title: string;
+  version: number;
+  isEnhanced: boolean;
+  status: ArticleStatus;
+}
+
+/** Structural diff between two versions of an article */
+export interface ArticleDiff {
+  from: DiffVersion;
+  to: DiffVersion;
+  title: DiffSpan[];
+  blocks: DiffBlock[];
+  stats: DiffStats;
+}
+
+/** Latest step reported by the enhancement worker */
+export interface JobProgress {
+  stage: string;
+  message: string;
+  current?: number;
+  total?: number;
+}
+
+/** Enhancement job, as queued by POST /articles/:id/enhance */
+export interface EnhancementJob {
+  id: string;
+  articleId: string;
+  status: "queued" | "running" | "succeeded" | "failed";
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAfter: string;
+  resultArticleId: string | null;
+  progress: JobProgress | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Event from a job's event stream */
+export type JobEvent =
+  | { type: "progress" | "done"; job: EnhancementJob }
+  | { type: "error"; error: string };
+
+/**
+ * Message for a failed request, preferring the backend's `error` field.
+ */
+export function errorMessage(err: unknown, fallback: string): string {
+  const body = axios.isAxiosError(err) ? err.response?.data : undefined;
+  if (typeof body?.error === "string") return body.error;
+  return err instanceof Error ? err.message : fallback;
+}
+
+/** localStorage key holding the API key entered in the header */
+const API_KEY_STORAGE_KEY = "articleSearch.apiKey";
+
+/**
+ * Parses one Server-Sent Events message.
+ * @returns The event, or null for comments (keep-alive pings)
+ */
+function parseJobEvent(message: string): JobEvent | null {
+  let type = "message";
+  const data: string[] = [];
+
+  for (const line of message.split("\n")) {
+    if (line.startsWith("event:")) type = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+  }
+
+  if (data.length === 0) return null;
+
+  const payload = JSON.parse(data.join("\n"));
+  return type === "error"
+    ? { type: "error", error: payload.error }
+    : { type: type === "done" ? "done" : "progress", job: payload };
+}
+
 /**
  * Frontend API client for fetching articles.
  * Communicates with the Express backend API.
@@ -62,30 +370,115 @@ class ApiService {
     });
     console.log("Environment API URL:", import.meta.env.VITE_API_URL);
     console.log("Final Base URL:", this.client.defaults.baseURL);
+
+    // Send the stored API key, if any, with every request
+    this.client.interceptors.request.use((request) => {
+      const apiKey = this.getApiKey();
+      if (apiKey) request.headers.Authorization = `Bearer ${apiKey}`;
+      return request;
+    });
+  }
+
+  /** API key entered by the user, or null */
+  getApiKey(): string | null {
+    return localStorage.getItem(API_KEY_STORAGE_KEY);
+  }
+
+  /** Stores the API key sent with requests; null removes it */
+  setApiKey(apiKey: string | null) {
+    if (apiKey) {
+      localStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+    } else {
+      localStorage.removeItem(API_KEY_STORAGE_KEY);
+    }
   }
 
   /**
-   * Fetches articles with optional filtering.
+   * Fetches a page of articles with optional filtering and full-text search.
    * @param filter - 'all', 'original', or 'enhanced'
-   * @returns Array of articles
+   * @param search - Optional search query (results are ranked by relevance)
+   * @param options - Sort order, page size and cursor for the next page
+   * @returns Articles and pagination metadata
    */
   async getArticles(
-    filter?: "all" | "original" | "enhanced"
-  ): Promise<Article[]> {
-    const params: Record<string, string> = { limit: "100" };
+    filter?: "all" | "original" | "enhanced",
+    search?: string,
+    options: ArticleListOptions = {}
+  ): Promise<{ articles: Article[]; pagination: Pagination }> {
+    const params: Record<string, string> = {
+      ...this.filterParams(filter, search, options.tags),
+      limit: String(options.limit ?? 24),
+    };
 
-    if (filter === "original") {
-      params.isEnhanced = "false";
-    } else if (filter === "enhanced") {
-      params.isEnhanced = "true";
+    if (options.sort) {
+      params.sort = options.sort;
+    }
+
+    if (options.order) {
+      params.order = options.order;
+    }
+
+    if (options.cursor) {
+      params.cursor = options.cursor;
+    }
+
+    if (options.status?.length) {
+      params.status = options.status.join(",");
     }
 
     const response = await this.client.get<ArticleListResponse>("/articles", {
       params,
     });
+    return {
+      articles: response.data.data,
+      pagination: response.data.pagination,
+    };
+  }
+
+  /**
+   * Fetches article counts by status, tag, author and month for a query.
+   * Each facet ignores its own filter, e.g. tag counts ignore `tags`.
+   * @param filter - 'all', 'original', or 'enhanced'
+   * @param search - Optional search query
+   * @param tags - Optional tags, matching any
+   */
+  async getFacets(
+    filter?: "all" | "original" | "enhanced",
+    search?: string,
+    tags?: string[]
+  ): Promise<ArticleFacets> {
+    const response = await this.client.get<ArticleFacetsResponse>(
+      "/articles/facets",
+      { params: this.filterParams(filter, search, tags) }
+    );
     return response.data.data;
   }
 
+  /** Query params shared by the list and facets endpoints */
+  private filterParams(
+    filter?: "all" | "original" | "enhanced",
+    search?: string,
+    tags?: string[]
+  ): Record<string, string> {
+    const params: Record<string, string> = {};
+
+    if (search) {
+      params.search = search;
+    }
+
+    if (tags?.length) {
+      params.tags = tags.join(",");
+    }
+
+    if (filter === "original") {
+      params.isEnhanced = "false";
+    } else if (filter === "enhanced") {
+      params.isEnhanced = "true";
+    }
+
+    return params;
+  }
+
   /**
    * Fetches a single article by ID.
    * @param id - Article UUID
@@ -108,6 +501,134 @@ class ApiService {
     );
     return response.data.data;
   }
+
+  /**
+   * Fetches a paragraph- and word-level diff between two versions of the
+   * same article (the original or any enhanced version).
+   * @param id - Version to diff from
+   * @param otherId - Version to diff to
+   */
+  async getArticleDiff(id: string, otherId: string): Promise<ArticleDiff> {
+    const response = await this.client.get<{ data: ArticleDiff }>(
+      `/articles/${id}/diff/${otherId}`
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Fetches the quality and SEO scores of an enhanced version and its
+   * original.
+   */
+  async getScorecard(id: string): Promise<Scorecard> {
+    const response = await this.client.get<{ data: Scorecard }>(
+      `/articles/${id}/scorecard`
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Moves an enhanced article through the review workflow.
+   * Editors submit drafts; reviewers approve, reject and publish.
+   * @param notes - Reviewer notes, required when rejecting
+   * @returns The updated article
+   */
+  async updateArticleStatus(
+    id: string,
+    status: ArticleStatus,
+    notes?: string
+  ): Promise<Article> {
+    const response = await this.client.post<ArticleResponse>(
+      `/articles/${id}/status`,
+      { status, notes }
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Accepts or rejects individual changes (needs a reviewer key).
+   * A null decision clears an earlier one.
+   * @returns The article with its updated decisions
+   */
+  async saveDecisions(
+    id: string,
+    decisions: Array<{ index: number; decision: DetailDecision | null }>
+  ): Promise<Article> {
+    const response = await this.client.put<ArticleResponse>(
+      `/articles/${id}/decisions`,
+      { decisions }
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Builds the final article from the original plus the accepted changes.
+   * @returns The article, and the indexes of accepted changes that were
+   *   applied or couldn't be placed in the original
+   */
+  async mergeAcceptedChanges(
+    id: string
+  ): Promise<{ article: Article; applied: number[]; unapplied: number[] }> {
+    const response = await this.client.post<{
+      data: { article: Article; applied: number[]; unapplied: number[] };
+    }>(`/articles/${id}/merge`);
+    return response.data.data;
+  }
+
+  /**
+   * Queues an enhancement of an original article (needs an editor key).
+   * Returns the job already queued for the article, if there is one.
+   * @param force - Re-enhance even if unchanged since the last enhancement
+   */
+  async enhanceArticle(id: string, force = false): Promise<EnhancementJob> {
+    const response = await this.client.post<{ data: EnhancementJob }>(
+      `/articles/${id}/enhance`,
+      { force }
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Follows a job's progress over Server-Sent Events until it finishes.
+   * Uses fetch rather than EventSource so the API key header can be sent.
+   * @param onEvent - Called with each progress, done or error event
+   * @param signal - Aborts the stream
+   */
+  async followJob(
+    id: string,
+    onEvent: (event: JobEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const apiKey = this.getApiKey();
+    const response = await fetch(
+      `${this.client.defaults.baseURL}/jobs/${id}/events`,
+      {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        signal,
+      }
+    );
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Could not follow job (HTTP ${response.status})`);
+    }
+
+    const reader = response.body
+      .pipeThrough(new TextDecoderStream())
+      .getReader();
+    let buffer = "";
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += value;
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const event = parseJobEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) onEvent(event);
+      }
+    }
+  }
 }
 
 /** Singleton API service instance */